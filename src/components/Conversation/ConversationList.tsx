@@ -1,41 +1,83 @@
-import { Stack, UnstyledButton, Text, Group, Badge } from "@mantine/core";
+import { Stack, UnstyledButton, Text, Group, Badge, Tooltip, ThemeIcon } from "@mantine/core";
+import {
+	IconDeviceMobileMessage,
+	IconMessages,
+	IconPhone,
+	IconRobot,
+	IconUser,
+	IconUsers,
+} from "@tabler/icons-react";
 import { memo, useMemo } from "react";
 import {
+  useMessageStore,
   useConversations,
-  useSelectedConversationId,
-  useExportData,
+  useSelectedConversationKey,
   useSelectConversation,
+  useActiveExportId,
 } from "../../store/messageStore";
 import { formatRelativeTime } from "../../utils/dateFormat";
-import { getMessagePreview } from "../../utils/messageProcessor";
+import { getMessagePreview, isDeletedMessage } from "../../utils/messageProcessor";
 import { cleanDisplayName } from "../../utils/displayName";
-import type { Conversation } from "../../types/messages";
+import { getConversationKind } from "../../utils/conversationKind";
+import { getConversationKey } from "../../utils/exportMerge";
+import type { Conversation, ConversationKind } from "../../types/messages";
+import { MERGED_EXPORT_ID } from "../../constants/exports";
+import { CONVERSATION_KIND_NAMES } from "../../constants/conversations";
 
 interface ConversationListProps {
 	searchQuery: string;
+	/** Only show conversations of this kind */
+	kindFilter?: ConversationKind | null;
 }
 
+const KIND_ICONS: Record<ConversationKind, typeof IconUser> = {
+	person: IconUser,
+	group: IconUsers,
+	bot: IconRobot,
+	phone: IconPhone,
+	sms: IconDeviceMobileMessage,
+	other: IconMessages,
+};
+
+const KIND_COLORS: Record<ConversationKind, string> = {
+	person: "blue",
+	group: "teal",
+	bot: "violet",
+	phone: "orange",
+	sms: "orange",
+	other: "gray",
+};
+
 const ConversationItem = memo(function ConversationItem({
 	conversation,
 	isSelected,
 	userId,
+	accountLabel,
 	onSelect,
 }: {
 	conversation: Conversation;
 	isSelected: boolean;
 	userId: string;
-	onSelect: (id: string) => void;
+	accountLabel: string | null;
+	onSelect: (key: string) => void;
 }) {
 	const messages = conversation.MessageList;
-	const messageCount = messages.length;
+	// Indexed conversations only hold a summary of their messages until opened
+	const deletedCount = useMemo(
+		() => conversation.index?.deletedCount ?? messages.filter(isDeletedMessage).length,
+		[conversation.index, messages],
+	);
+	const messageCount = (conversation.index?.messageCount ?? messages.length) - deletedCount;
 	const lastMessageIndex = messages.length - 1;
 	const lastMessage = messages[lastMessageIndex];
 	const secondLastMessage = messages[lastMessageIndex - 1];
 
 	const preview = lastMessage ? getMessagePreview(lastMessage, userId, secondLastMessage) : "";
-	const handleClick = () => onSelect(conversation.id);
+	const handleClick = () => onSelect(getConversationKey(conversation));
 
 	const displayName = cleanDisplayName(conversation.displayName) || cleanDisplayName(conversation.id) || conversation.id;
+	const kind = useMemo(() => getConversationKind(conversation), [conversation]);
+	const KindIcon = KIND_ICONS[kind];
 
 	return (
 		<UnstyledButton
@@ -61,6 +103,17 @@ const ConversationItem = memo(function ConversationItem({
 			<Stack gap="xs">
 				<Group justify="space-between" wrap="nowrap" gap="xs">
 					<Group gap="xs" wrap="nowrap" style={{ flex: 1, minWidth: 0 }}>
+						<Tooltip label={CONVERSATION_KIND_NAMES[kind]} withArrow>
+							<ThemeIcon
+								size="sm"
+								radius="xl"
+								variant="light"
+								color={KIND_COLORS[kind]}
+								style={{ flexShrink: 0 }}
+							>
+								<KindIcon size={12} />
+							</ThemeIcon>
+						</Tooltip>
 						<Text 
 							c={isSelected ? "light-dark(var(--mantine-color-gray-9), var(--mantine-color-gray-0))" : "light-dark(var(--mantine-color-gray-7), var(--mantine-color-gray-3))"} 
 							fw={isSelected ? 600 : 500} 
@@ -69,14 +122,20 @@ const ConversationItem = memo(function ConversationItem({
 						>
 							{displayName}
 						</Text>
-						<Badge
-							size="sm"
-							variant="light"
-							color="gray"
-							style={{ flexShrink: 0 }}
+						<Tooltip
+							label={`${messageCount} messages, ${deletedCount} removed`}
+							disabled={deletedCount === 0}
+							withArrow
 						>
-							{messageCount}
-						</Badge>
+							<Badge
+								size="sm"
+								variant="light"
+								color="gray"
+								style={{ flexShrink: 0 }}
+							>
+								{messageCount}
+							</Badge>
+						</Tooltip>
 					</Group>
 					{lastMessage && (
 						<Text
@@ -94,26 +153,39 @@ const ConversationItem = memo(function ConversationItem({
 						{preview}
 					</Text>
 				)}
+				{accountLabel && (
+					<Badge size="xs" variant="outline" color="blue" style={{ alignSelf: "flex-start" }}>
+						{accountLabel}
+					</Badge>
+				)}
 			</Stack>
 		</UnstyledButton>
 	);
 });
 
-export function ConversationList({ searchQuery }: ConversationListProps) {
+export function ConversationList({ searchQuery, kindFilter = null }: ConversationListProps) {
 	const conversations = useConversations();
 	const selectConversation = useSelectConversation();
-	const selectedConversationId = useSelectedConversationId();
-	const exportData = useExportData();
+	const selectedConversationKey = useSelectedConversationKey();
+	const getExportForConversation = useMessageStore(
+		(state) => state.getExportForConversation,
+	);
+	const isMerged = useActiveExportId() === MERGED_EXPORT_ID;
 
 	const filteredConversations = useMemo(() => {
-		if (!searchQuery.trim()) return conversations;
+		const byKind = kindFilter
+			? conversations.filter((c) => getConversationKind(c) === kindFilter)
+			: conversations;
+		if (!searchQuery.trim()) return byKind;
 
 		const query = searchQuery.toLowerCase().trim();
-		return conversations.filter((c) => {
+		return byKind.filter((c) => {
 			const name = c.displayName || c.id;
-			return name.toLowerCase().includes(query);
+			const shownName = cleanDisplayName(c.displayName) || cleanDisplayName(c.id) || "";
+			// The shown name differs for phone numbers, which are formatted
+			return name.toLowerCase().includes(query) || shownName.toLowerCase().includes(query);
 		});
-	}, [conversations, searchQuery]);
+	}, [conversations, searchQuery, kindFilter]);
 
 	if (filteredConversations.length === 0) {
 		return (
@@ -125,15 +197,21 @@ export function ConversationList({ searchQuery }: ConversationListProps) {
 
 	return (
 		<Stack gap="xs">
-			{filteredConversations.map((conversation) => (
-				<ConversationItem
-					key={conversation.id}
-					conversation={conversation}
-					isSelected={conversation.id === selectedConversationId}
-					userId={exportData?.userId || ""}
-					onSelect={selectConversation}
-				/>
-			))}
+			{filteredConversations.map((conversation) => {
+				// Each conversation is previewed from the account of the export it came from
+				const ownerId = getExportForConversation(conversation)?.userId || "";
+				const conversationKey = getConversationKey(conversation);
+				return (
+					<ConversationItem
+						key={conversationKey}
+						conversation={conversation}
+						isSelected={conversationKey === selectedConversationKey}
+						userId={ownerId}
+						accountLabel={isMerged ? cleanDisplayName(ownerId) : null}
+						onSelect={selectConversation}
+					/>
+				);
+			})}
 		</Stack>
 	);
 }
@@ -0,0 +1,210 @@
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  Badge,
+  Button,
+  Table,
+  ScrollArea,
+  CopyButton,
+  Alert,
+} from "@mantine/core";
+import {
+  IconCheck,
+  IconCopy,
+  IconAlertTriangle,
+  IconLifebuoy,
+} from "@tabler/icons-react";
+import type {
+  ExportDiagnostics,
+  RecoveryReport,
+} from "../../types/diagnostics";
+import {
+  useMessageStore,
+  useExportData,
+  useDiagnosticsOpened,
+} from "../../store/messageStore";
+import { hasDiagnosticIssues } from "../../utils/exportValidator";
+import { formatFileSize } from "../../utils/fileSize";
+
+function sortedCounts(counts: Record<string, number>): [string, number][] {
+  return Object.entries(counts).sort((a, b) => b[1] - a[1]);
+}
+
+function CountTable({
+  title,
+  counts,
+}: {
+  title: string;
+  counts: Record<string, number>;
+}) {
+  const rows = sortedCounts(counts);
+  if (rows.length === 0) return null;
+
+  return (
+    <Stack gap={4}>
+      <Text size="sm" fw={600}>
+        {title}
+      </Text>
+      <Table striped withTableBorder fz="xs">
+        <Table.Tbody>
+          {rows.map(([name, count]) => (
+            <Table.Tr key={name}>
+              <Table.Td style={{ wordBreak: "break-all" }}>{name}</Table.Td>
+              <Table.Td w={80} ta="right">
+                {count.toLocaleString()}
+              </Table.Td>
+            </Table.Tr>
+          ))}
+        </Table.Tbody>
+      </Table>
+    </Stack>
+  );
+}
+
+function DiagnosticsSummary({ diagnostics }: { diagnostics: ExportDiagnostics }) {
+  return (
+    <Group gap="xs">
+      <Badge variant="light" color="gray">
+        {diagnostics.conversationCount.toLocaleString()} conversations
+      </Badge>
+      <Badge variant="light" color="gray">
+        {diagnostics.messageCount.toLocaleString()} messages
+      </Badge>
+      {diagnostics.invalidTimestamps > 0 && (
+        <Badge variant="light" color="orange">
+          {diagnostics.invalidTimestamps.toLocaleString()} unparsable timestamps
+        </Badge>
+      )}
+      {diagnostics.brokenMediaReferences > 0 && (
+        <Badge variant="light" color="orange">
+          {diagnostics.brokenMediaReferences.toLocaleString()} broken media references
+        </Badge>
+      )}
+    </Group>
+  );
+}
+
+function RecoverySummary({ recovery }: { recovery: RecoveryReport }) {
+  return (
+    <Alert
+      color="red"
+      variant="light"
+      title="Recovered from a damaged file"
+      icon={<IconLifebuoy size={16} />}
+    >
+      <Stack gap={4}>
+        <Text size="sm">
+          The file breaks at byte {recovery.byteOffset.toLocaleString()} (
+          {formatFileSize(recovery.byteOffset)}), in conversation #
+          {(recovery.conversationIndex + 1).toLocaleString()}.
+        </Text>
+        <Text size="sm">
+          {recovery.recoveredConversations.toLocaleString()} conversations were
+          recovered
+          {recovery.salvagedMessages > 0 &&
+            `, including ${recovery.salvagedMessages.toLocaleString()} messages from the conversation that broke`}
+          . Anything after that point is missing.
+        </Text>
+        <Text size="xs" c="dimmed" style={{ wordBreak: "break-all" }}>
+          {recovery.reason}
+        </Text>
+      </Stack>
+    </Alert>
+  );
+}
+
+/**
+ * Shows the validation report for the current export and lets the user copy it
+ * as JSON to attach to a bug report.
+ */
+export function DiagnosticsPanel() {
+  const { closeDiagnostics } = useMessageStore();
+  const opened = useDiagnosticsOpened();
+  const exportData = useExportData();
+  const diagnostics = exportData?.diagnostics;
+
+  if (!diagnostics) return null;
+
+  // Recovery has its own summary, so only format problems trigger the warning
+  const hasFormatIssues = hasDiagnosticIssues({
+    ...diagnostics,
+    recovery: undefined,
+  });
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={closeDiagnostics}
+      title="Import diagnostics"
+      size="lg"
+      scrollAreaComponent={ScrollArea.Autosize}
+    >
+      <Stack gap="md">
+        {diagnostics.recovery && (
+          <RecoverySummary recovery={diagnostics.recovery} />
+        )}
+        {hasFormatIssues ? (
+          <Alert
+            color="yellow"
+            variant="light"
+            icon={<IconAlertTriangle size={16} />}
+          >
+            Some parts of this export did not match the expected format. They
+            are still shown, but may look wrong.
+          </Alert>
+        ) : (
+          !diagnostics.recovery && (
+            <Text size="sm" c="dimmed">
+              No problems were found in this export.
+            </Text>
+          )
+        )}
+
+        <DiagnosticsSummary diagnostics={diagnostics} />
+
+        <CountTable
+          title="Unknown message types"
+          counts={diagnostics.unknownMessageTypes}
+        />
+        <CountTable
+          title="Missing or invalid fields"
+          counts={diagnostics.missingFields}
+        />
+
+        {diagnostics.samples.length > 0 && (
+          <Stack gap={4}>
+            <Text size="sm" fw={600}>
+              Examples
+            </Text>
+            {diagnostics.samples.map((sample, index) => (
+              <Text key={index} size="xs" c="dimmed" style={{ wordBreak: "break-all" }}>
+                {sample.issue}
+                {sample.conversationId && ` — ${sample.conversationId}`}
+                {sample.messageId && ` / ${sample.messageId}`}
+              </Text>
+            ))}
+          </Stack>
+        )}
+
+        <Group justify="flex-end">
+          <CopyButton value={JSON.stringify(diagnostics, null, 2)}>
+            {({ copied, copy }) => (
+              <Button
+                variant="light"
+                color={copied ? "teal" : "blue"}
+                leftSection={
+                  copied ? <IconCheck size={16} /> : <IconCopy size={16} />
+                }
+                onClick={copy}
+              >
+                {copied ? "Copied" : "Copy as JSON"}
+              </Button>
+            )}
+          </CopyButton>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
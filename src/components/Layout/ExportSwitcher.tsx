@@ -0,0 +1,60 @@
+import { Group, Select, ActionIcon, Tooltip } from "@mantine/core";
+import { IconPlus, IconReportAnalytics } from "@tabler/icons-react";
+import { useMemo } from "react";
+import {
+	useMessageStore,
+	useLoadedExports,
+	useActiveExportId,
+	useExportData,
+} from "../../store/messageStore";
+import { cleanDisplayName } from "../../utils/displayName";
+import { MERGED_EXPORT_ID } from "../../constants/exports";
+
+/**
+ * Switches between loaded exports (or all of them merged), reopens the import
+ * diagnostics and starts loading another one.
+ */
+export function ExportSwitcher() {
+	const { selectExport, startAddingExport, openDiagnostics } = useMessageStore();
+	const exports = useLoadedExports();
+	const activeExportId = useActiveExportId();
+	const exportData = useExportData();
+
+	const options = useMemo(() => {
+		const exportOptions = exports.map((data) => ({
+			value: data.id ?? "",
+			label: `${cleanDisplayName(data.userId) || data.userId}${
+				data.exportDate ? ` (${data.exportDate.substring(0, 10)})` : ""
+			}`,
+		}));
+
+		return exports.length > 1
+			? [{ value: MERGED_EXPORT_ID, label: "All exports (merged)" }, ...exportOptions]
+			: exportOptions;
+	}, [exports]);
+
+	return (
+		<Group gap="xs" wrap="nowrap">
+			<Select
+				data={options}
+				value={activeExportId}
+				onChange={(value) => value && selectExport(value)}
+				allowDeselect={false}
+				size="xs"
+				style={{ flex: 1 }}
+			/>
+			{exportData?.diagnostics && (
+				<Tooltip label="Import diagnostics" position="bottom">
+					<ActionIcon variant="subtle" onClick={openDiagnostics}>
+						<IconReportAnalytics size={16} />
+					</ActionIcon>
+				</Tooltip>
+			)}
+			<Tooltip label="Load another export" position="bottom">
+				<ActionIcon variant="subtle" onClick={startAddingExport}>
+					<IconPlus size={16} />
+				</ActionIcon>
+			</Tooltip>
+		</Group>
+	);
+}
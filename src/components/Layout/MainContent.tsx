@@ -1,31 +1,75 @@
-import { Center, Stack } from "@mantine/core";
+import { Alert, Center, Stack } from "@mantine/core";
+import { IconDeviceFloppy } from "@tabler/icons-react";
 import { useCallback } from "react";
 import { FileUpload } from "../Upload/FileUpload";
-import { useMessageStore, useExportData } from "../../store/messageStore";
+import {
+	useMessageStore,
+	useExportData,
+	useImportProgress,
+	useIsAddingExport,
+	useExportSaveError,
+} from "../../store/messageStore";
 import type { SkypeExport } from "../../types/messages";
 import { MessageView } from "../Message/MessageView";
+import { DiagnosticsPanel } from "../Diagnostics/DiagnosticsPanel";
 
 export function MainContent() {
-	const { setExportData } = useMessageStore();
+	const {
+		setExportData,
+		appendConversations,
+		setImportProgress,
+		resetImport,
+		cancelAddingExport,
+		setExportSaveError,
+	} = useMessageStore();
 	const exportData = useExportData();
+	const importProgress = useImportProgress();
+	const isAddingExport = useIsAddingExport();
+	const exportSaveError = useExportSaveError();
 
 	const handleFileProcessed = useCallback((data: SkypeExport) => {
 		setExportData(data);
 	}, [setExportData]);
 
-	if (!exportData) {
-		return (
-			<Center h="100%">
-				<FileUpload
-					onFileProcessed={handleFileProcessed}
-				/>
-			</Center>
-		);
-	}
+	// The upload screen stays mounted (hidden) while a streamed import is still running,
+	// so it can keep reporting progress and show the error if the import fails midway
+	const showUpload = !exportData || isAddingExport || importProgress !== null;
+	const uploadHidden = Boolean(exportData) && !isAddingExport;
 
 	return (
-		<Stack h="100%" style={{ overflow: "auto" }}>
-			<MessageView />
-		</Stack>
+		<>
+			{showUpload && (
+				<Center h="100%" display={uploadHidden ? "none" : undefined}>
+					<FileUpload
+						onFileProcessed={handleFileProcessed}
+						onConversationsParsed={appendConversations}
+						onProgress={setImportProgress}
+						onImportFailed={resetImport}
+						onSaveFailed={setExportSaveError}
+						onCancel={exportData ? cancelAddingExport : undefined}
+					/>
+				</Center>
+			)}
+			{uploadHidden && (
+				<Stack h="100%" style={{ overflow: "auto" }}>
+					{exportSaveError && (
+						<Alert
+							color="yellow"
+							variant="light"
+							radius={0}
+							icon={<IconDeviceFloppy size={16} />}
+							withCloseButton
+							onClose={() => setExportSaveError(null)}
+							style={{ flexShrink: 0 }}
+						>
+							{exportSaveError}. The export is open, but it is not listed
+							under Saved on This Device.
+						</Alert>
+					)}
+					<MessageView />
+				</Stack>
+			)}
+			<DiagnosticsPanel />
+		</>
 	);
 }
@@ -1,9 +1,17 @@
-import { useState } from "react";
-import { Stack, Text, Group, ActionIcon, TextInput, Paper, Anchor } from "@mantine/core";
+import { useMemo, useState } from "react";
+import { Stack, Text, Group, ActionIcon, TextInput, Paper, Anchor, Progress, Chip } from "@mantine/core";
 import { IconChevronLeft, IconChevronRight, IconSearch, IconX, IconBrandGithub } from "@tabler/icons-react";
 import { ColorSchemeToggle } from "../ColorSchemeToggle/ColorSchemeToggle";
 import { ConversationList } from "../Conversation/ConversationList";
-import { useConversations } from "../../store/messageStore";
+import { ExportSwitcher } from "./ExportSwitcher";
+import {
+	useConversations,
+	useImportProgress,
+	useLoadedExports,
+} from "../../store/messageStore";
+import { getConversationKind } from "../../utils/conversationKind";
+import { CONVERSATION_KIND_LABELS } from "../../constants/conversations";
+import type { ConversationKind } from "../../types/messages";
 
 interface SidebarProps {
 	navbarCollapsed: boolean;
@@ -12,7 +20,20 @@ interface SidebarProps {
 
 export function Sidebar({ navbarCollapsed, toggleNavbar }: SidebarProps) {
 	const conversations = useConversations();
+	const importProgress = useImportProgress();
+	const exports = useLoadedExports();
 	const [searchQuery, setSearchQuery] = useState("");
+	const [kindFilter, setKindFilter] = useState<ConversationKind | null>(null);
+
+	// Kinds offered as filters: only those present, and only when there is a choice
+	const kinds = useMemo(() => {
+		const present = new Set(conversations.map(getConversationKind));
+		return (Object.keys(CONVERSATION_KIND_LABELS) as ConversationKind[]).filter(
+			(kind) => present.has(kind),
+		);
+	}, [conversations]);
+	// A kind can disappear when switching exports
+	const activeKind = kindFilter && kinds.includes(kindFilter) ? kindFilter : null;
 
 	return (
 		<Stack h="100%" gap={0}>
@@ -45,6 +66,24 @@ export function Sidebar({ navbarCollapsed, toggleNavbar }: SidebarProps) {
 				</Group>
 			</Group>
 		</Paper>
+			{exports.length > 0 && (
+				<Stack px="md" pt="sm" gap={0} style={{ flexShrink: 0 }}>
+					<ExportSwitcher />
+				</Stack>
+			)}
+			{importProgress !== null && (
+				<Stack px="md" pt="sm" gap={4} style={{ flexShrink: 0 }}>
+					<Group justify="space-between" wrap="nowrap">
+						<Text size="xs" c="dimmed">
+							Loading conversations...
+						</Text>
+						<Text size="xs" c="dimmed">
+							{importProgress.toFixed(0)}%
+						</Text>
+					</Group>
+					<Progress value={importProgress} size="xs" animated />
+				</Stack>
+			)}
 			{conversations.length > 0 && (
 				<Stack px="md" pt="sm" pb="xs" gap={0} style={{ flexShrink: 0 }}>
 					<TextInput
@@ -73,11 +112,33 @@ export function Sidebar({ navbarCollapsed, toggleNavbar }: SidebarProps) {
 						},
 					}}
 					/>
+					{kinds.length > 1 && (
+						<Chip.Group
+							value={activeKind ?? ""}
+							onChange={(value) =>
+								setKindFilter(value ? (value as ConversationKind) : null)
+							}
+						>
+							<Group gap={4} mt="xs">
+								<Chip value="" size="xs" variant="light">
+									All
+								</Chip>
+								{kinds.map((kind) => (
+									<Chip key={kind} value={kind} size="xs" variant="light">
+										{CONVERSATION_KIND_LABELS[kind]}
+									</Chip>
+								))}
+							</Group>
+						</Chip.Group>
+					)}
 				</Stack>
 			)}
 			<Stack p="xs" style={{ flexGrow: 1, minHeight: 0, overflow: "auto" }}>
 				{conversations.length > 0 ? (
-					<ConversationList searchQuery={searchQuery} />
+					<ConversationList
+						searchQuery={searchQuery}
+						kindFilter={activeKind}
+					/>
 				) : (
 					<Text c="dimmed" ta="center" mt="xl">No conversations loaded</Text>
 				)}
@@ -0,0 +1,169 @@
+import { ActionIcon, Box, Group, Paper, Text } from "@mantine/core";
+import {
+  IconPlayerPauseFilled,
+  IconPlayerPlayFilled,
+} from "@tabler/icons-react";
+import { useEffect, useRef, useState } from "react";
+import { computeWaveform, formatAudioDuration } from "../../utils/audio";
+import {
+  WAVEFORM_BAR_COUNT,
+  WAVEFORM_HEIGHT,
+} from "../../constants/media";
+import { OWNER_COLOR } from "../../constants/messageBubble";
+
+interface AudioPlayerProps {
+  src: string;
+  isOwner: boolean;
+  /** Length from the message metadata, used until the file reports its own */
+  durationMs: number | null;
+  filename?: string | null;
+  onLoad?: () => void;
+}
+
+/**
+ * Inline player for voice messages: play/pause, a waveform of the recording that
+ * fills as it plays (click it to seek), and the elapsed or total time.
+ */
+export function AudioPlayer({
+  src,
+  isOwner,
+  durationMs,
+  filename,
+  onLoad,
+}: AudioPlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(
+    durationMs !== null ? durationMs / 1000 : 0,
+  );
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(src)
+      .then((response) => response.blob())
+      .then((blob) => computeWaveform(blob, WAVEFORM_BAR_COUNT))
+      .then((result) => {
+        if (!cancelled) setPeaks(result);
+      })
+      .catch((error) => {
+        console.error("[AudioPlayer] Failed to compute waveform:", {
+          error,
+          filename,
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src, filename]);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (audio.paused) {
+      audio.play().catch((error) => {
+        console.error("[AudioPlayer] Playback failed:", { error, filename });
+      });
+    } else {
+      audio.pause();
+    }
+  };
+
+  const handleSeek = (event: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(
+      1,
+      Math.max(0, (event.clientX - rect.left) / rect.width),
+    );
+    audio.currentTime = fraction * duration;
+    setCurrentTime(audio.currentTime);
+  };
+
+  const progress = duration ? currentTime / duration : 0;
+  const bars = peaks ?? Array<number>(WAVEFORM_BAR_COUNT).fill(0);
+  const playedColor = isOwner ? "white" : OWNER_COLOR;
+  const unplayedColor = isOwner
+    ? "rgba(255, 255, 255, 0.4)"
+    : "light-dark(var(--mantine-color-gray-5), var(--mantine-color-dark-3))";
+
+  return (
+    <Paper
+      px="sm"
+      py={8}
+      radius="lg"
+      bg={isOwner ? OWNER_COLOR : "dark.5"}
+      w={280}
+      maw="100%"
+    >
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="metadata"
+        onLoadedMetadata={(event) => {
+          const fileDuration = event.currentTarget.duration;
+          if (Number.isFinite(fileDuration)) setDuration(fileDuration);
+          onLoad?.();
+        }}
+        onTimeUpdate={(event) => setCurrentTime(event.currentTarget.currentTime)}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        }}
+      />
+      <Group gap="sm" wrap="nowrap">
+        <ActionIcon
+          variant={isOwner ? "white" : "filled"}
+          radius="xl"
+          size="lg"
+          onClick={togglePlayback}
+          aria-label={isPlaying ? "Pause voice message" : "Play voice message"}
+        >
+          {isPlaying ? (
+            <IconPlayerPauseFilled size={16} />
+          ) : (
+            <IconPlayerPlayFilled size={16} />
+          )}
+        </ActionIcon>
+        <Box
+          onClick={handleSeek}
+          h={WAVEFORM_HEIGHT}
+          style={{
+            flex: 1,
+            display: "flex",
+            alignItems: "center",
+            gap: 2,
+            cursor: duration ? "pointer" : undefined,
+          }}
+        >
+          {bars.map((peak, index) => (
+            <Box
+              key={index}
+              style={{
+                flex: 1,
+                minHeight: 2,
+                height: `${Math.max(peak, 0.08) * 100}%`,
+                borderRadius: 1,
+                backgroundColor:
+                  index / bars.length < progress ? playedColor : unplayedColor,
+              }}
+            />
+          ))}
+        </Box>
+        <Text size="xs" c={isOwner ? "white" : "dimmed"} miw={36} ta="right">
+          {formatAudioDuration(
+            (isPlaying || currentTime > 0 ? currentTime : duration) * 1000,
+          )}
+        </Text>
+      </Group>
+    </Paper>
+  );
+}
@@ -0,0 +1,120 @@
+import { Group, Paper, Stack, Text, ThemeIcon } from "@mantine/core";
+import {
+  IconPhoneCall,
+  IconPhoneIncoming,
+  IconPhoneOff,
+  IconPhoneOutgoing,
+  IconPhoneX,
+  IconVideo,
+} from "@tabler/icons-react";
+import { memo } from "react";
+import type { CallDetails } from "../../types/messages";
+import { formatCallDuration } from "../../utils/callLog";
+import { formatClockTime } from "../../utils/dateFormat";
+import { CALL_CARD_STYLE } from "../../constants/messageBubble";
+
+function getCallTitle(call: CallDetails): string {
+  const kind = call.isVideo ? "video call" : "call";
+  switch (call.state) {
+    case "missed":
+      return `Missed ${kind}`;
+    case "declined":
+      return `Declined ${kind}`;
+    case "started":
+      return `${call.isVideo ? "Video call" : "Call"} started`;
+    default:
+      if (call.direction === "incoming") return `Incoming ${kind}`;
+      if (call.direction === "outgoing") return `Outgoing ${kind}`;
+      return call.isVideo ? "Video call" : "Call";
+  }
+}
+
+function CallIcon({ call }: { call: CallDetails }) {
+  if (call.state === "missed") return <IconPhoneX size={18} />;
+  if (call.state === "declined") return <IconPhoneOff size={18} />;
+  if (call.isVideo) return <IconVideo size={18} />;
+  if (call.direction === "incoming") return <IconPhoneIncoming size={18} />;
+  if (call.direction === "outgoing") return <IconPhoneOutgoing size={18} />;
+  return <IconPhoneCall size={18} />;
+}
+
+/**
+ * A call from the history: what happened (answered, missed, declined), its
+ * direction, when it ran and for how long, and how long each participant was on it.
+ */
+export const CallCard = memo(function CallCard({
+  call,
+}: {
+  call: CallDetails;
+}) {
+  const isUnanswered = call.state === "missed" || call.state === "declined";
+  const timeRange =
+    call.startTime && call.endTime
+      ? `${formatClockTime(call.startTime)} – ${formatClockTime(call.endTime)}`
+      : null;
+  const summary = [
+    call.state === "connected" && call.durationSeconds !== null
+      ? formatCallDuration(call.durationSeconds)
+      : null,
+    timeRange,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+  // Per-person durations only add something when they differ from the call's
+  const showParticipantDurations = call.participants.some(
+    (participant) =>
+      participant.durationSeconds !== null &&
+      Math.floor(participant.durationSeconds) !==
+        Math.floor(call.durationSeconds ?? 0),
+  );
+
+  return (
+    <Paper
+      px="md"
+      py="sm"
+      radius="md"
+      bg="light-dark(var(--mantine-color-gray-1), var(--mantine-color-dark-6))"
+      style={CALL_CARD_STYLE}
+    >
+      <Group gap="sm" wrap="nowrap" align="flex-start">
+        <ThemeIcon
+          radius="xl"
+          size="lg"
+          variant="light"
+          color={isUnanswered ? "red" : "blue"}
+        >
+          <CallIcon call={call} />
+        </ThemeIcon>
+        <Stack gap={2} style={{ minWidth: 0 }}>
+          <Text size="sm" fw={600} c={isUnanswered ? "red" : undefined}>
+            {getCallTitle(call)}
+          </Text>
+          {summary && (
+            <Text size="xs" c="dimmed">
+              {summary}
+            </Text>
+          )}
+          {call.participants.length > 0 &&
+            (showParticipantDurations ? (
+              call.participants.map((participant) => (
+                <Group key={participant.id} gap="xs" wrap="nowrap">
+                  <Text size="xs" truncate>
+                    {participant.name}
+                  </Text>
+                  {participant.durationSeconds !== null && (
+                    <Text size="xs" c="dimmed">
+                      {formatCallDuration(participant.durationSeconds)}
+                    </Text>
+                  )}
+                </Group>
+              ))
+            ) : (
+              <Text size="xs" c="dimmed" truncate>
+                {call.participants.map((participant) => participant.name).join(", ")}
+              </Text>
+            ))}
+        </Stack>
+      </Group>
+    </Paper>
+  );
+});
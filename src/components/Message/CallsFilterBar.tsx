@@ -0,0 +1,45 @@
+import { Paper, Group, Text, CloseButton } from "@mantine/core";
+import { IconPhone } from "@tabler/icons-react";
+import { formatCallDuration } from "../../utils/callLog";
+
+interface CallsFilterBarProps {
+  callCount: number;
+  /** Talk time of the answered calls, in seconds */
+  totalSeconds: number;
+  onClear: () => void;
+}
+
+/**
+ * Shown while the conversation is filtered to its call history.
+ */
+export function CallsFilterBar({
+  callCount,
+  totalSeconds,
+  onClear,
+}: CallsFilterBarProps) {
+  return (
+    <Paper
+      px="lg"
+      py={6}
+      withBorder
+      style={{ flexShrink: 0 }}
+      bg="light-dark(var(--mantine-color-blue-0), var(--mantine-color-dark-6))"
+    >
+      <Group justify="space-between" gap="xs">
+        <Group gap="xs">
+          <IconPhone size={16} />
+          <Text size="sm">
+            Showing <strong>{callCount}</strong>{" "}
+            {callCount === 1 ? "call" : "calls"} • Total talk time{" "}
+            <strong>{formatCallDuration(totalSeconds)}</strong>
+          </Text>
+        </Group>
+        <CloseButton
+          size="sm"
+          onClick={onClear}
+          aria-label="Show all messages"
+        />
+      </Group>
+    </Paper>
+  );
+}
@@ -0,0 +1,69 @@
+import { ActionIcon, Box, CopyButton, Group, Tooltip } from "@mantine/core";
+import { useLocalStorage } from "@mantine/hooks";
+import { IconCheck, IconCopy, IconPalette, IconPaletteOff } from "@tabler/icons-react";
+import { memo, useMemo } from "react";
+import { highlightCode } from "../../utils/codeHighlight";
+import {
+  CODE_BLOCK_STYLE,
+  CODE_TEXT_STYLE,
+  CODE_TOKEN_COLORS,
+} from "../../constants/messageBubble";
+
+/**
+ * Multi-line code from a message, with a copy button and an optional local syntax
+ * highlight. The highlight preference is remembered across code blocks and sessions.
+ */
+export const CodeBlock = memo(function CodeBlock({ code }: { code: string }) {
+  const [highlighted, setHighlighted] = useLocalStorage({
+    key: "skypelens-code-highlighting",
+    defaultValue: true,
+  });
+  const tokens = useMemo(
+    () => (highlighted ? highlightCode(code) : null),
+    [code, highlighted],
+  );
+
+  return (
+    <Box style={CODE_BLOCK_STYLE}>
+      <Group gap={2} pos="absolute" top={4} right={4}>
+        <Tooltip label={highlighted ? "Plain text" : "Highlight syntax"}>
+          <ActionIcon
+            variant="subtle"
+            color="gray"
+            size="sm"
+            onClick={() => setHighlighted((prev) => !prev)}
+            aria-label={highlighted ? "Turn off syntax highlighting" : "Turn on syntax highlighting"}
+          >
+            {highlighted ? <IconPaletteOff size={14} /> : <IconPalette size={14} />}
+          </ActionIcon>
+        </Tooltip>
+        <CopyButton value={code}>
+          {({ copied, copy }) => (
+            <Tooltip label={copied ? "Copied" : "Copy code"}>
+              <ActionIcon
+                variant="subtle"
+                color={copied ? "teal" : "gray"}
+                size="sm"
+                onClick={copy}
+                aria-label="Copy code"
+              >
+                {copied ? <IconCheck size={14} /> : <IconCopy size={14} />}
+              </ActionIcon>
+            </Tooltip>
+          )}
+        </CopyButton>
+      </Group>
+      <pre style={CODE_TEXT_STYLE}>
+        <code>
+          {tokens
+            ? tokens.map((token, index) => (
+                <span key={index} style={{ color: CODE_TOKEN_COLORS[token.kind] }}>
+                  {token.text}
+                </span>
+              ))
+            : code}
+        </code>
+      </pre>
+    </Box>
+  );
+});
@@ -0,0 +1,71 @@
+import { Popover, Stack, Text, UnstyledButton, Divider } from "@mantine/core";
+import { memo } from "react";
+import type { MessageEdits } from "../../types/messages";
+import { formatMessageTime } from "../../utils/dateFormat";
+import { sanitizeMessageHtml } from "../../utils/htmlSanitizer";
+import { MESSAGE_TEXT_STYLE } from "../../constants/messageBubble";
+
+function EditTime({ timestamp }: { timestamp: string }) {
+  return (
+    <Text
+      size="xs"
+      c="dimmed"
+      dangerouslySetInnerHTML={{ __html: formatMessageTime(timestamp) }}
+    />
+  );
+}
+
+/**
+ * "Edited" note under a message. When earlier versions are known, clicking it opens
+ * a popover listing each of them with the time it was written.
+ */
+export const EditedLabel = memo(function EditedLabel({
+  edited,
+}: {
+  edited: MessageEdits;
+}) {
+  const label = (
+    <Text size="xs" c="dimmed" fs="italic" mt={2} mx={4} opacity={0.7} span>
+      Edited
+    </Text>
+  );
+
+  if (edited.history.length === 0) return label;
+
+  return (
+    <Popover position="top" withArrow shadow="md" width={320}>
+      <Popover.Target>
+        <UnstyledButton aria-label="Show edit history">{label}</UnstyledButton>
+      </Popover.Target>
+      <Popover.Dropdown>
+        <Stack gap="xs">
+          <Text size="xs" fw={600}>
+            Earlier versions
+          </Text>
+          {edited.history.map((version, index) => (
+            <Stack key={index} gap={2}>
+              {index > 0 && <Divider />}
+              <EditTime timestamp={version.timestamp} />
+              <Text
+                size="sm"
+                style={MESSAGE_TEXT_STYLE}
+                dangerouslySetInnerHTML={{
+                  __html: sanitizeMessageHtml(version.content),
+                }}
+              />
+            </Stack>
+          ))}
+          {edited.timestamp && (
+            <>
+              <Divider />
+              <Text size="xs" c="dimmed">
+                Last edited
+              </Text>
+              <EditTime timestamp={edited.timestamp} />
+            </>
+          )}
+        </Stack>
+      </Popover.Dropdown>
+    </Popover>
+  );
+});
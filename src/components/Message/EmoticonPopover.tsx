@@ -0,0 +1,53 @@
+import { Box, Code, Popover, Stack, Text } from "@mantine/core";
+
+export interface EmoticonAnchor {
+  shortcode: string;
+  emoji: string;
+  /** Position of the emoji relative to the message text container */
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Shows which Skype shortcode an emoji in a message came from. The popover is
+ * anchored to an invisible box laid over the emoji, since the emoji itself lives in
+ * sanitized HTML rather than in React.
+ */
+export function EmoticonPopover({
+  anchor,
+  onClose,
+}: {
+  anchor: EmoticonAnchor;
+  onClose: () => void;
+}) {
+  return (
+    <Popover
+      opened
+      onClose={onClose}
+      position="top"
+      withArrow
+      shadow="md"
+    >
+      <Popover.Target>
+        <Box
+          pos="absolute"
+          top={anchor.top}
+          left={anchor.left}
+          w={anchor.width}
+          h={anchor.height}
+          style={{ pointerEvents: "none" }}
+        />
+      </Popover.Target>
+      <Popover.Dropdown py={6} px="sm">
+        <Stack gap={2} align="center">
+          <Text fz={28} lh={1.2}>
+            {anchor.emoji}
+          </Text>
+          <Code>({anchor.shortcode})</Code>
+        </Stack>
+      </Popover.Dropdown>
+    </Popover>
+  );
+}
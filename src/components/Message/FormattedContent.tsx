@@ -0,0 +1,114 @@
+import { Box, Text } from "@mantine/core";
+import { memo, useMemo, useRef, useState } from "react";
+import { CodeBlock } from "./CodeBlock";
+import { EmoticonPopover, type EmoticonAnchor } from "./EmoticonPopover";
+import { MESSAGE_TEXT_STYLE } from "../../constants/messageBubble";
+import classes from "./FormattedContent.module.css";
+
+const CODE_BLOCK_PATTERN = /<pre><code>([\s\S]*?)<\/code><\/pre>/g;
+
+type Part = { kind: "html" | "code"; value: string };
+
+function htmlToText(html: string): string {
+  return new DOMParser().parseFromString(html, "text/html").body.textContent ?? "";
+}
+
+function splitCodeBlocks(html: string): Part[] {
+  const parts: Part[] = [];
+  let lastIndex = 0;
+
+  for (const match of html.matchAll(CODE_BLOCK_PATTERN)) {
+    const before = html.slice(lastIndex, match.index).trim();
+    if (before) parts.push({ kind: "html", value: before });
+    parts.push({ kind: "code", value: htmlToText(match[1]) });
+    lastIndex = match.index + match[0].length;
+  }
+
+  const rest = html.slice(lastIndex).trim();
+  if (rest) parts.push({ kind: "html", value: rest });
+  return parts;
+}
+
+/**
+ * Renders sanitized message HTML. Code blocks are pulled out and shown with
+ * `CodeBlock`; everything else, including inline code and mention chips, stays as
+ * HTML, with clicks on chips and hovers over emoticons picked up here.
+ */
+export const FormattedContent = memo(function FormattedContent({
+  html,
+  color,
+  onMentionClick,
+}: {
+  html: string;
+  color: string;
+  onMentionClick?: (mri: string) => void;
+}) {
+  const parts = useMemo(
+    () =>
+      html.includes("<pre>")
+        ? splitCodeBlocks(html)
+        : [{ kind: "html", value: html } satisfies Part],
+    [html],
+  );
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [emoticon, setEmoticon] = useState<EmoticonAnchor | null>(null);
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const mention = (event.target as Element).closest("[data-mention]");
+    const mri = mention?.getAttribute("data-mention");
+    if (mri && onMentionClick) onMentionClick(mri);
+  };
+
+  const handleMouseOver = (event: React.MouseEvent<HTMLDivElement>) => {
+    const element = (event.target as Element).closest("[data-emoticon]");
+    const container = containerRef.current;
+    if (!element || !container) {
+      if (emoticon) setEmoticon(null);
+      return;
+    }
+
+    const shortcode = element.getAttribute("data-emoticon") ?? "";
+    if (shortcode === emoticon?.shortcode) return;
+
+    const rect = element.getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    setEmoticon({
+      shortcode,
+      emoji: element.textContent ?? "",
+      top: rect.top - containerRect.top,
+      left: rect.left - containerRect.left,
+      width: rect.width,
+      height: rect.height,
+    });
+  };
+
+  return (
+    <Box
+      ref={containerRef}
+      pos="relative"
+      onMouseOver={handleMouseOver}
+      onMouseLeave={() => setEmoticon(null)}
+    >
+      {parts.map((part, index) =>
+        part.kind === "code" ? (
+          <CodeBlock key={index} code={part.value} />
+        ) : (
+          <Text
+            key={index}
+            component="div"
+            c={color}
+            size="sm"
+            className={classes.content}
+            style={MESSAGE_TEXT_STYLE}
+            onClick={handleClick}
+            dangerouslySetInnerHTML={{ __html: part.value }}
+          />
+        ),
+      )}
+      {emoticon && (
+        <EmoticonPopover anchor={emoticon} onClose={() => setEmoticon(null)} />
+      )}
+    </Box>
+  );
+});
@@ -0,0 +1,79 @@
+import { Anchor, Button, Image, Paper, Stack, Text } from "@mantine/core";
+import { useLocalStorage } from "@mantine/hooks";
+import { IconPhoto } from "@tabler/icons-react";
+import { memo, useState } from "react";
+import type { LinkPreview } from "../../types/messages";
+import { LINK_PREVIEW_STYLE } from "../../constants/messageBubble";
+
+/**
+ * Preview of a shared link from the metadata in the export. Thumbnails live on
+ * remote servers, so they are only loaded once the user allows it; the choice is
+ * remembered across previews and sessions.
+ */
+export const LinkPreviewCard = memo(function LinkPreviewCard({
+  preview,
+}: {
+  preview: LinkPreview;
+}) {
+  const [loadThumbnails, setLoadThumbnails] = useLocalStorage({
+    key: "skypelens-link-thumbnails",
+    defaultValue: false,
+  });
+  const [thumbnailFailed, setThumbnailFailed] = useState(false);
+
+  return (
+    <Paper
+      p="sm"
+      radius="md"
+      bg="light-dark(var(--mantine-color-white), var(--mantine-color-dark-6))"
+      style={LINK_PREVIEW_STYLE}
+    >
+      <Stack gap={4}>
+        {preview.thumbnailUrl &&
+          !thumbnailFailed &&
+          (loadThumbnails ? (
+            <Image
+              src={preview.thumbnailUrl}
+              alt=""
+              radius="sm"
+              mah={140}
+              fit="cover"
+              referrerPolicy="no-referrer"
+              onError={() => setThumbnailFailed(true)}
+            />
+          ) : (
+            <Button
+              variant="subtle"
+              size="compact-xs"
+              color="gray"
+              leftSection={<IconPhoto size={14} />}
+              onClick={() => setLoadThumbnails(true)}
+              title={`Loads images from ${preview.domain} and other linked sites`}
+            >
+              Show thumbnail
+            </Button>
+          ))}
+        <Text size="xs" c="dimmed" truncate>
+          {preview.siteName ?? preview.domain}
+        </Text>
+        {preview.title && (
+          <Anchor
+            size="sm"
+            fw={600}
+            href={preview.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            lineClamp={2}
+          >
+            {preview.title}
+          </Anchor>
+        )}
+        {preview.description && (
+          <Text size="xs" c="dimmed" lineClamp={3}>
+            {preview.description}
+          </Text>
+        )}
+      </Stack>
+    </Paper>
+  );
+});
@@ -6,11 +6,13 @@ import {
   createVideoThumbnailUrl,
   getMediaType,
 } from "../../utils/mediaUtils";
-import type { MediaMetadata } from "../../types/messages";
+import type { AudioInfo, MediaMetadata, MediaType } from "../../types/messages";
 import { MediaViewer } from "./MediaViewer";
+import { AudioPlayer } from "./AudioPlayer";
 import { useMediaNavigation } from "../../hooks/useMediaGallery";
 import { IconPlayerPlayFilled } from "@tabler/icons-react";
 import { revokeObjectUrl } from "../../utils/urlManager";
+import { formatAudioDuration } from "../../utils/audio";
 import {
   MEDIA_PAPER_STYLE,
   MEDIA_IMAGE_STYLE,
@@ -22,14 +24,16 @@ import {
 interface MediaMessageProps {
   mediaId: string;
   isOwner: boolean;
+  /** Set for voice messages, which get an inline player */
+  audio?: AudioInfo;
 }
 
-export function MediaMessage({ mediaId, isOwner }: MediaMessageProps) {
+export function MediaMessage({ mediaId, isOwner, audio }: MediaMessageProps) {
   const { exportData } = useMessageStore();
   const [mediaUrl, setMediaUrl] = useState<string | null>(null);
   const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
   const [metadata, setMetadata] = useState<MediaMetadata | null>(null);
-  const [mediaType, setMediaType] = useState<"image" | "video" | null>(null);
+  const [mediaType, setMediaType] = useState<MediaType | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [viewerOpened, setViewerOpened] = useState(false);
@@ -202,6 +206,11 @@ export function MediaMessage({ mediaId, isOwner }: MediaMessageProps) {
   }
 
   if (error || !mediaUrl) {
+    const audioDuration =
+      audio?.durationMs != null
+        ? ` (${formatAudioDuration(audio.durationMs)})`
+        : "";
+
     return (
       <Paper
         px="md"
@@ -211,12 +220,28 @@ export function MediaMessage({ mediaId, isOwner }: MediaMessageProps) {
         style={paperBaseStyle}
       >
         <Text size="sm" c={isOwner ? "white" : "dimmed"}>
-          📎 {metadata?.filename || "Media file not available"}
+          {audio
+            ? `🎤 ${metadata?.filename || audio.filename || "Voice message"}${audioDuration}`
+            : `📎 ${metadata?.filename || "Media file not available"}`}
         </Text>
       </Paper>
     );
   }
 
+  if (audio || mediaType === "audio") {
+    return (
+      <AudioPlayer
+        src={mediaUrl}
+        isOwner={isOwner}
+        durationMs={audio?.durationMs ?? null}
+        filename={metadata?.filename ?? audio?.filename}
+        onLoad={() => {
+          imageLoadedRef.current = true;
+        }}
+      />
+    );
+  }
+
   const renderMediaViewer = () => (
     <MediaViewer
       opened={viewerOpened}
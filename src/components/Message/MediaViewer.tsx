@@ -26,7 +26,7 @@ import {
   createVideoThumbnailUrl,
   getMediaType,
 } from "../../utils/mediaUtils";
-import type { MediaMetadata, MediaItem } from "../../types/messages";
+import type { MediaMetadata, MediaItem, MediaType } from "../../types/messages";
 import { revokeObjectUrl } from "../../utils/urlManager";
 import { THUMBNAIL_SIZE } from "../../constants/media";
 
@@ -45,7 +45,7 @@ function MediaThumbnail({
 }: MediaThumbnailProps) {
   const { exportData } = useMessageStore();
   const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
-  const [mediaType, setMediaType] = useState<"image" | "video" | null>(null);
+  const [mediaType, setMediaType] = useState<MediaType | null>(null);
   const thumbnailLoadedRef = useRef(false);
   const urlRef = useRef<string | null>(null);
 
@@ -219,7 +219,7 @@ export function MediaViewer({
   const [metadata, setMetadata] = useState<MediaMetadata | null>(
     initialMetadata || null,
   );
-  const [mediaType, setMediaType] = useState<"image" | "video" | null>(null);
+  const [mediaType, setMediaType] = useState<MediaType | null>(null);
   const [isLoading, setIsLoading] = useState(!initialMediaUrl);
   const [error, setError] = useState<string | null>(null);
   const [zoom, setZoom] = useState(1);
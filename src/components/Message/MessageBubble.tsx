@@ -1,41 +1,144 @@
-import { Text, Paper, Box, Group, Stack } from "@mantine/core";
-import { memo } from "react";
+import { Text, Paper, Box, Group, Stack, Badge, Divider } from "@mantine/core";
+import { IconRobot, IconTrash } from "@tabler/icons-react";
+import { Fragment, memo, useMemo } from "react";
 import { formatMessageTime } from "../../utils/dateFormat";
-import type { ProcessedMessage } from "../../types/messages";
+import type {
+  ProcessedMessage,
+  TranslationMode,
+} from "../../types/messages";
 import { MediaMessage } from "./MediaMessage";
+import { MessageReactions } from "./MessageReactions";
+import { EditedLabel } from "./EditedLabel";
+import { QuoteCard } from "./QuoteCard";
+import { SharedContentCard } from "./SharedContentCard";
+import { LinkPreviewCard } from "./LinkPreviewCard";
+import { CallCard } from "./CallCard";
+import { FormattedContent } from "./FormattedContent";
 import {
   OWNER_COLOR,
+  BOT_BUBBLE_STYLE,
+  CALL_CARD_STYLE,
   MESSAGE_BUBBLE_STYLE,
-  MESSAGE_TEXT_STYLE,
+  MESSAGE_MAX_WIDTH,
+  TOMBSTONE_STYLE,
 } from "../../constants/messageBubble";
 import { highlightSearchMatch } from "../../utils/messageSearch";
+import { sanitizeMessageHtml } from "../../utils/htmlSanitizer";
 
 interface MessageBubbleProps {
   message: ProcessedMessage;
   showSender: boolean;
   showTimestamp: boolean;
-  isRoleSwapped?: boolean;
+  /** The export owner, whose messages are named when viewing as someone else */
+  ownerId?: string | null;
   userDisplayName?: string;
   searchQuery?: string;
   isHighlighted?: boolean;
+  onQuoteClick?: (messageId: string) => void;
+  onMentionClick?: (mri: string) => void;
+  translationMode?: TranslationMode;
+}
+
+interface TextSection {
+  html: string;
+  language: string | null;
+}
+
+/** The text a message shows; translated messages show one or both sides by mode */
+function getTextSections(
+  message: ProcessedMessage,
+  mode: TranslationMode,
+): TextSection[] {
+  const { translation } = message;
+  if (!translation) return [{ html: message.content, language: null }];
+
+  const original = {
+    html: translation.original,
+    language: translation.originalLanguage,
+  };
+  if (mode === "original") return [original];
+  if (mode === "both") {
+    return [
+      original,
+      { html: translation.translated, language: translation.translatedLanguage },
+    ];
+  }
+  return [{ html: message.content, language: translation.contentLanguage }];
 }
 
 function MessageBubbleComponent({
   message,
   showSender,
   showTimestamp,
-  isRoleSwapped = false,
+  ownerId = null,
   userDisplayName = "You",
   searchQuery = "",
   isHighlighted = false,
+  onQuoteClick,
+  onMentionClick,
+  translationMode = "translated",
 }: MessageBubbleProps) {
   const shouldShowName = !message.isOwner && showSender;
+  const isBotMessage = !message.isOwner && !!message.isBot;
   const displayName =
-    isRoleSwapped && !message.isOwner ? userDisplayName : message.displayName;
+    !message.isOwner && message.from === ownerId
+      ? userDisplayName
+      : message.displayName;
 
+  const content = useMemo(
+    () => sanitizeMessageHtml(message.content),
+    [message.content],
+  );
   const highlightedContent = searchQuery
-    ? highlightSearchMatch(message.content, searchQuery)
-    : message.content;
+    ? highlightSearchMatch(content, searchQuery)
+    : content;
+  const sections = useMemo(
+    () =>
+      getTextSections(message, translationMode).map((section) => ({
+        ...section,
+        html: sanitizeMessageHtml(section.html),
+      })),
+    [message, translationMode],
+  );
+
+  if (message.deleted) {
+    return (
+      <Box w="100%" pt={showSender ? 10 : 3} pb={3}>
+        <Stack
+          align={message.isOwner ? "flex-end" : "flex-start"}
+          w="100%"
+          px={16}
+          gap={0}
+        >
+          {shouldShowName && displayName && (
+            <Text size="xs" c="dimmed" mb={6} ml={4} fw={600}>
+              {displayName}
+            </Text>
+          )}
+          <Paper px={16} py={8} radius="md" bg="transparent" style={TOMBSTONE_STYLE}>
+            <Group gap={6} wrap="nowrap">
+              <IconTrash size={14} color="var(--mantine-color-dimmed)" />
+              <Text size="sm" c="dimmed" fs="italic">
+                This message has been removed
+              </Text>
+            </Group>
+          </Paper>
+          {showTimestamp && (
+            <Text
+              size="xs"
+              c="dimmed"
+              mt={3}
+              ml={4}
+              style={{ opacity: 0.7 }}
+              dangerouslySetInnerHTML={{
+                __html: formatMessageTime(message.timestamp),
+              }}
+            />
+          )}
+        </Stack>
+      </Box>
+    );
+  }
 
   if (message.type === "media" && message.mediaUrl) {
     return (
@@ -51,7 +154,17 @@ function MessageBubbleComponent({
               {displayName}
             </Text>
           )}
-          <MediaMessage mediaId={message.mediaUrl} isOwner={message.isOwner} />
+          <MediaMessage
+            mediaId={message.mediaUrl}
+            isOwner={message.isOwner}
+            audio={message.audio}
+          />
+          {message.reactions && (
+            <MessageReactions
+              reactions={message.reactions}
+              isOwner={message.isOwner}
+            />
+          )}
           {showTimestamp && (
             <Text
               size="xs"
@@ -69,6 +182,49 @@ function MessageBubbleComponent({
     );
   }
 
+  if (
+    message.type === "contact" ||
+    message.type === "location" ||
+    message.type === "card" ||
+    message.type === "poll"
+  ) {
+    return (
+      <Box w="100%" pt={showSender ? 10 : 3} pb={3}>
+        <Stack
+          align={message.isOwner ? "flex-end" : "flex-start"}
+          w="100%"
+          px={16}
+          gap={0}
+        >
+          {shouldShowName && displayName && (
+            <Text size="xs" c="dimmed" mb={6} ml={4} fw={600}>
+              {displayName}
+            </Text>
+          )}
+          <SharedContentCard message={message} />
+          {message.reactions && (
+            <MessageReactions
+              reactions={message.reactions}
+              isOwner={message.isOwner}
+            />
+          )}
+          {showTimestamp && (
+            <Text
+              size="xs"
+              c="dimmed"
+              mt={3}
+              ml={4}
+              style={{ opacity: 0.7 }}
+              dangerouslySetInnerHTML={{
+                __html: formatMessageTime(message.timestamp),
+              }}
+            />
+          )}
+        </Stack>
+      </Box>
+    );
+  }
+
   if (message.type === "system") {
     return (
       <Box ta="center" py={20} px={16}>
@@ -88,27 +244,26 @@ function MessageBubbleComponent({
   if (message.type === "call") {
     return (
       <Box ta="center" py={20} px={16}>
-        <Paper
-          px={16}
-          py={8}
-          radius="md"
-          bg="light-dark(var(--mantine-color-gray-1), var(--mantine-color-dark-6))"
-          style={{
-            display: "inline-block",
-            border:
-              "1px solid light-dark(var(--mantine-color-gray-3), var(--mantine-color-dark-4))",
-            boxShadow: "0 1px 2px rgba(0, 0, 0, 0.1)",
-          }}
-        >
-          <Text
-            size="sm"
-            c="dimmed"
-            fw={500}
-            dangerouslySetInnerHTML={{
-              __html: `📞 ${highlightedContent}`,
-            }}
-          />
-        </Paper>
+        {message.call ? (
+          <CallCard call={message.call} />
+        ) : (
+          <Paper
+            px={16}
+            py={8}
+            radius="md"
+            bg="light-dark(var(--mantine-color-gray-1), var(--mantine-color-dark-6))"
+            style={CALL_CARD_STYLE}
+          >
+            <Text
+              size="sm"
+              c="dimmed"
+              fw={500}
+              dangerouslySetInnerHTML={{
+                __html: `📞 ${highlightedContent}`,
+              }}
+            />
+          </Paper>
+        )}
         {showTimestamp && (
           <Text
             size="xs"
@@ -164,9 +319,14 @@ function MessageBubbleComponent({
         gap={0}
       >
         {shouldShowName && displayName && (
-          <Text size="xs" c="dimmed" mb={6} ml={4} fw={600}>
-            {displayName}
-          </Text>
+          <Group gap={4} mb={6} ml={4}>
+            {isBotMessage && (
+              <IconRobot size={14} color="var(--mantine-color-violet-6)" />
+            )}
+            <Text size="xs" c="dimmed" fw={600}>
+              {displayName}
+            </Text>
+          </Group>
         )}
         <Paper
           px={16}
@@ -175,10 +335,12 @@ function MessageBubbleComponent({
           bg={
             message.isOwner
               ? OWNER_COLOR
-              : "light-dark(var(--mantine-color-gray-2), var(--mantine-color-dark-5))"
+              : isBotMessage
+                ? "light-dark(var(--mantine-color-violet-0), var(--mantine-color-dark-6))"
+                : "light-dark(var(--mantine-color-gray-2), var(--mantine-color-dark-5))"
           }
           style={{
-            ...MESSAGE_BUBBLE_STYLE,
+            ...(isBotMessage ? BOT_BUBBLE_STYLE : MESSAGE_BUBBLE_STYLE),
             ...(isHighlighted
               ? {
                   outline: "2px solid rgba(37, 99, 235, 0.6)",
@@ -187,19 +349,68 @@ function MessageBubbleComponent({
               : {}),
           }}
         >
-          <Text
-            c={
-              message.isOwner
-                ? "white"
-                : "light-dark(var(--mantine-color-gray-9), var(--mantine-color-gray-0))"
-            }
-            size="sm"
-            style={MESSAGE_TEXT_STYLE}
-            dangerouslySetInnerHTML={{
-              __html: highlightedContent,
-            }}
-          />
+          {message.quotes?.map((quote, index) => (
+            <QuoteCard
+              key={index}
+              quote={quote}
+              isOwner={message.isOwner}
+              onClick={onQuoteClick}
+            />
+          ))}
+          {sections.map((section, index) => (
+            <Fragment key={index}>
+              {index > 0 && <Divider my={6} opacity={0.5} />}
+              {section.language && (
+                <Badge
+                  size="xs"
+                  variant={message.isOwner ? "white" : "light"}
+                  mb={4}
+                >
+                  {section.language}
+                </Badge>
+              )}
+              <FormattedContent
+                html={
+                  searchQuery
+                    ? highlightSearchMatch(section.html, searchQuery)
+                    : section.html
+                }
+                onMentionClick={onMentionClick}
+                color={
+                  message.isOwner
+                    ? "white"
+                    : "light-dark(var(--mantine-color-gray-9), var(--mantine-color-gray-0))"
+                }
+              />
+            </Fragment>
+          ))}
         </Paper>
+        {isBotMessage && message.suggestedReplies && (
+          <Group gap={4} mt={6} maw={MESSAGE_MAX_WIDTH}>
+            {message.suggestedReplies.map((reply) => (
+              <Badge
+                key={reply}
+                variant="outline"
+                color="violet"
+                radius="xl"
+                tt="none"
+                fw={500}
+              >
+                {reply}
+              </Badge>
+            ))}
+          </Group>
+        )}
+        {message.linkPreviews?.map((preview) => (
+          <LinkPreviewCard key={preview.url} preview={preview} />
+        ))}
+        {message.edited && <EditedLabel edited={message.edited} />}
+        {message.reactions && (
+          <MessageReactions
+            reactions={message.reactions}
+            isOwner={message.isOwner}
+          />
+        )}
         {showTimestamp && (
           <Text
             size="xs"
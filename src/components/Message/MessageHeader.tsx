@@ -1,11 +1,24 @@
-import { Paper, Group, Text, ActionIcon, Tooltip } from "@mantine/core";
-import { IconArrowsExchange, IconPhoto, IconSearch, IconDownload } from "@tabler/icons-react";
+import { Paper, Group, Text, ActionIcon, Tooltip, Stack, Menu } from "@mantine/core";
+import { IconArrowsExchange, IconPhoto, IconSearch, IconDownload, IconTrash, IconTrashOff, IconLanguage, IconCheck, IconPhone } from "@tabler/icons-react";
 import { useMemo } from "react";
+import type { ConversationParticipant, TranslationMode } from "../../types/messages";
+
+const TRANSLATION_MODE_LABELS: Record<TranslationMode, string> = {
+  translated: "In your language",
+  original: "Original only",
+  both: "Original and translation",
+};
 
 interface MessageHeaderProps {
   title: string;
-  swapped: boolean;
-  onRoleSwap: () => void;
+  /** Group topic at the point scrolled to, when it differs from today's */
+  topic?: string | null;
+  /** Everyone the conversation can be shown as, the export owner included */
+  participants: ConversationParticipant[];
+  ownerId: string | null;
+  /** Participant the conversation is shown as; null for the export owner */
+  viewAs: string | null;
+  onViewAsChange: (participantId: string | null) => void;
   onMediaGallery?: () => void;
   hasMedia?: boolean;
   onSearchToggle?: () => void;
@@ -13,12 +26,24 @@ interface MessageHeaderProps {
   onLoadAll?: () => void;
   hasMoreMessages?: boolean;
   isLoadingAll?: boolean;
+  hasTombstones?: boolean;
+  tombstonesHidden?: boolean;
+  onTombstonesToggle?: () => void;
+  hasTranslations?: boolean;
+  translationMode?: TranslationMode;
+  onTranslationModeChange?: (mode: TranslationMode) => void;
+  hasCalls?: boolean;
+  callsOnly?: boolean;
+  onCallsToggle?: () => void;
 }
 
 export function MessageHeader({
   title,
-  swapped,
-  onRoleSwap,
+  topic = null,
+  participants,
+  ownerId,
+  viewAs,
+  onViewAsChange,
   onMediaGallery,
   hasMedia = false,
   onSearchToggle,
@@ -26,14 +51,23 @@ export function MessageHeader({
   onLoadAll,
   hasMoreMessages = false,
   isLoadingAll = false,
+  hasTombstones = false,
+  tombstonesHidden = false,
+  onTombstonesToggle,
+  hasTranslations = false,
+  translationMode = "translated",
+  onTranslationModeChange,
+  hasCalls = false,
+  callsOnly = false,
+  onCallsToggle,
 }: MessageHeaderProps) {
-  const roleSwapTooltip = useMemo(
-    () =>
-      swapped
-        ? "Switch back to your perspective"
-        : "View from other person's perspective",
-    [swapped],
-  );
+  const viewAsTooltip = useMemo(() => {
+    if (!viewAs) return "View as…";
+    const name =
+      participants.find((participant) => participant.id === viewAs)?.name ??
+      viewAs;
+    return `Viewing as ${name}`;
+  }, [viewAs, participants]);
 
   return (
     <Paper
@@ -44,9 +78,16 @@ export function MessageHeader({
       bg="light-dark(var(--mantine-color-gray-0), var(--mantine-color-dark-7))"
     >
       <Group justify="space-between" align="center">
-        <Text size="lg" fw={600}>
-          {title}
-        </Text>
+        <Stack gap={0} style={{ minWidth: 0 }}>
+          <Text size="lg" fw={600}>
+            {title}
+          </Text>
+          {topic !== null && topic !== title && (
+            <Text size="xs" c="dimmed" truncate>
+              {topic ? `Named '${topic}' at this point` : "Unnamed at this point"}
+            </Text>
+          )}
+        </Stack>
         <Group gap="xs">
           {hasMedia && onMediaGallery && (
             <Tooltip label="Media gallery" position="bottom">
@@ -74,6 +115,64 @@ export function MessageHeader({
               </ActionIcon>
             </Tooltip>
           )}
+          {hasTombstones && onTombstonesToggle && (
+            <Tooltip
+              label={tombstonesHidden ? "Show removed messages" : "Hide removed messages"}
+              position="bottom"
+            >
+              <ActionIcon
+                variant={tombstonesHidden ? "filled" : "subtle"}
+                color={tombstonesHidden ? "blue" : "gray"}
+                onClick={onTombstonesToggle}
+                size="lg"
+              >
+                {tombstonesHidden ? <IconTrashOff size={20} /> : <IconTrash size={20} />}
+              </ActionIcon>
+            </Tooltip>
+          )}
+          {hasCalls && onCallsToggle && (
+            <Tooltip label={callsOnly ? "Show all messages" : "Show only calls"} position="bottom">
+              <ActionIcon
+                variant={callsOnly ? "filled" : "subtle"}
+                color={callsOnly ? "blue" : "gray"}
+                onClick={onCallsToggle}
+                size="lg"
+              >
+                <IconPhone size={20} />
+              </ActionIcon>
+            </Tooltip>
+          )}
+          {hasTranslations && onTranslationModeChange && (
+            <Menu position="bottom-end" shadow="md">
+              <Menu.Target>
+                <Tooltip label="Translated messages" position="bottom">
+                  <ActionIcon
+                    variant={translationMode === "translated" ? "subtle" : "filled"}
+                    color={translationMode === "translated" ? "gray" : "blue"}
+                    size="lg"
+                  >
+                    <IconLanguage size={20} />
+                  </ActionIcon>
+                </Tooltip>
+              </Menu.Target>
+              <Menu.Dropdown>
+                <Menu.Label>Show translated messages</Menu.Label>
+                {(Object.keys(TRANSLATION_MODE_LABELS) as TranslationMode[]).map(
+                  (mode) => (
+                    <Menu.Item
+                      key={mode}
+                      onClick={() => onTranslationModeChange(mode)}
+                      rightSection={
+                        mode === translationMode ? <IconCheck size={14} /> : null
+                      }
+                    >
+                      {TRANSLATION_MODE_LABELS[mode]}
+                    </Menu.Item>
+                  ),
+                )}
+              </Menu.Dropdown>
+            </Menu>
+          )}
           {onSearchToggle && (
             <Tooltip label="Search messages" position="bottom">
               <ActionIcon
@@ -86,16 +185,39 @@ export function MessageHeader({
               </ActionIcon>
             </Tooltip>
           )}
-          <Tooltip label={roleSwapTooltip} position="bottom">
-            <ActionIcon
-              variant={swapped ? "filled" : "subtle"}
-              color={swapped ? "blue" : "gray"}
-              onClick={onRoleSwap}
-              size="lg"
-            >
-              <IconArrowsExchange size={20} />
-            </ActionIcon>
-          </Tooltip>
+          {participants.length > 1 && (
+            <Menu position="bottom-end" shadow="md">
+              <Menu.Target>
+                <Tooltip label={viewAsTooltip} position="bottom">
+                  <ActionIcon
+                    variant={viewAs ? "filled" : "subtle"}
+                    color={viewAs ? "blue" : "gray"}
+                    size="lg"
+                  >
+                    <IconArrowsExchange size={20} />
+                  </ActionIcon>
+                </Tooltip>
+              </Menu.Target>
+              <Menu.Dropdown mah={360} style={{ overflowY: "auto" }}>
+                <Menu.Label>View as…</Menu.Label>
+                {participants.map((participant) => {
+                  const isOwner = participant.id === ownerId;
+                  const isSelected = isOwner
+                    ? viewAs === null
+                    : participant.id === viewAs;
+                  return (
+                    <Menu.Item
+                      key={participant.id}
+                      onClick={() => onViewAsChange(isOwner ? null : participant.id)}
+                      rightSection={isSelected ? <IconCheck size={14} /> : null}
+                    >
+                      {isOwner ? `${participant.name} (you)` : participant.name}
+                    </Menu.Item>
+                  );
+                })}
+              </Menu.Dropdown>
+            </Menu>
+          )}
         </Group>
       </Group>
     </Paper>
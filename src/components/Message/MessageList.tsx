@@ -1,12 +1,15 @@
 import { Box, Text, Divider, Center, Loader, Group, Stack } from "@mantine/core";
 import { useVirtualizer } from "@tanstack/react-virtual";
-import { useMemo } from "react";
+import { useEffect, useMemo } from "react";
 import { MessageBubble } from "./MessageBubble";
 import {
   groupMessagesByDate,
   shouldGroupWithPrevious,
 } from "../../utils/messageProcessor";
-import type { ProcessedMessage } from "../../types/messages";
+import type {
+  ProcessedMessage,
+  TranslationMode,
+} from "../../types/messages";
 import { filterMessages } from "../../utils/messageSearch";
 
 interface VirtualItem {
@@ -20,21 +23,38 @@ interface VirtualItem {
 interface MessageListProps {
   messages: ProcessedMessage[];
   isLoadingMore: boolean;
-  isRoleSwapped: boolean;
+  /** The export owner, whose messages are named when viewing as someone else */
+  ownerId: string | null;
   userDisplayName: string;
   scrollContainerRef: React.RefObject<HTMLDivElement>;
   searchQuery?: string;
   highlightedMessageIndex?: number;
+  highlightedMessageId?: string | null;
+  /** Message to bring into view once it is in the list */
+  scrollTargetId?: string | null;
+  onScrollTargetReached?: (messageId: string) => void;
+  onQuoteClick?: (messageId: string) => void;
+  onMentionClick?: (mri: string) => void;
+  translationMode?: TranslationMode;
+  /** Called with the id of the topmost visible message as the list scrolls */
+  onTopMessageChange?: (messageId: string) => void;
 }
 
 export function MessageList({
   messages,
   isLoadingMore,
-  isRoleSwapped,
+  ownerId,
   userDisplayName,
   scrollContainerRef,
   searchQuery = "",
   highlightedMessageIndex,
+  highlightedMessageId,
+  scrollTargetId,
+  onScrollTargetReached,
+  onQuoteClick,
+  onMentionClick,
+  translationMode,
+  onTopMessageChange,
 }: MessageListProps) {
   const filteredMessages = useMemo(() => {
     if (!searchQuery.trim()) return messages;
@@ -85,6 +105,33 @@ export function MessageList({
     overscan: 10,
   });
 
+  useEffect(() => {
+    if (!scrollTargetId) return;
+
+    const index = virtualItems.findIndex(
+      (item) =>
+        item.type === "message" &&
+        (item.content as ProcessedMessage).id === scrollTargetId,
+    );
+    if (index === -1) return;
+
+    virtualizer.scrollToIndex(index, { align: "center" });
+    onScrollTargetReached?.(scrollTargetId);
+  }, [scrollTargetId, virtualItems, virtualizer, onScrollTargetReached]);
+
+  const rangeStart = virtualizer.range?.startIndex ?? 0;
+  let topMessageId: string | null = null;
+  for (let i = rangeStart; i < virtualItems.length; i++) {
+    if (virtualItems[i].type === "message") {
+      topMessageId = (virtualItems[i].content as ProcessedMessage).id;
+      break;
+    }
+  }
+
+  useEffect(() => {
+    if (topMessageId) onTopMessageChange?.(topMessageId);
+  }, [topMessageId, onTopMessageChange]);
+
   if (messages.length === 0) {
     return (
       <Center h="100%">
@@ -166,13 +213,18 @@ export function MessageList({
                     message={item.content as ProcessedMessage}
                     showSender={item.showSender}
                     showTimestamp={item.showTimestamp}
-                    isRoleSwapped={isRoleSwapped}
+                    ownerId={ownerId}
                     userDisplayName={userDisplayName}
                     searchQuery={searchQuery}
                     isHighlighted={
-                      item.messageIndex !== undefined &&
-                      item.messageIndex === highlightedMessageIndex
+                      (item.messageIndex !== undefined &&
+                        item.messageIndex === highlightedMessageIndex) ||
+                      (item.content as ProcessedMessage).id ===
+                        highlightedMessageId
                     }
+                    onQuoteClick={onQuoteClick}
+                    onMentionClick={onMentionClick}
+                    translationMode={translationMode}
                   />
                 </div>
               )}
@@ -0,0 +1,72 @@
+import { Group, Popover, Stack, Text, UnstyledButton } from "@mantine/core";
+import { memo, useState } from "react";
+import type { MessageReaction } from "../../types/messages";
+import { formatMessageTime } from "../../utils/dateFormat";
+import { REACTION_CHIP_STYLE } from "../../constants/messageBubble";
+
+function ReactionChip({ reaction }: { reaction: MessageReaction }) {
+  const [opened, setOpened] = useState(false);
+
+  return (
+    <Popover opened={opened} onChange={setOpened} position="top" withArrow shadow="md">
+      <Popover.Target>
+        <UnstyledButton
+          style={REACTION_CHIP_STYLE}
+          onClick={() => setOpened((prev) => !prev)}
+          onMouseEnter={() => setOpened(true)}
+          onMouseLeave={() => setOpened(false)}
+          aria-label={`${reaction.key}: ${reaction.users.length}`}
+        >
+          <Text size="xs" span>
+            {reaction.emoji ?? `(${reaction.key})`}
+          </Text>
+          {reaction.users.length > 1 && (
+            <Text size="xs" c="dimmed" span ml={4}>
+              {reaction.users.length}
+            </Text>
+          )}
+        </UnstyledButton>
+      </Popover.Target>
+      <Popover.Dropdown>
+        <Stack gap={4}>
+          {reaction.users.map((user) => (
+            <Group key={user.id} gap="xs" justify="space-between" wrap="nowrap">
+              <Text size="xs" fw={500}>
+                {user.name}
+              </Text>
+              {user.timestamp && (
+                <Text
+                  size="xs"
+                  c="dimmed"
+                  dangerouslySetInnerHTML={{
+                    __html: formatMessageTime(user.timestamp),
+                  }}
+                />
+              )}
+            </Group>
+          ))}
+        </Stack>
+      </Popover.Dropdown>
+    </Popover>
+  );
+}
+
+/**
+ * Strip of reactions shown under a message bubble, one chip per reaction with the
+ * number of people who applied it. Hovering or clicking a chip lists who and when.
+ */
+export const MessageReactions = memo(function MessageReactions({
+  reactions,
+  isOwner,
+}: {
+  reactions: MessageReaction[];
+  isOwner: boolean;
+}) {
+  return (
+    <Group gap={4} mt={4} justify={isOwner ? "flex-end" : "flex-start"}>
+      {reactions.map((reaction) => (
+        <ReactionChip key={reaction.key} reaction={reaction} />
+      ))}
+    </Group>
+  );
+});
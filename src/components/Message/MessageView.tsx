@@ -1,15 +1,22 @@
-import { Stack, Text, Box } from "@mantine/core";
+import { Stack, Text, Box, Loader, Alert } from "@mantine/core";
+import { IconAlertCircle } from "@tabler/icons-react";
 import { useRef, useMemo, useState, useCallback, useEffect } from "react";
 import { useMessageStore, useExportData } from "../../store/messageStore";
 import { MessageHeader } from "./MessageHeader";
 import { MessageList } from "./MessageList";
 import { MessageSearch } from "./MessageSearch";
+import { SenderFilterBar } from "./SenderFilterBar";
+import { CallsFilterBar } from "./CallsFilterBar";
 import { useMessageProcessing } from "../../hooks/useMessageProcessing";
 import { useMessageScroll } from "../../hooks/useMessageScroll";
+import { useLoadedConversation } from "../../hooks/useLoadedConversation";
 import { cleanDisplayName } from "../../utils/displayName";
+import { getConversationKind } from "../../utils/conversationKind";
+import { getConversationParticipants } from "../../utils/messageProcessor";
+import { getConversationKey } from "../../utils/exportMerge";
 import { MediaViewer } from "./MediaViewer";
 import { useMediaGallery } from "../../hooks/useMediaGallery";
-import type { MediaItem } from "../../types/messages";
+import type { MediaItem, TranslationMode } from "../../types/messages";
 import {
   findMatchingMessageIndices,
   filterMessages,
@@ -24,15 +31,34 @@ const EMPTY_STATE_STYLE: React.CSSProperties = {
 export function MessageView() {
   const {
     getSelectedConversation,
-    toggleRoleSwap,
-    isRoleSwapped,
+    setViewAs,
+    getViewAs,
+    toggleTombstones,
+    areTombstonesHidden,
+    setTranslationMode,
+    getTranslationMode,
     cacheProcessedMessages,
     getProcessedMessages,
+    isProcessingDone,
+    getExportForConversation,
   } = useMessageStore();
   const exportData = useExportData();
-  const conversation = getSelectedConversation();
+  const selectedConversation = getSelectedConversation();
+  const {
+    conversation,
+    isLoading: isLoadingConversation,
+    error: loadError,
+  } = useLoadedConversation(selectedConversation);
+  // In the merged view, each conversation is owned by the account of the export it came from
+  const ownerId = selectedConversation
+    ? (getExportForConversation(selectedConversation)?.userId ?? null)
+    : null;
   const scrollContainerRef = useRef<HTMLDivElement>(null);
-  const swapped = conversation ? isRoleSwapped(conversation.id) : false;
+  // Per-conversation settings and caches are kept by key, since ids repeat across exports
+  const conversationKey = selectedConversation
+    ? getConversationKey(selectedConversation)
+    : null;
+  const viewAs = conversationKey ? getViewAs(conversationKey) : null;
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [mediaGalleryOpened, setMediaGalleryOpened] = useState(false);
   const [currentMediaId, setCurrentMediaId] = useState<string>("");
@@ -40,12 +66,17 @@ export function MessageView() {
   const [currentMatchIndex, setCurrentMatchIndex] = useState(0);
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [isLoadingAll, setIsLoadingAll] = useState(false);
+  // A quoted message to scroll to, and the one last jumped to (kept highlighted)
+  const [quoteTargetId, setQuoteTargetId] = useState<string | null>(null);
+  const [jumpedMessageId, setJumpedMessageId] = useState<string | null>(null);
+  const [topMessageId, setTopMessageId] = useState<string | null>(null);
+  // MRI of the person whose messages are shown, after clicking a mention
+  const [senderFilter, setSenderFilter] = useState<string | null>(null);
+  const [callsOnly, setCallsOnly] = useState(false);
 
   const userDisplayName = useMemo(() => {
-    return exportData?.userId
-      ? cleanDisplayName(exportData.userId) || "You"
-      : "You";
-  }, [exportData?.userId]);
+    return ownerId ? cleanDisplayName(ownerId) || "You" : "You";
+  }, [ownerId]);
 
   const conversationDisplayName = useMemo(() => {
     if (!conversation?.id) return "";
@@ -56,33 +87,161 @@ export function MessageView() {
     );
   }, [conversation?.displayName, conversation?.id]);
 
+  // Outside groups, the other side of the conversation is the owner when viewing as someone else
+  const viewsAsContact =
+    viewAs !== null && !!conversation && getConversationKind(conversation) !== "group";
+
   const headerTitle = useMemo(
-    () => (swapped ? userDisplayName : conversationDisplayName),
-    [swapped, userDisplayName, conversationDisplayName],
+    () => (viewsAsContact ? userDisplayName : conversationDisplayName),
+    [viewsAsContact, userDisplayName, conversationDisplayName],
   );
 
-  const { processedMessages, loadedMessageCount, setLoadedMessageCount } =
-    useMessageProcessing({
-      conversation,
-      exportData,
-      swapped,
-      getProcessedMessages,
-      cacheProcessedMessages,
-    });
+  // The owner first, then everyone else in the conversation by name
+  const participants = useMemo(() => {
+    if (!conversation) return [];
+    const others = getConversationParticipants(conversation).filter(
+      (participant) => participant.id !== ownerId,
+    );
+    return ownerId ? [{ id: ownerId, name: userDisplayName }, ...others] : others;
+  }, [conversation, ownerId, userDisplayName]);
+
+  const {
+    processedMessages,
+    loadedMessageCount,
+    setLoadedMessageCount,
+    processingError,
+  } = useMessageProcessing({
+    conversation,
+    userId: ownerId,
+    mediaFiles: exportData?.mediaFiles,
+    viewAs,
+    getProcessedMessages,
+    cacheProcessedMessages,
+    isProcessingDone,
+  });
 
   useMessageScroll({
     scrollContainerRef,
     conversation,
     loadedMessageCount,
     isLoadingMore,
-    swapped,
+    viewAs,
     setLoadedMessageCount,
     setIsLoadingMore,
   });
 
-  const handleRoleSwap = () => {
-    if (conversation) {
-      toggleRoleSwap(conversation.id);
+  const tombstonesHidden = conversationKey
+    ? areTombstonesHidden(conversationKey)
+    : false;
+
+  const translationMode = conversationKey
+    ? getTranslationMode(conversationKey)
+    : "translated";
+
+  // Everything processed so far, which the worker finishes in the background
+  const cachedMessages = useMessageStore((state) =>
+    conversationKey ? state.getProcessedMessages(conversationKey, viewAs) : null,
+  );
+  const allMessages = cachedMessages ?? processedMessages;
+
+  const hasTranslations = useMemo(
+    () => allMessages.some((msg) => msg.translation),
+    [allMessages],
+  );
+
+  const handleTranslationModeChange = (mode: TranslationMode) => {
+    if (conversationKey) {
+      setTranslationMode(conversationKey, mode);
+    }
+  };
+
+  const hasTombstones = useMemo(
+    () => allMessages.some((msg) => msg.deleted),
+    [allMessages],
+  );
+
+  const hasCalls = useMemo(
+    () => allMessages.some((msg) => msg.type === "call"),
+    [allMessages],
+  );
+
+  // What the list shows, and what search works on. The sender and calls filters look
+  // through the whole conversation, not only the messages loaded so far
+  const visibleMessages = useMemo(() => {
+    if (!tombstonesHidden && !senderFilter && !callsOnly) return processedMessages;
+    return (senderFilter || callsOnly ? allMessages : processedMessages).filter(
+      (msg) =>
+        !(tombstonesHidden && msg.deleted) &&
+        (!senderFilter || msg.from === senderFilter) &&
+        (!callsOnly || msg.type === "call"),
+    );
+  }, [processedMessages, allMessages, tombstonesHidden, senderFilter, callsOnly]);
+
+  // Calls and talk time for the calls filter; a call's "started" entry isn't counted
+  // on its own, as the entry for its end follows
+  const callStats = useMemo(() => {
+    if (!callsOnly) return null;
+    let callCount = 0;
+    let totalSeconds = 0;
+    for (const msg of visibleMessages) {
+      if (msg.type !== "call" || msg.call?.state === "started") continue;
+      callCount++;
+      if (msg.call?.state === "connected") {
+        totalSeconds += msg.call.durationSeconds ?? 0;
+      }
+    }
+    return { callCount, totalSeconds };
+  }, [callsOnly, visibleMessages]);
+
+  const senderFilterName = useMemo(() => {
+    if (!senderFilter) return null;
+    if (senderFilter === (viewAs ?? ownerId)) return "you";
+    const sent = allMessages.find(
+      (msg) => msg.from === senderFilter && msg.displayName,
+    );
+    return sent?.displayName ?? cleanDisplayName(senderFilter) ?? senderFilter;
+  }, [senderFilter, ownerId, viewAs, allMessages]);
+
+  const handleClearSenderFilter = useCallback(() => setSenderFilter(null), []);
+  const handleClearCallsFilter = useCallback(() => setCallsOnly(false), []);
+
+  // Positions of topic changes, newest first, across the whole conversation so a
+  // rename older than the loaded messages still applies
+  const topicChanges = useMemo(() => {
+    const positions: number[] = [];
+    allMessages.forEach((msg, index) => {
+      if (msg.topic !== undefined) positions.push(index);
+    });
+    return positions;
+  }, [allMessages]);
+
+  const messagePositions = useMemo(
+    () =>
+      topicChanges.length > 0
+        ? new Map(allMessages.map((msg, index) => [msg.id, index]))
+        : null,
+    [allMessages, topicChanges],
+  );
+
+  // The topic as it was at the topmost message on screen: the latest change at or before it
+  const topicAtScroll = useMemo(() => {
+    if (!messagePositions || !topMessageId) return null;
+    const position = messagePositions.get(topMessageId);
+    if (position === undefined) return null;
+
+    const change = topicChanges.find((index) => index >= position);
+    return change === undefined ? null : (allMessages[change].topic ?? null);
+  }, [messagePositions, topMessageId, topicChanges, allMessages]);
+
+  const handleTombstonesToggle = () => {
+    if (conversationKey) {
+      toggleTombstones(conversationKey);
+    }
+  };
+
+  const handleViewAsChange = (participantId: string | null) => {
+    if (conversationKey) {
+      setViewAs(conversationKey, participantId);
     }
   };
 
@@ -97,27 +256,73 @@ export function MessageView() {
     setCurrentMatchIndex(0);
     setIsSearchOpen(false);
     setIsLoadingAll(false);
-  }, [conversation?.id, swapped]);
+    setQuoteTargetId(null);
+    setJumpedMessageId(null);
+    setTopMessageId(null);
+    setSenderFilter(null);
+    setCallsOnly(false);
+  }, [conversationKey, viewAs]);
 
   const matchingIndices = useMemo(() => {
     if (!searchQuery.trim()) return [];
-    return findMatchingMessageIndices(processedMessages, searchQuery);
-  }, [processedMessages, searchQuery]);
+    return findMatchingMessageIndices(visibleMessages, searchQuery);
+  }, [visibleMessages, searchQuery]);
 
   const highlightedMessageIndex = useMemo(() => {
     if (matchingIndices.length === 0 || currentMatchIndex >= matchingIndices.length) {
       return undefined;
     }
-    // The index in the original processedMessages array
+    // The index in the visibleMessages array
     const originalIndex = matchingIndices[currentMatchIndex];
     if (originalIndex === undefined) return undefined;
     
     // Find the corresponding index in filtered messages
     // Since MessageList filters internally, we need to pass the index in the filtered array
-    const filteredMessages = filterMessages(processedMessages, searchQuery);
-    const targetMessage = processedMessages[originalIndex];
+    const filteredMessages = filterMessages(visibleMessages, searchQuery);
+    const targetMessage = visibleMessages[originalIndex];
     return filteredMessages.findIndex((msg) => msg.id === targetMessage.id);
-  }, [matchingIndices, currentMatchIndex, processedMessages, searchQuery]);
+  }, [matchingIndices, currentMatchIndex, visibleMessages, searchQuery]);
+
+  const handleQuoteClick = useCallback(
+    (messageId: string) => {
+      if (!conversationKey) return;
+
+      // The original may be older than what is loaded so far; load up to it first
+      const index = allMessages.findIndex((msg) => msg.id === messageId);
+      if (index === -1) return;
+      const original = allMessages[index];
+
+      // Turn off whatever keeps the original out of the list, or it is never reached
+      if (senderFilter && original.from !== senderFilter) setSenderFilter(null);
+      if (callsOnly && original.type !== "call") setCallsOnly(false);
+      if (tombstonesHidden && original.deleted) toggleTombstones(conversationKey);
+      if (filterMessages([original], searchQuery).length === 0) {
+        setSearchQuery("");
+        setCurrentMatchIndex(0);
+      }
+
+      if (index >= loadedMessageCount) {
+        setLoadedMessageCount(index + 1);
+      }
+      setQuoteTargetId(messageId);
+    },
+    [
+      conversationKey,
+      allMessages,
+      senderFilter,
+      callsOnly,
+      tombstonesHidden,
+      toggleTombstones,
+      searchQuery,
+      loadedMessageCount,
+      setLoadedMessageCount,
+    ],
+  );
+
+  const handleQuoteTargetReached = useCallback((messageId: string) => {
+    setQuoteTargetId(null);
+    setJumpedMessageId(messageId);
+  }, []);
 
   const handleSearch = useCallback((query: string) => {
     setSearchQuery(query);
@@ -146,7 +351,7 @@ export function MessageView() {
     ) {
       // Wait for next frame to ensure virtual items are rendered
       requestAnimationFrame(() => {
-        const filteredMessages = filterMessages(processedMessages, searchQuery);
+        const filteredMessages = filterMessages(visibleMessages, searchQuery);
         if (highlightedMessageIndex >= filteredMessages.length) return;
 
         const targetMessage = filteredMessages[highlightedMessageIndex];
@@ -159,7 +364,7 @@ export function MessageView() {
         }
       });
     }
-  }, [highlightedMessageIndex, processedMessages, searchQuery]);
+  }, [highlightedMessageIndex, visibleMessages, searchQuery]);
 
   useEffect(() => {
     if (
@@ -173,13 +378,15 @@ export function MessageView() {
   }, [mediaGalleryOpened, currentMediaId, mediaItems, isLoadingGallery]);
 
   const hasMedia = useMemo(() => {
-    return processedMessages.some((msg) => msg.type === "media");
+    return processedMessages.some((msg) => msg.type === "media" && !msg.audio);
   }, [processedMessages]);
 
   const handleOpenMediaGallery = useCallback(() => {
     setMediaGalleryOpened(true);
 
-    const firstMedia = processedMessages.find((msg) => msg.type === "media");
+    const firstMedia = processedMessages.find(
+      (msg) => msg.type === "media" && !msg.audio,
+    );
     if (firstMedia?.mediaUrl) {
       setCurrentMediaId(firstMedia.mediaUrl);
     }
@@ -264,12 +471,27 @@ export function MessageView() {
         style={EMPTY_STATE_STYLE}
       >
         <Stack align="center" gap="md">
-          <Text size="xl" c="dimmed" fw={500}>
-            💬
-          </Text>
-          <Text c="dimmed" ta="center">
-            Select a conversation to view messages
-          </Text>
+          {isLoadingConversation ? (
+            <>
+              <Loader size="md" />
+              <Text c="dimmed" ta="center">
+                Loading conversation...
+              </Text>
+            </>
+          ) : loadError ? (
+            <Text c="red" ta="center">
+              Could not read this conversation: {loadError}
+            </Text>
+          ) : (
+            <>
+              <Text size="xl" c="dimmed" fw={500}>
+                💬
+              </Text>
+              <Text c="dimmed" ta="center">
+                Select a conversation to view messages
+              </Text>
+            </>
+          )}
         </Stack>
       </Stack>
     );
@@ -279,8 +501,11 @@ export function MessageView() {
     <Stack gap={0} h="100%">
       <MessageHeader
         title={headerTitle}
-        swapped={swapped}
-        onRoleSwap={handleRoleSwap}
+        topic={viewsAsContact ? null : topicAtScroll}
+        participants={participants}
+        ownerId={ownerId}
+        viewAs={viewAs}
+        onViewAsChange={handleViewAsChange}
         onMediaGallery={handleOpenMediaGallery}
         hasMedia={hasMedia}
         onSearchToggle={() => setIsSearchOpen((prev) => !prev)}
@@ -288,6 +513,15 @@ export function MessageView() {
         onLoadAll={handleLoadAll}
         hasMoreMessages={hasMoreMessages}
         isLoadingAll={isLoadingAll}
+        hasTombstones={hasTombstones}
+        tombstonesHidden={tombstonesHidden}
+        onTombstonesToggle={handleTombstonesToggle}
+        hasTranslations={hasTranslations}
+        translationMode={translationMode}
+        onTranslationModeChange={handleTranslationModeChange}
+        hasCalls={hasCalls}
+        callsOnly={callsOnly}
+        onCallsToggle={() => setCallsOnly((prev) => !prev)}
       />
 
       <MessageSearch
@@ -300,6 +534,34 @@ export function MessageView() {
         hasMatches={matchingIndices.length > 0}
       />
 
+      {senderFilterName && (
+        <SenderFilterBar
+          name={senderFilterName}
+          onClear={handleClearSenderFilter}
+        />
+      )}
+
+      {callStats && (
+        <CallsFilterBar
+          callCount={callStats.callCount}
+          totalSeconds={callStats.totalSeconds}
+          onClear={handleClearCallsFilter}
+        />
+      )}
+
+      {processingError && (
+        <Alert
+          color="red"
+          variant="light"
+          radius={0}
+          icon={<IconAlertCircle size={16} />}
+          style={{ flexShrink: 0 }}
+        >
+          Could not show all of this conversation: {processingError}. Open it
+          again to retry.
+        </Alert>
+      )}
+
       {mediaGalleryOpened && (
         <MediaViewer
           opened={mediaGalleryOpened}
@@ -325,15 +587,32 @@ export function MessageView() {
         style={{ overflow: "auto", position: "relative" }}
         bg="light-dark(var(--mantine-color-gray-0), var(--mantine-color-dark-8))"
       >
-        <MessageList
-          messages={processedMessages}
-          isLoadingMore={isLoadingMore}
-          isRoleSwapped={swapped}
-          userDisplayName={userDisplayName}
-          scrollContainerRef={scrollContainerRef}
-          searchQuery={searchQuery}
-          highlightedMessageIndex={highlightedMessageIndex}
-        />
+        {(senderFilterName || callsOnly) && visibleMessages.length === 0 ? (
+          <Stack align="center" justify="center" h="100%">
+            <Text c="dimmed">
+              {callsOnly
+                ? `No calls${senderFilterName ? ` from ${senderFilterName}` : " in this conversation"}`
+                : `No messages from ${senderFilterName}`}
+            </Text>
+          </Stack>
+        ) : (
+          <MessageList
+            messages={visibleMessages}
+            isLoadingMore={isLoadingMore}
+            ownerId={ownerId}
+            userDisplayName={userDisplayName}
+            scrollContainerRef={scrollContainerRef}
+            searchQuery={searchQuery}
+            highlightedMessageIndex={highlightedMessageIndex}
+            highlightedMessageId={jumpedMessageId}
+            scrollTargetId={quoteTargetId}
+            onScrollTargetReached={handleQuoteTargetReached}
+            onQuoteClick={handleQuoteClick}
+            onTopMessageChange={setTopMessageId}
+            onMentionClick={setSenderFilter}
+            translationMode={translationMode}
+          />
+        )}
       </Box>
     </Stack>
   );
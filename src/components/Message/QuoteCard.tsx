@@ -0,0 +1,80 @@
+import { Box, Group, Text, UnstyledButton } from "@mantine/core";
+import { memo, useMemo } from "react";
+import type { MessageQuote } from "../../types/messages";
+import { formatMessageTime } from "../../utils/dateFormat";
+import { sanitizeMessageHtml } from "../../utils/htmlSanitizer";
+import {
+  MESSAGE_TEXT_STYLE,
+  QUOTE_CARD_STYLE,
+} from "../../constants/messageBubble";
+
+/**
+ * Quoted message shown at the top of a reply. When the original is in the same
+ * conversation, clicking the card jumps to it.
+ */
+export const QuoteCard = memo(function QuoteCard({
+  quote,
+  isOwner,
+  onClick,
+}: {
+  quote: MessageQuote;
+  isOwner: boolean;
+  onClick?: (messageId: string) => void;
+}) {
+  const content = useMemo(
+    () => sanitizeMessageHtml(quote.content),
+    [quote.content],
+  );
+  const messageId = quote.messageId;
+  const clickable = Boolean(messageId && onClick);
+
+  const card = (
+    <Box
+      style={{
+        ...QUOTE_CARD_STYLE,
+        cursor: clickable ? "pointer" : undefined,
+      }}
+      bg={
+        isOwner
+          ? "rgba(255, 255, 255, 0.15)"
+          : "light-dark(var(--mantine-color-gray-3), var(--mantine-color-dark-4))"
+      }
+      c={isOwner ? "white" : "light-dark(var(--mantine-color-gray-7), var(--mantine-color-gray-4))"}
+    >
+      <Group gap={6} wrap="nowrap">
+        <Text size="xs" fw={600} span>
+          {quote.author ?? "Unknown"}
+        </Text>
+        {quote.timestamp && (
+          <Text
+            size="xs"
+            opacity={0.7}
+            span
+            dangerouslySetInnerHTML={{
+              __html: formatMessageTime(quote.timestamp),
+            }}
+          />
+        )}
+      </Group>
+      <Text
+        size="sm"
+        lineClamp={4}
+        style={MESSAGE_TEXT_STYLE}
+        dangerouslySetInnerHTML={{ __html: content }}
+      />
+    </Box>
+  );
+
+  if (!clickable || !messageId) return card;
+
+  return (
+    <UnstyledButton
+      display="block"
+      w="100%"
+      onClick={() => onClick?.(messageId)}
+      aria-label={`Go to quoted message from ${quote.author ?? "unknown"}`}
+    >
+      {card}
+    </UnstyledButton>
+  );
+});
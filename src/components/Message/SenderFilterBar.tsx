@@ -0,0 +1,36 @@
+import { Paper, Group, Text, CloseButton } from "@mantine/core";
+import { IconFilter } from "@tabler/icons-react";
+
+interface SenderFilterBarProps {
+  name: string;
+  onClear: () => void;
+}
+
+/**
+ * Shown while the conversation is filtered to one person's messages.
+ */
+export function SenderFilterBar({ name, onClear }: SenderFilterBarProps) {
+  return (
+    <Paper
+      px="lg"
+      py={6}
+      withBorder
+      style={{ flexShrink: 0 }}
+      bg="light-dark(var(--mantine-color-blue-0), var(--mantine-color-dark-6))"
+    >
+      <Group justify="space-between" gap="xs">
+        <Group gap="xs">
+          <IconFilter size={16} />
+          <Text size="sm">
+            Showing messages from <strong>{name}</strong>
+          </Text>
+        </Group>
+        <CloseButton
+          size="sm"
+          onClick={onClear}
+          aria-label="Show all messages"
+        />
+      </Group>
+    </Paper>
+  );
+}
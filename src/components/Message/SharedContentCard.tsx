@@ -0,0 +1,190 @@
+import {
+  Anchor,
+  Box,
+  Button,
+  Group,
+  Paper,
+  Progress,
+  Stack,
+  Text,
+  ThemeIcon,
+} from "@mantine/core";
+import { IconChartBar, IconMapPin, IconUser } from "@tabler/icons-react";
+import { memo } from "react";
+import type {
+  MessageCard,
+  MessagePoll,
+  ProcessedMessage,
+  SharedContact,
+  SharedLocation,
+} from "../../types/messages";
+import {
+  MAP_PLACEHOLDER_STYLE,
+  MESSAGE_TEXT_STYLE,
+  SHARED_CARD_STYLE,
+} from "../../constants/messageBubble";
+
+function ContactCard({ contact }: { contact: SharedContact }) {
+  return (
+    <Group gap="sm" wrap="nowrap">
+      <ThemeIcon radius="xl" size="lg" variant="light">
+        <IconUser size={18} />
+      </ThemeIcon>
+      <Stack gap={0} style={{ minWidth: 0 }}>
+        <Text size="sm" fw={600} truncate>
+          {contact.name ?? contact.skypeId}
+        </Text>
+        <Text size="xs" c="dimmed" truncate>
+          {contact.skypeId}
+        </Text>
+      </Stack>
+    </Group>
+  );
+}
+
+function LocationCard({ location }: { location: SharedLocation }) {
+  const { latitude, longitude, address } = location;
+  const hasCoordinates = latitude !== null && longitude !== null;
+
+  return (
+    <Stack gap="xs">
+      <Box style={MAP_PLACEHOLDER_STYLE}>
+        <IconMapPin size={32} color="var(--mantine-color-red-6)" />
+      </Box>
+      {address && (
+        <Text size="sm" fw={600}>
+          {address}
+        </Text>
+      )}
+      {hasCoordinates && (
+        <Group justify="space-between" gap="xs">
+          <Text size="xs" c="dimmed">
+            {latitude.toFixed(5)}, {longitude.toFixed(5)}
+          </Text>
+          <Anchor
+            size="xs"
+            href={`https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=15/${latitude}/${longitude}`}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            Open map
+          </Anchor>
+        </Group>
+      )}
+    </Stack>
+  );
+}
+
+function RichCard({ card }: { card: MessageCard }) {
+  return (
+    <Stack gap={6}>
+      {card.title && (
+        <Text size="sm" fw={600} style={MESSAGE_TEXT_STYLE}>
+          {card.title}
+        </Text>
+      )}
+      {card.subtitle && (
+        <Text size="xs" c="dimmed">
+          {card.subtitle}
+        </Text>
+      )}
+      {card.lines.map((line, index) => (
+        <Text key={index} size="sm" style={MESSAGE_TEXT_STYLE}>
+          {line}
+        </Text>
+      ))}
+      {card.facts.map((fact, index) => (
+        <Group key={index} gap="xs" wrap="nowrap" align="flex-start">
+          <Text size="xs" fw={600} miw={80}>
+            {fact.title}
+          </Text>
+          <Text size="xs" style={MESSAGE_TEXT_STYLE}>
+            {fact.value}
+          </Text>
+        </Group>
+      ))}
+      {card.buttons.length > 0 && (
+        <Stack gap={4} mt={4}>
+          {card.buttons.map((button, index) =>
+            button.url ? (
+              <Button
+                key={index}
+                component="a"
+                href={button.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                variant="light"
+                size="xs"
+              >
+                {button.title}
+              </Button>
+            ) : (
+              <Button key={index} variant="default" size="xs" disabled>
+                {button.title}
+              </Button>
+            ),
+          )}
+        </Stack>
+      )}
+    </Stack>
+  );
+}
+
+function PollCard({ poll }: { poll: MessagePoll }) {
+  return (
+    <Stack gap="xs">
+      <Group gap="xs" wrap="nowrap">
+        <IconChartBar size={16} />
+        <Text size="sm" fw={600}>
+          {poll.question}
+        </Text>
+      </Group>
+      {poll.options.map((option, index) => (
+        <Stack key={index} gap={2}>
+          <Group justify="space-between" gap="xs" wrap="nowrap">
+            <Text size="sm">{option.text}</Text>
+            <Text size="xs" c="dimmed">
+              {option.votes}
+            </Text>
+          </Group>
+          <Progress
+            size="sm"
+            value={poll.totalVotes ? (option.votes / poll.totalVotes) * 100 : 0}
+          />
+        </Stack>
+      ))}
+      <Text size="xs" c="dimmed">
+        {poll.totalVotes} {poll.totalVotes === 1 ? "vote" : "votes"}
+      </Text>
+    </Stack>
+  );
+}
+
+/**
+ * Card for shared contacts, locations, Adaptive/Swift cards and polls.
+ */
+export const SharedContentCard = memo(function SharedContentCard({
+  message,
+}: {
+  message: ProcessedMessage;
+}) {
+  return (
+    <Paper
+      p="sm"
+      radius="md"
+      bg="light-dark(var(--mantine-color-white), var(--mantine-color-dark-6))"
+      style={SHARED_CARD_STYLE}
+    >
+      {message.contacts && (
+        <Stack gap="sm">
+          {message.contacts.map((contact) => (
+            <ContactCard key={contact.skypeId} contact={contact} />
+          ))}
+        </Stack>
+      )}
+      {message.location && <LocationCard location={message.location} />}
+      {message.card && <RichCard card={message.card} />}
+      {message.poll && <PollCard poll={message.poll} />}
+    </Paper>
+  );
+});
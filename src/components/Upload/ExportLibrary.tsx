@@ -0,0 +1,138 @@
+import {
+  Paper,
+  Stack,
+  Group,
+  Text,
+  Badge,
+  Button,
+  ActionIcon,
+  Tooltip,
+} from "@mantine/core";
+import { IconDatabase, IconTrash } from "@tabler/icons-react";
+import { useEffect, useState } from "react";
+import type { StoredExportInfo } from "../../types/storage";
+import {
+  listStoredExports,
+  deleteStoredExport,
+} from "../../utils/exportStorage";
+import { cleanDisplayName } from "../../utils/displayName";
+import { formatFileSize } from "../../utils/fileSize";
+
+const EXPORT_DATE_FORMATTER = new Intl.DateTimeFormat("en-GB", {
+  day: "numeric",
+  month: "long",
+  year: "numeric",
+});
+
+function formatExportDate(exportDate: string): string {
+  const date = new Date(exportDate);
+  return Number.isNaN(date.getTime())
+    ? exportDate
+    : EXPORT_DATE_FORMATTER.format(date);
+}
+
+interface ExportLibraryProps {
+  onOpen: (info: StoredExportInfo) => void;
+}
+
+/**
+ * Lists exports kept on this device, with actions to reopen or delete them.
+ * Renders nothing when no exports have been saved.
+ */
+export function ExportLibrary({ onOpen }: ExportLibraryProps) {
+  const [exports, setExports] = useState<StoredExportInfo[]>([]);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listStoredExports()
+      .then((stored) => {
+        if (!cancelled) setExports(stored);
+      })
+      .catch((error) => {
+        console.error("[ExportLibrary] Failed to list saved exports:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function handleDelete(id: string) {
+    setDeletingId(id);
+    try {
+      await deleteStoredExport(id);
+      setExports((prev) => prev.filter((item) => item.id !== id));
+    } catch (error) {
+      console.error("[ExportLibrary] Failed to delete saved export:", {
+        error,
+        id,
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  }
+
+  if (exports.length === 0) return null;
+
+  return (
+    <Paper p="lg" withBorder radius="md">
+      <Stack gap="md">
+        <Group gap="md">
+          <IconDatabase
+            size={32}
+            style={{ color: "var(--mantine-color-blue-6)" }}
+          />
+          <Stack gap={4} style={{ flex: 1 }}>
+            <Text fw={600} size="lg">
+              Saved on This Device
+            </Text>
+            <Text size="sm" c="dimmed">
+              Reopen an export without uploading it again
+            </Text>
+          </Stack>
+        </Group>
+        {exports.map((item) => (
+          <Group key={item.id} justify="space-between" wrap="nowrap" gap="sm">
+            <Stack gap={2} style={{ flex: 1, minWidth: 0 }}>
+              <Text size="sm" fw={600} lineClamp={1}>
+                {cleanDisplayName(item.userId) || item.userId}
+              </Text>
+              <Group gap={6}>
+                <Text size="xs" c="dimmed">
+                  Exported {formatExportDate(item.exportDate)}
+                  {" • "}
+                  {formatFileSize(item.sizeBytes)}
+                </Text>
+                <Badge size="xs" variant="light" color="gray">
+                  {item.conversationCount} conversations
+                </Badge>
+                {item.mediaFileCount > 0 && (
+                  <Badge size="xs" variant="light" color="blue">
+                    Media
+                  </Badge>
+                )}
+              </Group>
+            </Stack>
+            <Group gap="xs" wrap="nowrap">
+              <Button size="xs" variant="light" onClick={() => onOpen(item)}>
+                Open
+              </Button>
+              <Tooltip label="Delete from this device" position="bottom">
+                <ActionIcon
+                  variant="subtle"
+                  color="red"
+                  loading={deletingId === item.id}
+                  onClick={() => handleDelete(item.id)}
+                >
+                  <IconTrash size={16} />
+                </ActionIcon>
+              </Tooltip>
+            </Group>
+          </Group>
+        ))}
+      </Stack>
+    </Paper>
+  );
+}
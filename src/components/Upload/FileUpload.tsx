@@ -11,6 +11,7 @@ import {
   Divider,
   rem,
   Box,
+  Checkbox,
 } from "@mantine/core";
 import { Dropzone } from "@mantine/dropzone";
 import {
@@ -20,23 +21,123 @@ import {
   IconShieldLock,
   IconFileText,
   IconPhotoVideo,
+  IconFileZip,
+  IconDatabase,
+  IconDatabaseImport,
+  IconArrowLeft,
+  IconLifebuoy,
 } from "@tabler/icons-react";
 import { useState, useRef } from "react";
-import { parseJsonFile, parseDirectoryFiles } from "../../utils/fileParser";
+import {
+  parseJsonFile,
+  parseDirectoryFiles,
+  parseArchiveFile,
+  parseLegacyDatabaseFile,
+  CorruptExportError,
+} from "../../utils/fileParser";
+import { isArchiveFile } from "../../utils/archiveParser";
+import { isLegacyDatabaseFile } from "../../utils/legacyDbParser";
+import { saveExport, loadStoredExport } from "../../utils/exportStorage";
+import { cleanDisplayName } from "../../utils/displayName";
+import { validateExport } from "../../utils/exportValidator";
 import type { SkypeExport } from "../../types/messages";
-import { UPLOAD_WIDTH } from "../../constants/fileUpload";
+import type { StoredExportInfo } from "../../types/storage";
+import type {
+  ConversationBatchHandler,
+  ParseOptions,
+} from "../../types/parser";
+import {
+  UPLOAD_WIDTH,
+  ARCHIVE_PROGRESS_SHARE,
+} from "../../constants/fileUpload";
 import { debugLog } from "../../utils/debug";
+import { ExportLibrary } from "./ExportLibrary";
+
+type UploadSource = "file" | "archive" | "database" | "directory" | "stored";
 
 interface FileUploadProps {
   onFileProcessed: (data: SkypeExport) => void;
+  onConversationsParsed?: ConversationBatchHandler;
+  onProgress?: (progress: number) => void;
+  onImportFailed?: () => void;
+  /** Called after `onFileProcessed` when the copy for this device could not be saved */
+  onSaveFailed?: (message: string) => void;
+  onCancel?: () => void;
 }
 
-export function FileUpload({ onFileProcessed }: FileUploadProps) {
-  const [progress, setProgress] = useState(0);
+export function FileUpload({
+  onFileProcessed,
+  onConversationsParsed,
+  onProgress,
+  onImportFailed,
+  onSaveFailed,
+  onCancel,
+}: FileUploadProps) {
+  const [progress, setProgressState] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string>("");
+  const [source, setSource] = useState<UploadSource>("file");
+  const [stage, setStage] = useState<string | null>(null);
+  const [keepOnDevice, setKeepOnDevice] = useState(false);
+  const [keepMedia, setKeepMedia] = useState(false);
+  const [recoverable, setRecoverable] = useState(false);
   const directoryInputRef = useRef<HTMLInputElement>(null);
+  const retryRef = useRef<(() => void) | null>(null);
+
+  function setProgress(value: number) {
+    setProgressState(value);
+    onProgress?.(value);
+  }
+
+  function startProcessing(name: string, uploadSource: UploadSource) {
+    setError(null);
+    setRecoverable(false);
+    setIsProcessing(true);
+    setFileName(name);
+    setSource(uploadSource);
+    setStage(null);
+  }
+
+  /**
+   * Hands the parsed export to the app, keeping a copy in IndexedDB first when the
+   * user opted in. A failed save (quota, private mode) still opens the export.
+   */
+  async function completeImport(data: SkypeExport, sizeBytes: number) {
+    let saveError: string | null = null;
+    if (keepOnDevice) {
+      setStage("Saving to this device...");
+      setProgress(0);
+      try {
+        await saveExport(
+          data,
+          { includeMedia: keepMedia, sizeBytes },
+          setProgress,
+        );
+      } catch (error) {
+        saveError = error instanceof Error ? error.message : "Unknown error";
+      }
+    }
+
+    onFileProcessed(data);
+    if (saveError !== null) {
+      onSaveFailed?.(saveError);
+    }
+  }
+
+  /**
+   * Runs the validation pass and attaches its report to the export.
+   * Throws only when the export is too malformed to display.
+   */
+  function withDiagnostics(data: SkypeExport, formatName: string): SkypeExport {
+    const diagnostics = validateExport(data);
+    if (diagnostics.errors.length > 0) {
+      throw new Error(
+        `Invalid Skype export ${formatName} format: ${diagnostics.errors.join(", ")}`,
+      );
+    }
+    return { ...data, diagnostics };
+  }
 
   function handleError(error: unknown, context: string): string {
     const errorMessage =
@@ -45,72 +146,138 @@ export function FileUpload({ onFileProcessed }: FileUploadProps) {
     return errorMessage;
   }
 
-  async function handleDrop(files: File[]) {
+  function failImport(error: unknown, context: string) {
+    setError(handleError(error, context));
+    // A damaged messages.json can be retried in recovery mode
+    setRecoverable(error instanceof CorruptExportError);
+    setIsProcessing(false);
+  }
+
+  async function handleDrop(files: File[], options?: ParseOptions) {
     const file = files[0];
     if (!file) return;
 
-    setError(null);
-    setIsProcessing(true);
-    setFileName(file.name);
+    const uploadSource: UploadSource = isArchiveFile(file)
+      ? "archive"
+      : isLegacyDatabaseFile(file)
+        ? "database"
+        : "file";
+    startProcessing(file.name, uploadSource);
+    retryRef.current = () => handleDrop(files, { recover: true });
 
     try {
+      // Archives are unpacked in the browser; messages.json and media are read from the entries.
+      // Legacy main.db files are read with SQLite compiled to WASM.
       // parseJsonFile handles both small and large files automatically
       // For large files (>100MB), it uses streaming to avoid memory issues
-      const data = await parseJsonFile(file, setProgress);
+      const parsed =
+        uploadSource === "archive"
+          ? await parseArchiveFile(file, setProgress, onConversationsParsed, options)
+          : uploadSource === "database"
+            ? await parseLegacyDatabaseFile(file, setProgress, onConversationsParsed)
+            : await parseJsonFile(file, setProgress, onConversationsParsed, options);
 
       // Validate that the file contains required Skype export structure
-      if (!data.userId || !data.conversations) {
-        throw new Error("Invalid Skype export file format");
-      }
+      const data = withDiagnostics(parsed, uploadSource);
 
       debugLog("[FileUpload] File processed successfully:", {
         userId: data.userId,
         conversations: data.conversations.length,
+        mediaFiles: data.mediaFiles?.size || 0,
+        recovered: Boolean(data.recovery),
       });
 
-      onFileProcessed(data);
+      await completeImport(data, file.size);
     } catch (error) {
-      setError(handleError(error, "file"));
-      setIsProcessing(false);
+      onImportFailed?.();
+      failImport(error, uploadSource);
     }
   }
 
-  async function handleDirectorySelect(
-    event: React.ChangeEvent<HTMLInputElement>,
-  ) {
+  function handleDirectorySelect(event: React.ChangeEvent<HTMLInputElement>) {
     const files = event.target.files;
     if (!files || files.length === 0) return;
 
-    setError(null);
-    setIsProcessing(true);
-    setFileName("Skype Export Directory");
+    importDirectory(Array.from(files));
+  }
+
+  async function importDirectory(fileList: File[], options?: ParseOptions) {
+    startProcessing("Skype Export Directory", "directory");
+    retryRef.current = () => importDirectory(fileList, { recover: true });
 
     try {
       // parseDirectoryFiles extracts messages.json and builds a map of media files
       // Media files are indexed by their ID for efficient lookup during message rendering
-      const data = await parseDirectoryFiles(Array.from(files), setProgress);
+      const parsed = await parseDirectoryFiles(
+        fileList,
+        setProgress,
+        onConversationsParsed,
+        options,
+      );
 
-      if (!data.userId || !data.conversations) {
-        throw new Error("Invalid Skype export directory format");
-      }
+      const data = withDiagnostics(parsed, "directory");
 
       debugLog("[FileUpload] Directory processed successfully:", {
         userId: data.userId,
         conversations: data.conversations.length,
         mediaFiles: data.mediaFiles?.size || 0,
+        recovered: Boolean(data.recovery),
+      });
+
+      await completeImport(
+        data,
+        fileList.reduce((total, file) => total + file.size, 0),
+      );
+    } catch (error) {
+      onImportFailed?.();
+      failImport(error, "directory");
+    }
+  }
+
+  async function handleOpenStored(info: StoredExportInfo) {
+    startProcessing(cleanDisplayName(info.userId) || info.userId, "stored");
+    setStage("Loading from this device...");
+
+    try {
+      // Diagnostics are not stored, so the validation pass runs again on load
+      const data = withDiagnostics(
+        await loadStoredExport(info.id, setProgress),
+        "saved",
+      );
+
+      debugLog("[FileUpload] Saved export loaded:", {
+        userId: data.userId,
+        conversations: data.conversations.length,
+        mediaFiles: data.mediaFiles?.size || 0,
       });
 
       onFileProcessed(data);
     } catch (error) {
-      setError(handleError(error, "directory"));
-      setIsProcessing(false);
+      failImport(error, "saved export");
     }
   }
 
   if (isProcessing) {
-    const isDirectory = fileName === "Skype Export Directory";
-    const stageText = progress < 95 ? "Reading file..." : "Parsing JSON...";
-    
+    const stageText =
+      stage ??
+      (source === "archive" && progress < ARCHIVE_PROGRESS_SHARE
+        ? "Extracting archive..."
+        : source === "database"
+          ? "Reading database..."
+          : progress < 95
+            ? "Reading file..."
+            : "Parsing JSON...");
+    const SourceIcon =
+      source === "archive"
+        ? IconFileZip
+        : source === "database"
+          ? IconDatabaseImport
+          : source === "directory"
+            ? IconPhotoVideo
+            : source === "stored"
+              ? IconDatabase
+              : IconFileText;
+
     return (
       <Stack w={UPLOAD_WIDTH} gap="xl" align="center">
         <Paper
@@ -133,27 +300,19 @@ export function FileUpload({ onFileProcessed }: FileUploadProps) {
                 }}
               >
                 <Loader size={48} color="blue" />
-                {isDirectory ? (
-                  <IconPhotoVideo
-                    size={24}
-                    style={{
-                      position: "absolute",
-                      color: "var(--mantine-color-blue-6)",
-                    }}
-                  />
-                ) : (
-                  <IconFileText
-                    size={24}
-                    style={{
-                      position: "absolute",
-                      color: "var(--mantine-color-blue-6)",
-                    }}
-                  />
-                )}
+                <SourceIcon
+                  size={24}
+                  style={{
+                    position: "absolute",
+                    color: "var(--mantine-color-blue-6)",
+                  }}
+                />
               </Box>
               <Stack gap={4} align="center">
                 <Text fw={600} size="lg">
-                  Processing {isDirectory ? "directory" : "file"}...
+                  {source === "stored"
+                    ? "Opening saved export..."
+                    : `Processing ${source}...`}
                 </Text>
                 <Text size="sm" c="dimmed" ta="center" lineClamp={1} style={{ maxWidth: rem(400) }}>
                   {fileName}
@@ -189,6 +348,18 @@ export function FileUpload({ onFileProcessed }: FileUploadProps) {
 
   return (
     <Stack w={UPLOAD_WIDTH} gap="xl">
+      {onCancel && (
+        <Group>
+          <Button
+            variant="subtle"
+            size="xs"
+            leftSection={<IconArrowLeft size={14} />}
+            onClick={onCancel}
+          >
+            Back to conversations
+          </Button>
+        </Group>
+      )}
       <Stack gap="xs" align="center">
         <Group 
           gap={0} 
@@ -234,7 +405,7 @@ export function FileUpload({ onFileProcessed }: FileUploadProps) {
           Upload Your Skype Data
         </Title>
         <Text size="sm" c="dimmed" ta="center">
-          Choose how you want to upload your Skype export
+          Choose how you want to upload your Skype or Teams (free) export
         </Text>
       </Stack>
 
@@ -246,15 +417,42 @@ export function FileUpload({ onFileProcessed }: FileUploadProps) {
           onClose={() => setError(null)}
           withCloseButton
         >
-          {error}
+          <Stack gap="sm" align="flex-start">
+            <Text size="sm">{error}</Text>
+            {recoverable && (
+              <>
+                <Text size="sm">
+                  The file looks damaged or incomplete. Recovery mode keeps every
+                  conversation and message that can still be read.
+                </Text>
+                <Button
+                  size="xs"
+                  variant="light"
+                  color="red"
+                  leftSection={<IconLifebuoy size={14} />}
+                  onClick={() => retryRef.current?.()}
+                >
+                  Recover what can be read
+                </Button>
+              </>
+            )}
+          </Stack>
         </Alert>
       )}
 
       <Stack gap="lg">
+        {/* Exports kept on this device from earlier sessions */}
+        <ExportLibrary onOpen={handleOpenStored} />
+
         {/* File Upload Option */}
         <Dropzone
-          onDrop={handleDrop}
-          accept={["application/json"]}
+          onDrop={(files) => handleDrop(files)}
+          accept={{
+            "application/json": [".json"],
+            "application/x-tar": [".tar"],
+            "application/zip": [".zip"],
+            "application/vnd.sqlite3": [".db"],
+          }}
         >
           <Paper
             p="lg"
@@ -282,10 +480,11 @@ export function FileUpload({ onFileProcessed }: FileUploadProps) {
                 />
                 <Stack gap={4} style={{ flex: 1 }}>
                   <Text fw={600} size="lg">
-                    Upload messages.json File
+                    Upload messages.json or Export Archive
                   </Text>
                   <Text size="sm" c="dimmed">
-                    For conversations only (no media files)
+                    The .tar from Skype includes media; messages.json alone has
+                    conversations only. Old desktop installs can also import main.db
                   </Text>
                 </Stack>
               </Group>
@@ -299,7 +498,7 @@ export function FileUpload({ onFileProcessed }: FileUploadProps) {
                   style={{ color: "var(--mantine-color-dimmed)" }}
                 />
                 <Text size="sm" c="dimmed" ta="center">
-                  Drag & drop or click to select messages.json
+                  Drag & drop or click to select messages.json, .tar or main.db
                 </Text>
               </Group>
             </Stack>
@@ -363,6 +562,22 @@ export function FileUpload({ onFileProcessed }: FileUploadProps) {
             </Group>
           </Stack>
         </Paper>
+
+        <Stack gap="xs">
+          <Checkbox
+            label="Keep this export on this device"
+            description="Stored in your browser so you can reopen it after a refresh"
+            checked={keepOnDevice}
+            onChange={(event) => setKeepOnDevice(event.currentTarget.checked)}
+          />
+          <Checkbox
+            ml="xl"
+            label="Include media files"
+            checked={keepMedia}
+            disabled={!keepOnDevice}
+            onChange={(event) => setKeepMedia(event.currentTarget.checked)}
+          />
+        </Stack>
       </Stack>
 
       {/* 
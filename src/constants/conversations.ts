@@ -0,0 +1,43 @@
+import type { ConversationKind } from "../types/messages";
+
+/**
+ * Identity prefixes: 8: Skype users, 19: group threads, 28: bots (Bing, Copilot),
+ * 4: and 2: phone numbers. Legacy main.db group chats start with "#".
+ */
+export const CONVERSATION_ID_PATTERNS = {
+  Bot: /^28:/,
+  Phone: /^[24]:/,
+  Group: /^(?:19:|#)/,
+  /** Teams one-to-one chats are threads too, but with two people */
+  OneOnOneThread: /@unq\.gbl\.spaces$/,
+  Person: /^8:/,
+} as const;
+
+export const SMS_MESSAGE_TYPE_PATTERN = /sms/i;
+
+/** Sidebar filter labels, in the order they are offered */
+export const CONVERSATION_KIND_LABELS: Record<ConversationKind, string> = {
+  person: "People",
+  group: "Groups",
+  bot: "Bots",
+  phone: "Phone",
+  sms: "SMS",
+  other: "Other",
+};
+
+export const CONVERSATION_KIND_NAMES: Record<ConversationKind, string> = {
+  person: "Contact",
+  group: "Group chat",
+  bot: "Bot",
+  phone: "Skype to phone",
+  sms: "SMS",
+  other: "Other conversation",
+};
+
+/** Country calling codes one or two digits long; everything else is three */
+export const SHORT_CALLING_CODES = new Set([
+  "1", "7", "20", "27", "30", "31", "32", "33", "34", "36", "39", "40", "41",
+  "43", "44", "45", "46", "47", "48", "49", "51", "52", "53", "54", "55", "56",
+  "57", "58", "60", "61", "62", "63", "64", "65", "66", "81", "82", "84", "86",
+  "90", "91", "92", "93", "94", "95", "98",
+]);
@@ -0,0 +1,4 @@
+export const MERGED_EXPORT_ID = "merged";
+
+/** Group threads have one id for everyone in them, whichever account exported them */
+export const SHARED_THREAD_ID_PATTERN = /^19:/;
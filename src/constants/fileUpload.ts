@@ -1,5 +1,16 @@
 export const UPLOAD_WIDTH = 500;
 export const SMALL_FILE_THRESHOLD = 100 * 1024 * 1024;
-export const FILE_CHUNK_SIZE = 64 * 1024 * 1024;
+export const FILE_CHUNK_SIZE = 16 * 1024 * 1024;
 export const MEDIA_PATH_PREFIX = "/media/";
 export const PROGRESS_UPDATE_INTERVAL = 100;
+export const ARCHIVE_EXTS = new Set(["tar", "zip"]);
+export const TAR_BLOCK_SIZE = 512;
+export const ZIP_EOCD_SEARCH_SIZE = 65536 + 22;
+export const ARCHIVE_PROGRESS_SHARE = 20;
+export const CONVERSATION_BATCH_SIZE = 50;
+export const INDEX_FILE_THRESHOLD = 500 * 1024 * 1024;
+export const INDEX_SUMMARY_TAIL = 2;
+/** Raw messages that may be removed ones; only these are parsed while indexing */
+export const INDEX_DELETED_HINT_PATTERN =
+  /"deletetime"|"content"\s*:\s*"(?:\s|\\[nrt])*"/;
+export const LOADED_CONVERSATION_CACHE_SIZE = 8;
@@ -0,0 +1,42 @@
+export const LEGACY_DB_EXTS = new Set(["db"]);
+
+/** Identity prefix cloud exports use for Skype users */
+export const SKYPE_USER_PREFIX = "8:";
+
+/** Conversations.type for one-to-one chats; group chats use 2 */
+export const LEGACY_DIALOG_TYPE = 1;
+
+/** Values of Messages.type in the legacy desktop client */
+export const LEGACY_MESSAGE_TYPES = {
+  TopicSet: 2,
+  MembersAdded: 10,
+  MemberKicked: 12,
+  MemberLeft: 13,
+  CallStarted: 30,
+  CallEnded: 39,
+  ContactRequest: 50,
+  ContactRequestAccepted: 51,
+  Emote: 60,
+  Said: 61,
+  ContactsSent: 63,
+  Sms: 64,
+  FileTransfer: 68,
+  Birthday: 110,
+  MediaShared: 201,
+} as const;
+
+/**
+ * Regex patterns to convert legacy message XML to the markup cloud exports use.
+ * Links, <b>, <s>, <pre>, <ss> emoticons, <quote> and <URIObject> are already the
+ * same, so strikethrough and monospace are formatted as for cloud messages.
+ */
+export const LEGACY_BODY_PATTERNS = [
+  [/<i>([\s\S]*?)<\/i>/g, "<em>$1</em>"], // Italic
+  [/\r?\n(?!(?:(?!<pre\b)[\s\S])*?<\/pre>)/g, "<br>"], // Line breaks, outside monospace blocks
+] as const;
+
+export const LEGACY_FILE_PATTERN = /<file\s([^>]*)>([^<]*)<\/file>/g;
+export const LEGACY_FILE_SIZE_PATTERN = /size="(\d+)"/;
+
+/** Share of progress spent loading the database file before reading tables */
+export const LEGACY_LOAD_PROGRESS_SHARE = 30;
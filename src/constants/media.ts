@@ -7,6 +7,10 @@ export const URL_REVOKE_DELAY = 500;
 
 export const IMAGE_EXTS = new Set(["jpg", "jpeg", "png", "gif", "webp", "bmp", "svg"]);
 export const VIDEO_EXTS = new Set(["mp4", "webm", "mov", "avi", "mkv", "m4v"]);
+export const AUDIO_EXTS = new Set(["m4a", "mp3", "aac", "wav", "ogg", "oga", "opus", "amr", "weba"]);
+
+export const WAVEFORM_BAR_COUNT = 48;
+export const WAVEFORM_HEIGHT = 28;
 
 export const MEDIA_PAPER_STYLE = {
   maxWidth: `${MEDIA_MAX_SIZE}px`,
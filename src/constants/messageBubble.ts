@@ -14,3 +14,101 @@ export const MESSAGE_TEXT_STYLE = {
   lineHeight: 1.45,
   wordSpacing: "0.5px",
 } as const;
+
+export const REACTION_CHIP_STYLE = {
+  display: "inline-flex",
+  alignItems: "center",
+  padding: "1px 8px",
+  borderRadius: "999px",
+  backgroundColor:
+    "light-dark(var(--mantine-color-white), var(--mantine-color-dark-6))",
+  border:
+    "1px solid light-dark(var(--mantine-color-gray-3), var(--mantine-color-dark-4))",
+} as const;
+
+export const BOT_BUBBLE_STYLE = {
+  ...MESSAGE_BUBBLE_STYLE,
+  border:
+    "1px solid light-dark(var(--mantine-color-violet-2), var(--mantine-color-violet-9))",
+} as const;
+
+export const TOMBSTONE_STYLE = {
+  ...MESSAGE_BUBBLE_STYLE,
+  boxShadow: "none",
+  border:
+    "1px dashed light-dark(var(--mantine-color-gray-4), var(--mantine-color-dark-3))",
+} as const;
+
+export const QUOTE_CARD_STYLE = {
+  display: "block",
+  width: "100%",
+  padding: "6px 10px",
+  marginBottom: "6px",
+  borderLeft: "3px solid currentColor",
+  borderRadius: "4px",
+} as const;
+
+export const SHARED_CARD_STYLE = {
+  ...MESSAGE_BUBBLE_STYLE,
+  width: "280px",
+  border:
+    "1px solid light-dark(var(--mantine-color-gray-3), var(--mantine-color-dark-4))",
+} as const;
+
+export const LINK_PREVIEW_STYLE = {
+  ...SHARED_CARD_STYLE,
+  marginTop: "4px",
+  borderLeft: "3px solid var(--mantine-color-blue-6)",
+} as const;
+
+export const CALL_CARD_STYLE = {
+  display: "inline-block",
+  minWidth: "240px",
+  textAlign: "left" as const,
+  border:
+    "1px solid light-dark(var(--mantine-color-gray-3), var(--mantine-color-dark-4))",
+  boxShadow: "0 1px 2px rgba(0, 0, 0, 0.1)",
+} as const;
+
+/** Drawn grid standing in for a map, so nothing is fetched from a tile server */
+export const MAP_PLACEHOLDER_STYLE = {
+  height: "120px",
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "center",
+  borderRadius: "6px",
+  backgroundColor:
+    "light-dark(var(--mantine-color-green-0), var(--mantine-color-dark-5))",
+  backgroundImage:
+    "linear-gradient(rgba(128, 128, 128, 0.15) 1px, transparent 1px), linear-gradient(90deg, rgba(128, 128, 128, 0.15) 1px, transparent 1px)",
+  backgroundSize: "20px 20px",
+} as const;
+
+export const CODE_BLOCK_STYLE = {
+  position: "relative" as const,
+  margin: "4px 0",
+  borderRadius: "6px",
+  backgroundColor:
+    "light-dark(var(--mantine-color-gray-0), var(--mantine-color-dark-8))",
+  color: "light-dark(var(--mantine-color-gray-9), var(--mantine-color-gray-1))",
+  border:
+    "1px solid light-dark(var(--mantine-color-gray-3), var(--mantine-color-dark-4))",
+} as const;
+
+export const CODE_TEXT_STYLE = {
+  margin: 0,
+  padding: "8px 64px 8px 10px",
+  overflowX: "auto" as const,
+  fontFamily: "var(--mantine-font-family-monospace)",
+  fontSize: "var(--mantine-font-size-xs)",
+  lineHeight: 1.5,
+  whiteSpace: "pre" as const,
+} as const;
+
+export const CODE_TOKEN_COLORS = {
+  comment: "light-dark(var(--mantine-color-gray-6), var(--mantine-color-dark-2))",
+  string: "light-dark(var(--mantine-color-green-8), var(--mantine-color-green-4))",
+  number: "light-dark(var(--mantine-color-orange-8), var(--mantine-color-orange-4))",
+  keyword: "light-dark(var(--mantine-color-violet-7), var(--mantine-color-violet-3))",
+  plain: undefined,
+} as const;
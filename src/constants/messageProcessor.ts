@@ -8,31 +8,122 @@ export const CONTENT_PATTERNS = [
     /<a href="([^"]+)">([^<]*)<\/a>/g,
     '<a href="$1" target="_blank" rel="noopener noreferrer">$2</a>',
   ], // Convert links with security attributes
-  [/<b>([^<]*)<\/b>/g, "<strong>$1</strong>"], // Bold formatting
-  [/<at id="[^"]+">([^<]*)<\/at>/g, "<strong>@$1</strong>"], // Mentions
+  [/<b(?:\s[^>]*)?>/g, "<strong>"], // Bold formatting
+  [/<\/b>/g, "</strong>"],
+  [/<i(?:\s[^>]*)?>/g, "<em>"], // Italic formatting
+  [/<\/i>/g, "</em>"],
+  [/<s(?:\s[^>]*)?>/g, "<s>"], // Strikethrough, without Skype's raw_pre/raw_post
+  [
+    /<pre\b[^>]*raw_pre="\{code\}"[^>]*>([\s\S]*?)<\/pre>/g,
+    "<pre><code>$1</code></pre>",
+  ], // Code blocks
+  [/\{code\}([\s\S]*?)\{code\}/g, "<pre><code>$1</code></pre>"], // Code blocks typed as text
+  [/<pre(?:\s[^>]*)?>(?!<code>)([^\n]*?)<\/pre>/g, "<code>$1</code>"], // Inline monospace
+  [/<pre(?:\s[^>]*)?>(?!<code>)([\s\S]*?)<\/pre>/g, "<pre><code>$1</code></pre>"], // Multi-line monospace
+  [/<at id="[^"]+">([^<]*)<\/at>/g, "<strong>@$1</strong>"], // Mentions not resolved to chips
   [/<(?:location|context|c_i)[^>]*>(?:<\/\w+>)?/g, ""], // Remove location/context tags
-  [/<e_m[^>]*\/>/g, ""], // Remove empty emoji tags
+  [/<e_m[^>]*(?:\/>|>\s*<\/e_m>)/g, ""], // Remove edit markers
   [/<bing-response>(.*?)<\/bing-response>/gs, "$1"], // Extract Bing response content
   [/<attribution[^>]*>.*?<\/attribution>/g, ""], // Remove attribution tags
 ] as const;
 
 export const PURIFY_CONFIG = {
-  ALLOWED_TAGS: ["strong", "a", "br", "sup", "em"],
-  ALLOWED_ATTR: ["href", "target", "rel"],
+  ALLOWED_TAGS: ["strong", "a", "br", "sup", "em", "s", "code", "pre", "span"],
+  ALLOWED_ATTR: [
+    "href",
+    "target",
+    "rel",
+    "data-mention",
+    "data-self",
+    "data-emoticon",
+  ],
 };
 
 export const THREAD_ACTIVITY_PATTERNS = {
-  AddMember: /<target>([^<]+)<\/target>/g,
-  Value: /<value>([^<]+)<\/value>/,
+  Target: /<target>([\s\S]*?)<\/target>/g,
+  Initiator: /<initiator>([^<]+)<\/initiator>/,
+  Value: /<value>([^<]*)<\/value>/,
+  /** RoleUpdate targets wrap the member id and their new role */
+  TargetId: /<id>([^<]+)<\/id>/,
+  Role: /<role>([^<]+)<\/role>/,
+} as const;
+
+export const ATTRIBUTE_PATTERN = /\b([\w-]+)="([^"]*)"/g;
+
+export const MENTION_PATTERN = /<at id="([^"]+)">([^<]*)<\/at>/g;
+
+export const QUOTE_PATTERNS = {
+  Quote: /<quote\b([^>]*)>([\s\S]*?)<\/quote>/g,
+  LegacyQuote: /<legacyquote>[\s\S]*?<\/legacyquote>/g,
+} as const;
+
+export const SHARED_CONTENT_PATTERNS = {
+  Contact: /<c\b([^>]*?)\/?>/g,
+  Location: /<location\b([^>]*)>/,
+  /** Cards are sent as base64-encoded JSON inside a Swift element */
+  Swift: /<Swift\b[^>]*\bb64="([^"]+)"/,
+} as const;
+
+/** Message types with a dedicated card instead of text */
+export const SHARED_CONTENT_MESSAGE_TYPES = new Set([
+  "RichText/Contacts",
+  "RichText/Location",
+  "RichText/Media_Card",
+  "SwiftCard",
+  "Poll",
+]);
+
+/** Suggested replies Bing and Copilot add below their answers */
+export const BOT_SUGGESTION_PATTERNS = {
+  Block:
+    /<(suggestedresponses|suggested-responses|suggestions)\b[^>]*>([\s\S]*?)<\/\1>/gi,
+  Item: /<(suggestion|suggestedresponse|suggested-response|response)\b[^>]*>([\s\S]*?)<\/\1>/gi,
 } as const;
 
+/** Message properties that may hold suggested replies, as JSON or an array */
+export const BOT_SUGGESTION_PROPERTIES = [
+  "suggestedActions",
+  "suggestedResponses",
+] as const;
+
+/** Message properties that hold URL previews, as a JSON string or an array */
+export const LINK_PREVIEW_PROPERTIES = ["urlpreviews", "links"] as const;
+
+/** Links whose title attribute differs from the URL carry the page title */
+export const LINK_ANCHOR_PATTERN = /<a\b([^>]*)>/g;
+
 export const CALL_EVENT_PATTERNS = {
+  PartList: /<partlist\b[^>]*>/i,
   Type: /<partlist[^>]*type="([^"]+)"/i,
   Part: /<part[^>]*identity="([^"]+)"[^>]*>([\s\S]*?)<\/part>/gi,
   Name: /<name>([^<]+)<\/name>/i,
   Duration: /<duration>([^<]+)<\/duration>/i,
 } as const;
 
+/** Skype and Teams `callState` values, by the state they are shown as */
+export const CALL_LOG_STATES = {
+  accepted: "connected",
+  connected: "connected",
+  completed: "connected",
+  missed: "missed",
+  declined: "declined",
+  rejected: "declined",
+  busy: "declined",
+} as const;
+
+export const VIDEO_CALL_PATTERN = /video/i;
+
+export const MEDIA_FILE_PATTERNS = {
+  OriginalName: /<OriginalName v="([^"]+)"(?:\s*\/>|><\/OriginalName>)/,
+  FileSize: /<FileSize v="(\d+)"(?:\s*\/>|><\/FileSize>)/,
+  /** Voice messages carry their length in milliseconds */
+  Duration: /<duration_ms>(\d+)<\/duration_ms>|\bduration_ms="(\d+)"/,
+} as const;
+
+/** Marker Skype appends to edited content; its ts_ms attribute is the edit time */
+export const EDIT_MARKER_PATTERN = /<e_m\b([^>]*)>/;
+export const EDIT_TIME_PATTERN = /\bts_ms="(\d+)"/;
+
 export const STRIP_HTML_PATTERN = /<[^>]+>/g;
 export const STRIP_SKYPE_PATTERN = /<ss[^>]*>([^<]*)<\/ss>/g;
 export const PREVIEW_MAX_LENGTH = 100;
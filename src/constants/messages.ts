@@ -4,3 +4,6 @@ export const INITIAL_MESSAGE_COUNT = 50;
 export const GROUP_TIME_THRESHOLD = 300000;
 export const REQUIRED_STABLE_FRAMES = 6;
 export const MAX_SCROLL_FRAMES = 30;
+export const PROCESSOR_BATCH_SIZE = 1000;
+/** Least time between writes of a conversation still being processed to the cache */
+export const PROCESSED_CACHE_UPDATE_INTERVAL = 300;
@@ -0,0 +1,1241 @@
+/**
+ * Skype emoticon catalogue: emoticon ids (as used in `<ss type="…">` and typed as
+ * `(id)`) mapped to their closest Unicode emoji. Keys are lower case.
+ *
+ * Flags (`flag:gb`), skin-tone variants (`wave_3`) and ids that start with their
+ * code points (`1f440_eyes`) are derived in utils/skypeEmoji rather than listed.
+ */
+export const SKYPE_EMOTICONS: Record<string, string> = {
+  // Smileys
+  smile: "😊",
+  sadsmile: "🙁",
+  bigsmile: "😃",
+  cool: "😎",
+  wink: "😉",
+  crying: "😢",
+  cry: "😢",
+  sweat: "😓",
+  speechless: "😶",
+  kiss: "😘",
+  kissingfacewithsmilingeyes: "😙",
+  tongueout: "😛",
+  blush: "😊",
+  wonder: "😕",
+  sleepy: "😴",
+  dull: "😒",
+  inlove: "😍",
+  evilgrin: "😈",
+  talking: "🗣️",
+  yawn: "🥱",
+  puke: "🤮",
+  doh: "🤦",
+  angry: "😠",
+  like: "👍",
+  sad: "😢",
+  surprised: "😮",
+  wasntme: "🤷",
+  party: "🥳",
+  worried: "😟",
+  worry: "😟",
+  mmm: "😋",
+  nerd: "🤓",
+  lipssealed: "🤐",
+  devil: "😈",
+  angel: "😇",
+  envy: "😒",
+  makeup: "💄",
+  think: "🤔",
+  rofl: "🤣",
+  happy: "😊",
+  smirk: "😏",
+  emo: "😔",
+  surprise: "😲",
+  swear: "🤬",
+  giggle: "😆",
+  chuckle: "😆",
+  wondering: "🤔",
+  sleepless: "😫",
+  snooze: "😴",
+  sick: "🤒",
+  ill: "🤒",
+  sweating: "😰",
+  smiling: "😊",
+  grinning: "😁",
+  fearful: "😨",
+  relieved: "😌",
+  triumph: "😤",
+  unamused: "😑",
+  facepalm: "🤦",
+  shrug: "🤷",
+  fubar: "😵",
+  inpain: "😣",
+  bandit: "😎",
+  confident: "😎",
+  confidential: "🤐",
+  malthe: "😄",
+  nerdy: "🤓",
+  oliver: "😊",
+  selfie: "🤳",
+  toivo: "😄",
+  lol: "😂",
+  sob: "😭",
+  loudlycrying: "😭",
+  joy: "😂",
+  tearsofjoy: "😂",
+  grin: "😁",
+  stuck: "😛",
+  sunglasses: "😎",
+  neutral: "😐",
+  nomouth: "😶",
+  innocent: "😇",
+  smileeyes: "😊",
+  smilingeyes: "😊",
+  relaxed: "☺️",
+  yum: "😋",
+  drunk: "🥴",
+  facewithmonocle: "🧐",
+  mindblown: "🤯",
+  kissingclosedeyes: "😚",
+  smilingfacewithtear: "🥲",
+  pleadingface: "🥺",
+  disguisedface: "🥸",
+  partyingface: "🥳",
+  woozyface: "🥴",
+  dottedlineface: "🫥",
+  facewithdiagonalmouth: "🫤",
+  shakingface: "🫨",
+  smilingfacewithhalo: "😇",
+  smilingfacewithhorns: "😈",
+  skull: "💀",
+  skullandcrossbones: "☠️",
+  laugh: "😂",
+  hysterical: "🤣",
+  whew: "😅",
+  phew: "😅",
+  relief: "😌",
+  wait: "✋",
+  waiting: "⏳",
+  donttalk: "🤫",
+  shh: "🤫",
+  shush: "🤫",
+  mischievous: "😜",
+  crazy: "🤪",
+  zany: "🤪",
+  silly: "😜",
+  upsidedown: "🙃",
+  upsidedownface: "🙃",
+  slightlysmiling: "🙂",
+  slightsmile: "🙂",
+  slightlyfrowning: "🙁",
+  frown: "☹️",
+  frowning: "☹️",
+  disappointed: "😞",
+  pensive: "😔",
+  confused: "😕",
+  confounded: "😖",
+  persevere: "😣",
+  tired: "😫",
+  weary: "😩",
+  exhausted: "😩",
+  scream: "😱",
+  screaming: "😱",
+  shocked: "😱",
+  horror: "😱",
+  astonished: "😲",
+  hushed: "😯",
+  flushed: "😳",
+  embarrassed: "😳",
+  dizzy: "😵",
+  dizzyface: "😵‍💫",
+  rage: "😡",
+  pouting: "😡",
+  furious: "😡",
+  steamingmad: "😤",
+  cursing: "🤬",
+  mask: "😷",
+  medicalmask: "😷",
+  thermometer: "🤒",
+  headbandage: "🤕",
+  hurt: "🤕",
+  nauseated: "🤢",
+  nausea: "🤢",
+  vomit: "🤮",
+  sneeze: "🤧",
+  sneezing: "🤧",
+  hot: "🥵",
+  hotface: "🥵",
+  cold: "🥶",
+  coldface: "🥶",
+  freezing: "🥶",
+  liar: "🤥",
+  lying: "🤥",
+  hugging: "🤗",
+  huggingface: "🤗",
+  starstruck: "🤩",
+  stareyes: "🤩",
+  moneymouth: "🤑",
+  money: "🤑",
+  drool: "🤤",
+  drooling: "🤤",
+  cowboy: "🤠",
+  clown: "🤡",
+  ghost: "👻",
+  alien: "👽",
+  robot: "🤖",
+  poo: "💩",
+  poop: "💩",
+  imp: "👿",
+  ogre: "👹",
+  goblin: "👺",
+  jackolantern: "🎃",
+  pumpkin: "🎃",
+  zipper: "🤐",
+  zippermouth: "🤐",
+  rolleyes: "🙄",
+  eyeroll: "🙄",
+  grimace: "😬",
+  grimacing: "😬",
+  sweatsmile: "😅",
+  laughing: "😆",
+  squint: "😆",
+  beaming: "😁",
+  heartface: "🥰",
+  smilinghearts: "🥰",
+  yawning: "🥱",
+  sleeping: "😴",
+  expressionless: "😑",
+  raisedeyebrow: "🤨",
+  skeptical: "🤨",
+  handovermouth: "🤭",
+  oops: "🤭",
+  shushing: "🤫",
+  saluting: "🫡",
+  salute: "🫡",
+  meltingface: "🫠",
+  melting: "🫠",
+  peeking: "🫣",
+  bored: "🥱",
+  lonely: "😔",
+  anxious: "😰",
+  nervous: "😬",
+  cheeky: "😜",
+  winktongue: "😜",
+  kissing: "😗",
+  kissingheart: "😘",
+  blowkiss: "😘",
+  smilingimp: "😈",
+  catface: "🐱",
+  catlaugh: "😹",
+  catlove: "😻",
+  catkiss: "😽",
+  catcry: "😿",
+  catscream: "🙀",
+  catangry: "😾",
+  seenoevil: "🙈",
+  hearnoevil: "🙉",
+  speaknoevil: "🙊",
+  tmi: "🙈",
+  hiding: "🙈",
+
+  // Gestures and people
+  hi: "👋",
+  wave: "👋",
+  bye: "👋",
+  clap: "👏",
+  applause: "👏",
+  bow: "🙇",
+  pray: "🙏",
+  please: "🙏",
+  thanks: "🙏",
+  rock: "🤘",
+  muscle: "💪",
+  handshake: "🤝",
+  nod: "👍",
+  shake: "👎",
+  yes: "✔️",
+  no: "❌",
+  talktothehand: "🖐️",
+  hand: "✋",
+  finger: "☝️",
+  pointupindex: "☝️",
+  pointup: "☝️",
+  pointdown: "👇",
+  pointleft: "👈",
+  pointright: "👉",
+  pointyou: "🫵",
+  fingers: "🤞",
+  fingerscrossed: "🤞",
+  crossedfingers: "🤞",
+  highfive: "🙌",
+  handsinair: "🙌",
+  celebration: "🙌",
+  ok: "👌",
+  okay: "👌",
+  punch: "👊",
+  victory: "✌️",
+  peace: "✌️",
+  thumbsup: "👍",
+  thumbsdown: "👎",
+  dislike: "👎",
+  thumbs: "👍",
+  yeah: "👍",
+  fist: "👊",
+  fistbump: "👊",
+  v: "✌️",
+  raised: "✋",
+  raisedhand: "✋",
+  raisedback: "🤚",
+  stop: "✋",
+  vulcan: "🖖",
+  middlefinger: "🖕",
+  headbang: "🤘",
+  flex: "💪",
+  strong: "💪",
+  callme: "🤙",
+  shaka: "🤙",
+  lovegesture: "🤟",
+  loveyou: "🤟",
+  pinch: "🤏",
+  pinchedfingers: "🤌",
+  writing: "✍️",
+  write: "✍️",
+  nailpolish: "💅",
+  openhands: "👐",
+  palmsup: "🤲",
+  selfiehand: "🤳",
+  dance: "💃",
+  dancing: "💃",
+  disco: "🕺",
+  discodance: "🕺",
+  running: "🏃",
+  run: "🏃",
+  walking: "🚶",
+  walk: "🚶",
+  swim: "🏊",
+  swimming: "🏊",
+  surfing: "🏄",
+  skiing: "⛷️",
+  snowboard: "🏂",
+  cyclist: "🚴",
+  lifting: "🏋️",
+  gym: "🏋️",
+  yoga: "🧘",
+  meditate: "🧘",
+  cartwheel: "🤸",
+  juggling: "🤹",
+  ninja: "🥷",
+  zombie: "🧟",
+  vampire: "🧛",
+  mermaid: "🧜",
+  fairy: "🧚",
+  genie: "🧞",
+  wizard: "🧙",
+  mage: "🧙",
+  superhero: "🦸",
+  supervillain: "🦹",
+  santa: "🎅",
+  mrsclaus: "🤶",
+  pirate: "🏴‍☠️",
+  cop: "👮",
+  police: "👮",
+  detective: "🕵️",
+  guard: "💂",
+  construction: "👷",
+  worker: "👷",
+  king: "🤴",
+  queen: "👸",
+  prince: "🤴",
+  princess: "👸",
+  bride: "👰",
+  groom: "🤵",
+  pregnant: "🤰",
+  baby: "👶",
+  babyangel: "👼",
+  child: "🧒",
+  boy: "👦",
+  girl: "👧",
+  man: "👨",
+  woman: "👩",
+  oldman: "👴",
+  oldwoman: "👵",
+  grandpa: "👴",
+  grandma: "👵",
+  family: "👪",
+  couple: "💑",
+  couplekiss: "💏",
+  holdinghands: "🧑‍🤝‍🧑",
+  people: "👥",
+  person: "👤",
+  bust: "👤",
+  busts: "👥",
+  doctor: "🧑‍⚕️",
+  nurse: "🧑‍⚕️",
+  teacher: "🧑‍🏫",
+  student: "🧑‍🎓",
+  graduate: "🧑‍🎓",
+  cook: "🧑‍🍳",
+  chef: "🧑‍🍳",
+  farmer: "🧑‍🌾",
+  mechanic: "🧑‍🔧",
+  scientist: "🧑‍🔬",
+  astronaut: "🧑‍🚀",
+  firefighter: "🧑‍🚒",
+  pilot: "🧑‍✈️",
+  judge: "🧑‍⚖️",
+  artist: "🧑‍🎨",
+  womanartist: "👩‍🎨",
+  singer: "🧑‍🎤",
+  technologist: "🧑‍💻",
+  coder: "🧑‍💻",
+  programmer: "🧑‍💻",
+  officeworker: "🧑‍💼",
+  businessman: "🧑‍💼",
+  facepalming: "🤦",
+  shrugging: "🤷",
+  bowing: "🙇",
+  raisinghand: "🙋",
+  tippinghand: "💁",
+  nogesture: "🙅",
+  okgesture: "🙆",
+  neil: "👨",
+  bricklayers: "🧱",
+
+  // Body
+  tongue: "👅",
+  ear: "👂",
+  hear: "👂",
+  listening: "👂",
+  nose: "👃",
+  eye: "👁️",
+  eyes: "👀",
+  lookingeyes: "👀",
+  brain: "🧠",
+  lips: "👄",
+  mouth: "👄",
+  tooth: "🦷",
+  bone: "🦴",
+  leg: "🦵",
+  foot: "🦶",
+  footprints: "👣",
+  mooning: "🍑",
+
+  // Love
+  heart: "❤️",
+  redheart: "❤️",
+  brokenheart: "💔",
+  hearthands: "🫶",
+  love: "😍",
+  hug: "🤗",
+  bearhug: "🤗",
+  kissmark: "💋",
+  kisses: "💋",
+  hearteyes: "😍",
+  heartkiss: "😘",
+  lovelove: "💕",
+  twohearts: "💕",
+  hearts: "💕",
+  sparklingheart: "💖",
+  growingheart: "💗",
+  beatingheart: "💓",
+  heartbeat: "💓",
+  revolvinghearts: "💞",
+  heartribbon: "💝",
+  heartarrow: "💘",
+  cupid: "💘",
+  loveletter: "💌",
+  heartexclamation: "❣️",
+  orangeheart: "🧡",
+  yellowheart: "💛",
+  greenheart: "💚",
+  blueheart: "💙",
+  purpleheart: "💜",
+  blackheart: "🖤",
+  whiteheart: "🤍",
+  brownheart: "🤎",
+  pinkheart: "🩷",
+  lightblueheart: "🩵",
+  greyheart: "🩶",
+  heartonfire: "❤️‍🔥",
+  mendingheart: "❤️‍🩹",
+  rose: "🌹",
+  wiltedflower: "🥀",
+  ring: "💍",
+  wedding: "💒",
+  diamond: "💎",
+  gem: "💎",
+
+  // Animals
+  dog: "🐕",
+  puppy: "🐶",
+  doge: "🐕",
+  cat: "🐈",
+  kitty: "🐱",
+  blackcat: "🐈‍⬛",
+  penguin: "🐧",
+  penguinkiss: "🐧😘",
+  panda: "🐼",
+  monkey: "🐵",
+  monkeyface: "🐵",
+  gorilla: "🦍",
+  hedgehog: "🦔",
+  llama: "🦙",
+  sheep: "🐑",
+  lamb: "🐑",
+  pig: "🐷",
+  cow: "🐄",
+  bull: "🐂",
+  horse: "🐴",
+  unicorn: "🦄",
+  zebra: "🦓",
+  giraffe: "🦒",
+  elephant: "🐘",
+  rhino: "🦏",
+  hippo: "🦛",
+  camel: "🐫",
+  goat: "🐐",
+  deer: "🦌",
+  reindeer: "🦌",
+  rabbit: "🐰",
+  bunny: "🐰",
+  mouse: "🐭",
+  rat: "🐀",
+  hamster: "🐹",
+  squirrel: "🐿️",
+  chipmunk: "🐿️",
+  bear: "🐻",
+  polarbear: "🐻‍❄️",
+  koala: "🐨",
+  tiger: "🐯",
+  lion: "🦁",
+  leopard: "🐆",
+  wolf: "🐺",
+  fox: "🦊",
+  raccoon: "🦝",
+  skunk: "🦨",
+  badger: "🦡",
+  otter: "🦦",
+  sloth: "🦥",
+  kangaroo: "🦘",
+  skipping: "🦘",
+  bat: "🦇",
+  chicken: "🐔",
+  chick: "🐤",
+  rooster: "🐓",
+  turkey: "🦃",
+  duck: "🦆",
+  swan: "🦢",
+  eagle: "🦅",
+  owl: "🦉",
+  parrot: "🦜",
+  peacock: "🦚",
+  flamingo: "🦩",
+  dodo: "🦤",
+  bird: "🐦",
+  dove: "🕊️",
+  frog: "🐸",
+  turtle: "🐢",
+  snail: "🐌",
+  snake: "🐍",
+  lizard: "🦎",
+  dragon: "🐉",
+  dinosaur: "🦖",
+  trex: "🦖",
+  whale: "🐳",
+  dolphin: "🐬",
+  shark: "🦈",
+  fish: "🐟",
+  tropicalfish: "🐠",
+  blowfish: "🐡",
+  octopus: "🐙",
+  squid: "🦑",
+  crab: "🦀",
+  lobster: "🦞",
+  shrimp: "🦐",
+  seal: "🦭",
+  bug: "🐛",
+  caterpillar: "🐛",
+  butterfly: "🦋",
+  bee: "🐝",
+  honeybee: "🐝",
+  ladybug: "🐞",
+  ant: "🐜",
+  spider: "🕷️",
+  spiderweb: "🕸️",
+  scorpion: "🦂",
+  mosquito: "🦟",
+  cricket: "🦗",
+  pawprints: "🐾",
+
+  // Nature and weather
+  flower: "🌸",
+  blossom: "🌼",
+  sunflower: "🌻",
+  tulip: "🌷",
+  hibiscus: "🌺",
+  bouquet: "💐",
+  plant: "🌱",
+  seedling: "🌱",
+  tree: "🌳",
+  palm: "🌴",
+  palmtree: "🌴",
+  cactus: "🌵",
+  christmastree: "🎄",
+  xmastree: "🎄",
+  leaf: "🍃",
+  leaves: "🍂",
+  mapleleaf: "🍁",
+  autumn: "🍂",
+  clover: "☘️",
+  fourleafclover: "🍀",
+  luck: "🍀",
+  mushroom: "🍄",
+  tumbleweed: "🌾",
+  sun: "☀️",
+  sunny: "☀️",
+  sunrise: "🌅",
+  sunset: "🌇",
+  moon: "🌙",
+  fullmoon: "🌕",
+  newmoon: "🌑",
+  star: "⭐",
+  glowingstar: "🌟",
+  shootingstar: "🌠",
+  stars: "✨",
+  rain: "🌧️",
+  raining: "🌧️",
+  rainbow: "🌈",
+  cloud: "☁️",
+  cloudy: "☁️",
+  lightning: "⚡",
+  thunder: "⛈️",
+  storm: "⛈️",
+  tornado: "🌪️",
+  fog: "🌫️",
+  wind: "🌬️",
+  snowflake: "❄️",
+  snow: "❄️",
+  snowman: "☃️",
+  fire: "🔥",
+  flame: "🔥",
+  lit: "🔥",
+  water: "💧",
+  droplet: "💧",
+  seawave: "🌊",
+  ocean: "🌊",
+  volcano: "🌋",
+  mountain: "⛰️",
+  earth: "🌍",
+  globe: "🌍",
+  world: "🌍",
+  comet: "☄️",
+  nazar: "🧿",
+  sparkles: "✨",
+  sparkle: "✨",
+
+  // Food and drink
+  coffee: "☕",
+  tea: "🍵",
+  pizza: "🍕",
+  cake: "🎂",
+  birthdaycake: "🎂",
+  shortcake: "🍰",
+  cupcake: "🧁",
+  cookie: "🍪",
+  cookies: "🍪",
+  donut: "🍩",
+  doughnut: "🍩",
+  chocolate: "🍫",
+  candy: "🍬",
+  lollipop: "🍭",
+  icecream: "🍦",
+  popcorn: "🍿",
+  burger: "🍔",
+  hamburger: "🍔",
+  fries: "🍟",
+  hotdog: "🌭",
+  taco: "🌮",
+  burrito: "🌯",
+  sandwich: "🥪",
+  sushi: "🍣",
+  ramen: "🍜",
+  noodles: "🍜",
+  spaghetti: "🍝",
+  pasta: "🍝",
+  rice: "🍚",
+  curry: "🍛",
+  dumpling: "🥟",
+  bento: "🍱",
+  bread: "🍞",
+  croissant: "🥐",
+  baguette: "🥖",
+  pretzel: "🥨",
+  cheese: "🧀",
+  egg: "🥚",
+  bacon: "🥓",
+  steak: "🥩",
+  meat: "🍖",
+  poultry: "🍗",
+  salad: "🥗",
+  soup: "🍲",
+  apple: "🍎",
+  greenapple: "🍏",
+  banana: "🍌",
+  orange: "🍊",
+  lemon: "🍋",
+  grapes: "🍇",
+  watermelon: "🍉",
+  strawberry: "🍓",
+  cherries: "🍒",
+  cherry: "🍒",
+  peach: "🍑",
+  pear: "🍐",
+  pineapple: "🍍",
+  mango: "🥭",
+  kiwi: "🥝",
+  coconut: "🥥",
+  avocado: "🥑",
+  tomato: "🍅",
+  eggplant: "🍆",
+  carrot: "🥕",
+  corn: "🌽",
+  pepper: "🌶️",
+  chili: "🌶️",
+  broccoli: "🥦",
+  potato: "🥔",
+  beer: "🍺",
+  beers: "🍻",
+  cheers: "🍻",
+  drink: "🍹",
+  cocktail: "🍸",
+  martini: "🍸",
+  wine: "🍷",
+  champagne: "🍾",
+  bubbly: "🍾",
+  clink: "🥂",
+  toast: "🥂",
+  whisky: "🥃",
+  whiskey: "🥃",
+  sake: "🍶",
+  milk: "🥛",
+  juice: "🧃",
+  bubbletea: "🧋",
+  mate: "🧉",
+
+  // Activities and celebrations
+  gift: "🎁",
+  present: "🎁",
+  celebrate: "🎉",
+  partypopper: "🎉",
+  tada: "🎉",
+  congrats: "🎊",
+  confetti: "🎊",
+  birthday: "🎂",
+  fireworks: "🎆",
+  sparkler: "🎇",
+  balloon: "🎈",
+  balloons: "🎈",
+  ribbon: "🎀",
+  christmas: "🎄",
+  xmas: "🎄",
+  halloween: "🎃",
+  easter: "🐣",
+  easteregg: "🥚",
+  valentine: "💝",
+  lantern: "🏮",
+  diwali: "🪔",
+  diya: "🪔",
+  menorah: "🕎",
+  hanukkah: "🕎",
+  dreidel: "🪀",
+  redenvelope: "🧧",
+  moonfestival: "🥮",
+  mooncake: "🥮",
+  kite: "🪁",
+  medal: "🏅",
+  goldmedal: "🥇",
+  silvermedal: "🥈",
+  bronzemedal: "🥉",
+  trophy: "🏆",
+  winner: "🏆",
+  football: "⚽",
+  soccer: "⚽",
+  basketball: "🏀",
+  americanfootball: "🏈",
+  baseball: "⚾",
+  softball: "🥎",
+  tennis: "🎾",
+  volleyball: "🏐",
+  rugby: "🏉",
+  bowling: "🎳",
+  golf: "⛳",
+  hockey: "🏒",
+  icehockey: "🏒",
+  cricketbat: "🏏",
+  pingpong: "🏓",
+  badminton: "🏸",
+  boxing: "🥊",
+  martialarts: "🥋",
+  goal: "🥅",
+  fishing: "🎣",
+  diving: "🤿",
+  skates: "⛸️",
+  sled: "🛷",
+  dart: "🎯",
+  target: "🎯",
+  bullseye: "🎯",
+  dice: "🎲",
+  game: "🎮",
+  gaming: "🎮",
+  videogame: "🎮",
+  joystick: "🕹️",
+  puzzle: "🧩",
+  chess: "♟️",
+  cards: "🃏",
+  slotmachine: "🎰",
+  poolparty: "🏊",
+  pool: "🎱",
+  billiards: "🎱",
+  "8ball": "🎱",
+  yoyo: "🪀",
+  teddybear: "🧸",
+  teddy: "🧸",
+  art: "🎨",
+  palette: "🎨",
+  theatre: "🎭",
+  theater: "🎭",
+  circus: "🎪",
+  ticket: "🎫",
+  tickets: "🎟️",
+  movie: "🎬",
+  film: "🎞️",
+  cinema: "🎦",
+  music: "🎵",
+  notes: "🎶",
+  lalala: "🎵",
+  microphone: "🎤",
+  mic: "🎤",
+  karaoke: "🎤",
+  headphones: "🎧",
+  guitar: "🎸",
+  piano: "🎹",
+  trumpet: "🎺",
+  saxophone: "🎷",
+  violin: "🎻",
+  drum: "🥁",
+  drums: "🥁",
+  banjo: "🪕",
+  accordion: "🪗",
+
+  // Travel and places
+  plane: "✈️",
+  airplane: "✈️",
+  flight: "✈️",
+  car: "🚗",
+  taxi: "🚕",
+  bus: "🚌",
+  train: "🚆",
+  metro: "🚇",
+  tram: "🚊",
+  ship: "🚢",
+  boat: "⛵",
+  sailboat: "⛵",
+  speedboat: "🚤",
+  anchor: "⚓",
+  bike: "🚴",
+  bicycle: "🚲",
+  motorcycle: "🏍️",
+  scooter: "🛴",
+  truck: "🚚",
+  ambulance: "🚑",
+  firetruck: "🚒",
+  policecar: "🚓",
+  racecar: "🏎️",
+  tractor: "🚜",
+  helicopter: "🚁",
+  rocket: "🚀",
+  ufo: "🛸",
+  satellite: "🛰️",
+  fuel: "⛽",
+  trafficlight: "🚦",
+  map: "🗺️",
+  compass: "🧭",
+  luggage: "🧳",
+  suitcase: "🧳",
+  travel: "🧳",
+  holiday: "🏖️",
+  vacation: "🏖️",
+  beach: "🏖️",
+  island: "🏝️",
+  desert: "🏜️",
+  camping: "🏕️",
+  tent: "⛺",
+  house: "🏠",
+  home: "🏠",
+  office: "🏢",
+  hospital: "🏥",
+  bank: "🏦",
+  hotel: "🏨",
+  school: "🏫",
+  factory: "🏭",
+  castle: "🏰",
+  church: "⛪",
+  mosque: "🕌",
+  temple: "🛕",
+  synagogue: "🕍",
+  stadium: "🏟️",
+  statueofliberty: "🗽",
+  eiffeltower: "🗼",
+  tower: "🗼",
+  ferriswheel: "🎡",
+  rollercoaster: "🎢",
+  fountain: "⛲",
+  city: "🏙️",
+  night: "🌃",
+  bridge: "🌉",
+
+  // Objects
+  camera: "📷",
+  photo: "📸",
+  video: "📹",
+  videocamera: "📹",
+  phone: "📱",
+  mobile: "📱",
+  telephone: "☎️",
+  call: "📞",
+  computer: "💻",
+  laptop: "💻",
+  desktop: "🖥️",
+  keyboard: "⌨️",
+  mousecomputer: "🖱️",
+  printer: "🖨️",
+  tv: "📺",
+  radio: "📻",
+  battery: "🔋",
+  plug: "🔌",
+  bulb: "💡",
+  idea: "💡",
+  flashlight: "🔦",
+  candle: "🕯️",
+  book: "📖",
+  books: "📚",
+  notebook: "📓",
+  newspaper: "📰",
+  pencil: "✏️",
+  pen: "🖊️",
+  memo: "📝",
+  note: "📝",
+  clipboard: "📋",
+  calendar: "📅",
+  pin: "📌",
+  pushpin: "📌",
+  paperclip: "📎",
+  scissors: "✂️",
+  ruler: "📏",
+  folder: "📁",
+  chart: "📈",
+  graph: "📊",
+  mail: "✉️",
+  email: "📧",
+  envelope: "✉️",
+  inbox: "📥",
+  outbox: "📤",
+  package: "📦",
+  parcel: "📦",
+  postbox: "📮",
+  mailbox: "📫",
+  lock: "🔒",
+  unlock: "🔓",
+  key: "🔑",
+  hammer: "🔨",
+  wrench: "🔧",
+  tools: "🛠️",
+  gear: "⚙️",
+  magnet: "🧲",
+  microscope: "🔬",
+  telescope: "🔭",
+  pill: "💊",
+  syringe: "💉",
+  bandage: "🩹",
+  stethoscope: "🩺",
+  dna: "🧬",
+  broom: "🧹",
+  toiletpaper: "🧻",
+  soap: "🧼",
+  bathtub: "🛁",
+  shower: "🚿",
+  toilet: "🚽",
+  bed: "🛏️",
+  couch: "🛋️",
+  chair: "🪑",
+  door: "🚪",
+  window: "🪟",
+  mirror: "🪞",
+  shoppingcart: "🛒",
+  shopping: "🛍️",
+  shoppingbags: "🛍️",
+  cash: "💰",
+  moneybag: "💰",
+  dollar: "💵",
+  euro: "💶",
+  pound: "💷",
+  yen: "💴",
+  creditcard: "💳",
+  coin: "🪙",
+  time: "⏰",
+  clock: "⏰",
+  alarm: "⏰",
+  mytime: "⏰",
+  watch: "⌚",
+  hourglass: "⌛",
+  stopwatch: "⏱️",
+  timer: "⏲️",
+  umbrella: "☂️",
+  glasses: "👓",
+  eyeglasses: "👓",
+  tie: "👔",
+  shirt: "👕",
+  tshirt: "👕",
+  jeans: "👖",
+  dress: "👗",
+  bikini: "👙",
+  hat: "🎩",
+  tophat: "🎩",
+  cap: "🧢",
+  crown: "👑",
+  handbag: "👜",
+  purse: "👛",
+  backpack: "🎒",
+  shoe: "👞",
+  sneaker: "👟",
+  heels: "👠",
+  boots: "👢",
+  lipstick: "💄",
+  scarf: "🧣",
+  gloves: "🧤",
+  socks: "🧦",
+  bell: "🔔",
+  nobell: "🔕",
+  megaphone: "📣",
+  loudspeaker: "📢",
+  speaker: "🔊",
+  mute: "🔇",
+  magnifier: "🔍",
+  search: "🔍",
+  link: "🔗",
+  chain: "⛓️",
+  shield: "🛡️",
+  sword: "🗡️",
+  swords: "⚔️",
+  bowandarrow: "🏹",
+  gun: "🔫",
+  bomb: "💣",
+  knife: "🔪",
+  axe: "🪓",
+  crystalball: "🔮",
+  magicwand: "🪄",
+  amulet: "🧿",
+  flag: "🚩",
+  whiteflag: "🏳️",
+  blackflag: "🏴",
+  checkeredflag: "🏁",
+  finish: "🏁",
+  rainbowflag: "🏳️‍🌈",
+  prideflag: "🏳️‍🌈",
+  transflag: "🏳️‍⚧️",
+  pirateflag: "🏴‍☠️",
+  smoking: "🚬",
+  smoke: "🚬",
+  cigarette: "🚬",
+  skype: "☁️",
+  skip: "⏭️",
+  myspace: "🌐",
+
+  // Symbols
+  zzz: "💤",
+  boom: "💥",
+  collision: "💥",
+  sweatdrops: "💦",
+  dash: "💨",
+  speech: "💬",
+  talk: "💬",
+  chat: "💬",
+  thought: "💭",
+  thoughtbubble: "💭",
+  anger: "💢",
+  dizzysymbol: "💫",
+  hundred: "💯",
+  "100": "💯",
+  dont: "🚫",
+  forbidden: "🚫",
+  noentry: "⛔",
+  warning: "⚠️",
+  exclamation: "❗",
+  question: "❓",
+  interrobang: "⁉️",
+  check: "✅",
+  checkmark: "✔️",
+  tick: "✔️",
+  cross: "❌",
+  crossmark: "❌",
+  plus: "➕",
+  minus: "➖",
+  infinity: "♾️",
+  recycle: "♻️",
+  peacesign: "☮️",
+  yinyang: "☯️",
+  atom: "⚛️",
+  radioactive: "☢️",
+  biohazard: "☣️",
+  copyright: "©️",
+  registered: "®️",
+  trademark: "™️",
+  sos: "🆘",
+  new: "🆕",
+  free: "🆓",
+  up: "🆙",
+  vs: "🆚",
+  top: "🔝",
+  soon: "🔜",
+  back: "🔙",
+  end: "🔚",
+  on: "🔛",
+  arrowup: "⬆️",
+  arrowdown: "⬇️",
+  arrowleft: "⬅️",
+  arrowright: "➡️",
+  refresh: "🔄",
+  repeat: "🔁",
+  shuffle: "🔀",
+  play: "▶️",
+  pause: "⏸️",
+  fastforward: "⏩",
+  rewind: "⏪",
+  redcircle: "🔴",
+  bluecircle: "🔵",
+  greencircle: "🟢",
+  yellowcircle: "🟡",
+  blackcircle: "⚫",
+  whitecircle: "⚪",
+  mediumwhitesquare: "◻️",
+  male: "♂️",
+  female: "♀️",
+  aries: "♈",
+  taurus: "♉",
+  gemini: "♊",
+  cancer: "♋",
+  leo: "♌",
+  virgo: "♍",
+  libra: "♎",
+  scorpio: "♏",
+  sagittarius: "♐",
+  capricorn: "♑",
+  aquarius: "♒",
+  pisces: "♓",
+
+  // Skype-only emoticons, mapped to the nearest emoji
+  holdon: "✋",
+  hungover: "🥴",
+  wtf: "😳",
+  ttyl: "👋",
+  brb: "🔙",
+  bowled: "🏏",
+  catbounce: "🐈",
+  dogbounce: "🐕",
+  polarbearbounce: "🐻‍❄️",
+  movember: "👨",
+  mustache: "👨",
+  beard: "🧔",
+  bartlett: "🧑",
+  ladyvamp: "🧛",
+  maradona: "⚽",
+  pele: "⚽",
+  ronaldo: "⚽",
+  bollylove: "😍",
+  bollywood: "🎬",
+  tubelight: "💡",
+  stareyesface: "🤩",
+  lang: "💬",
+  heidy: "🐿️",
+  sheepy: "🐑",
+  gottarun: "🏃",
+  mumday: "💐",
+  dadday: "👔",
+  kya: "🤔",
+  bhangra: "🕺",
+  chai: "☕",
+  auto: "🛺",
+  rickshaw: "🛺",
+  priidu: "😄",
+  talkinghead: "🗣️",
+  bottlecap: "🍾",
+  cwl: "🤣",
+  ontheloo: "🚽",
+  headphonesbounce: "🎧",
+  cheerleader: "📣",
+  hurry: "🏃",
+  slap: "👋",
+  nahi: "🙅",
+  gangnam: "🕺",
+  learn: "📚",
+  goodluck: "🍀",
+  lostmoney: "💸",
+  oi: "😮",
+  soccerball: "⚽",
+  zombiehand: "🧟",
+  dreaming: "💭",
+  spaceship: "🚀",
+  sarcastic: "🙄",
+  tumbleweedbounce: "🌾",
+  loveearth: "🌍",
+  facewithtear: "🥲",
+
+  // Typed text shortcuts
+  ":)": "😊",
+  ":(": "🙁",
+  ":d": "😃",
+  ":p": "😛",
+  ";)": "😉",
+  ":o": "😮",
+  ":'(": "😢",
+  ":|": "😐",
+  ":*": "😘",
+  ":x": "😙",
+  ">:)": "😈",
+  "<3": "❤️",
+  "</3": "💔",
+  ":3": "😙",
+  ":@": "😠",
+  "^_^": "😊",
+  "-_-": "😑",
+  o_o: "😳",
+  "<o>": "👼",
+  "8-)": "😎",
+  ":s": "😕",
+  ":$": "😳",
+  "|-)": "😴",
+
+  d: "😃",
+  p: "😛",
+  o: "😮",
+  s: "😕",
+  x: "🤐",
+  y: "👍",
+  n: "👎",
+  "8": "😎",
+  "|": "😐",
+  "*": "😘",
+  "@": "😠",
+  "^": "😊",
+};
+
+/** Fitzpatrick modifiers for Skype's tone suffixes _1 (lightest) to _5 (darkest) */
+export const SKIN_TONE_MODIFIERS = ["🏻", "🏼", "🏽", "🏾", "🏿"] as const;
+
+export const EMOTICON_ID_PATTERNS = {
+  /** (flag:GB) and flag_gb, with an ISO 3166 country code */
+  Flag: /^flag[:_]([a-z]{2})$/,
+  /** Skin-tone variants: a known id followed by _1 to _5 */
+  SkinTone: /^(.+)_([1-5])$/,
+  /** Newer ids lead with their code points, e.g. 1f440_eyes or 1f469_200d_1f3a8_… */
+  CodePoints: /^((?:[0-9a-f]{4,5}_)+)[a-z]/,
+} as const;
@@ -0,0 +1,6 @@
+export const DB_NAME = "skypelens";
+export const DB_VERSION = 1;
+export const EXPORTS_STORE = "exports";
+export const CONVERSATIONS_STORE = "conversations";
+export const MEDIA_STORE = "media";
+export const STORAGE_BATCH_SIZE = 200;
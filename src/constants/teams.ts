@@ -0,0 +1,20 @@
+/** Top-level keys of a Teams (free) chat export */
+export const TEAMS_CHATS_KEY = "chats";
+export const TEAMS_USER_KEY = "user";
+
+/**
+ * Regex patterns to convert Teams message HTML into the markup Skype messages use,
+ * so it renders through the same content pipeline.
+ */
+export const TEAMS_HTML_PATTERNS = [
+  [/<\/p>\s*<p[^>]*>/gi, "<br>"], // Paragraph breaks
+  [/<\/?(?:p|div|span)[^>]*>/gi, ""], // Remove block/inline wrappers
+  [/<attachment[^>]*>\s*<\/attachment>/gi, ""], // Attachment placeholders (sent as separate messages)
+  [/<img[^>]*>/gi, "📷 Image"], // Inline images are not part of the export
+] as const;
+
+export const TEAMS_EVENT_PREFIX = "#microsoft.graph.";
+export const TEAMS_EVENT_SUFFIX = "EventMessageDetail";
+
+/** Attachment URLs that point at a media object, e.g. https://.../v1/objects/{id}/views/imgo */
+export const TEAMS_MEDIA_OBJECT_PATTERN = /\/v1\/objects\/([a-zA-Z0-9-]+)/;
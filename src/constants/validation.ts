@@ -0,0 +1,34 @@
+/** Message types handled by a dedicated branch in processMessage */
+export const KNOWN_MESSAGE_TYPES = new Set([
+  "RichText",
+  "RichText/UriObject",
+  "RichText/Media_Video",
+  "RichText/Media_GenericFile",
+  "RichText/Media_Album",
+  "RichText/Media_AudioMsg",
+  "RichText/Contacts",
+  "RichText/Location",
+  "RichText/Media_Card",
+  "SwiftCard",
+  "Poll",
+  "Translation",
+  "Notice",
+  "PopCard",
+  "Text",
+]);
+
+/** Message type families handled by prefix in processMessage */
+export const KNOWN_MESSAGE_TYPE_PREFIXES = [
+  "ThreadActivity",
+  "Event/Call",
+  "InviteFreeRelationshipChanged",
+] as const;
+
+/** Message types whose content references a file in the export's media folder */
+export const MEDIA_MESSAGE_TYPES = new Set([
+  "RichText/UriObject",
+  "RichText/Media_Video",
+  "RichText/Media_AudioMsg",
+]);
+
+export const DIAGNOSTIC_SAMPLE_LIMIT = 50;
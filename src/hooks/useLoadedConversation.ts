@@ -0,0 +1,57 @@
+import { useState, useEffect } from "react";
+import type { Conversation } from "../types/messages";
+import { loadConversation } from "../utils/conversationLoader";
+
+interface LoadedConversation {
+  source: Conversation;
+  result: Conversation | null;
+  error: string | null;
+}
+
+/**
+ * Resolves the selected conversation to one with its full message list.
+ * Conversations imported from an index are read from the export file first;
+ * all others are returned as they are.
+ */
+export function useLoadedConversation(conversation: Conversation | null) {
+  const [loaded, setLoaded] = useState<LoadedConversation | null>(null);
+
+  useEffect(() => {
+    if (!conversation?.index) return;
+
+    let cancelled = false;
+    loadConversation(conversation)
+      .then((result) => {
+        if (!cancelled) setLoaded({ source: conversation, result, error: null });
+      })
+      .catch((error) => {
+        console.error("[useLoadedConversation] Failed to load conversation:", {
+          error,
+          conversationId: conversation.id,
+        });
+        if (!cancelled) {
+          setLoaded({
+            source: conversation,
+            result: null,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversation]);
+
+  if (!conversation?.index) {
+    return { conversation, isLoading: false, error: null };
+  }
+
+  // Ignore results that belong to the previously selected conversation
+  const current = loaded?.source === conversation ? loaded : null;
+  return {
+    conversation: current?.result ?? null,
+    isLoading: current === null,
+    error: current?.error ?? null,
+  };
+}
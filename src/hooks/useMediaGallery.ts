@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import { useMessageStore } from "../store/messageStore";
 import type { MediaItem, ProcessedMessage } from "../types/messages";
 import { debugLog } from "../utils/debug";
+import { getConversationKey } from "../utils/exportMerge";
 import {
   MEDIA_GALLERY_CHUNK_SIZE,
   IDLE_TIMEOUT,
@@ -22,17 +23,19 @@ function scheduleIdleCallback(callback: () => void, timeout: number): void {
  * unnecessary work. Processes in chunks using idle callbacks for performance.
  */
 export function useMediaGallery(enabled: boolean = false) {
-  const { getSelectedConversation, isRoleSwapped, getProcessedMessages } =
+  const { getSelectedConversation, getViewAs, getProcessedMessages } =
     useMessageStore();
   const conversation = getSelectedConversation();
-  const swapped = conversation ? isRoleSwapped(conversation.id) : false;
+  const conversationKey = conversation ? getConversationKey(conversation) : null;
+  const viewAs = conversationKey ? getViewAs(conversationKey) : null;
 
   const processedMessagesLength = useMessageStore((state) => {
-    const selectedId = state.selectedConversationId;
-    if (!selectedId) return 0;
-    const isSwapped = state.swappedRoles[selectedId] || false;
-    const cache = state.processedMessagesCache[selectedId];
-    const messages = cache?.[isSwapped ? "swapped" : "normal"];
+    const selectedKey = state.selectedConversationKey;
+    if (!selectedKey) return 0;
+    const messages = state.getProcessedMessages(
+      selectedKey,
+      state.viewAsParticipants[selectedKey] ?? null,
+    );
     return messages?.length ?? 0;
   });
 
@@ -53,7 +56,7 @@ export function useMediaGallery(enabled: boolean = false) {
       // Extract media items from current chunk
       for (let i = index; i < end; i++) {
         const msg = processed[i];
-        if (msg.type === "media" && msg.mediaUrl) {
+        if (msg.type === "media" && msg.mediaUrl && !msg.audio) {
           items.push({
             id: msg.id,
             mediaId: msg.mediaUrl,
@@ -89,7 +92,7 @@ export function useMediaGallery(enabled: boolean = false) {
   useEffect(() => {
     lastProcessedCountRef.current = 0;
     processingRef.current = false;
-  }, [conversation?.id, swapped]);
+  }, [conversationKey, viewAs]);
 
   useEffect(() => {
     if (!conversation) {
@@ -103,7 +106,10 @@ export function useMediaGallery(enabled: boolean = false) {
       return;
     }
 
-    const processed = getProcessedMessages(conversation.id, swapped);
+    const processed = getProcessedMessages(
+      getConversationKey(conversation),
+      viewAs,
+    );
     if (!processed) {
       return;
     }
@@ -126,7 +132,7 @@ export function useMediaGallery(enabled: boolean = false) {
           console.error("[MediaGallery] Failed to process media items:", {
             error,
             conversationId: conversation.id,
-            swapped,
+            viewAs,
             messageCount: processed.length,
           });
           setIsLoading(false);
@@ -139,7 +145,7 @@ export function useMediaGallery(enabled: boolean = false) {
   }, [
     enabled,
     conversation,
-    swapped,
+    viewAs,
     processedMessagesLength,
     getProcessedMessages,
     processChunk,
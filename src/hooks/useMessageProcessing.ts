@@ -1,34 +1,61 @@
-import { useState, useEffect, startTransition } from "react";
-import { processMessages } from "../utils/messageProcessor";
-import type { ProcessedMessage, Conversation, SkypeExport } from "../types/messages";
-import { INITIAL_MESSAGE_COUNT } from "../constants/messages";
+import {
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+  startTransition,
+} from "react";
+import type {
+  Message,
+  ProcessedMessage,
+  Conversation,
+} from "../types/messages";
+import type {
+  MessageProcessorRequest,
+  MessageProcessorResponse,
+} from "../types/processor";
+import {
+  INITIAL_MESSAGE_COUNT,
+  PROCESSED_CACHE_UPDATE_INTERVAL,
+} from "../constants/messages";
+import { getThreadMembers } from "../utils/messageProcessor";
+import { getConversationKey } from "../utils/exportMerge";
 
 interface UseMessageProcessingProps {
   conversation: Conversation | null;
-  exportData: SkypeExport | null;
-  swapped: boolean;
+  userId: string | null;
+  mediaFiles?: Map<string, File>;
+  /** Participant the conversation is shown as; null for the export owner */
+  viewAs: string | null;
   getProcessedMessages: (
     conversationId: string,
-    isSwapped: boolean,
+    viewAs: string | null,
   ) => ProcessedMessage[] | null;
   cacheProcessedMessages: (
     conversationId: string,
     messages: ProcessedMessage[],
-    isSwapped: boolean,
+    viewAs: string | null,
+    done: boolean,
   ) => void;
+  isProcessingDone: (conversationId: string, viewAs: string | null) => boolean;
 }
 
 /**
- * Processes messages for display with caching support.
- * Caches processed messages to avoid reprocessing on re-renders.
- * Handles incremental loading and role swapping.
+ * Processes messages for display in a worker, with caching support.
+ * The worker processes the whole conversation in the background and streams batches
+ * into the processed messages cache, written at most every
+ * PROCESSED_CACHE_UPDATE_INTERVAL while it runs; the view shows the first `loadedMessageCount`
+ * of them, so loading more only re-slices what has already been processed.
+ * Handles incremental loading and viewing as another participant.
  */
 export function useMessageProcessing({
   conversation,
-  exportData,
-  swapped,
+  userId,
+  mediaFiles,
+  viewAs,
   getProcessedMessages,
   cacheProcessedMessages,
+  isProcessingDone,
 }: UseMessageProcessingProps) {
   const [processedMessages, setProcessedMessages] = useState<
     ProcessedMessage[]
@@ -36,85 +63,154 @@ export function useMessageProcessing({
   const [loadedMessageCount, setLoadedMessageCount] = useState(
     INITIAL_MESSAGE_COUNT,
   );
+  const workerRef = useRef<Worker | null>(null);
+  const sessionIdRef = useRef(0);
+  const runningRef = useRef<{ key: string; messages: Message[] } | null>(null);
+  const [failure, setFailure] = useState<{ key: string; message: string } | null>(
+    null,
+  );
+
+  useEffect(() => {
+    const worker = new Worker(
+      new URL("../workers/messageProcessor.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
 
   useEffect(() => {
     if (conversation) {
       setLoadedMessageCount(INITIAL_MESSAGE_COUNT);
     }
-  }, [conversation, swapped]);
+  }, [conversation, viewAs]);
+
+  const conversationKey = conversation ? getConversationKey(conversation) : null;
+  const sessionKey = conversationKey ? `${conversationKey}:${viewAs ?? ""}` : null;
+  const cached = conversationKey
+    ? getProcessedMessages(conversationKey, viewAs)
+    : null;
+  // The cache is cleared when exports change, which has to restart processing
+  const cacheMissing = cached === null;
+
+  const threadProperties = conversation?.threadProperties;
+  const members = useMemo(
+    () => getThreadMembers({ threadProperties: threadProperties ?? null }),
+    [threadProperties],
+  );
 
   useEffect(() => {
+    const worker = workerRef.current;
     if (
-      !conversation?.id ||
+      !worker ||
+      !conversationKey ||
+      !sessionKey ||
       !conversation?.MessageList ||
-      !exportData?.userId
+      !userId
     ) {
-      startTransition(() => setProcessedMessages([]));
       return;
     }
 
-    const cachedAll = getProcessedMessages(conversation.id, swapped);
-    const totalMessages = conversation.MessageList.length;
-    const messagesToLoad = Math.min(loadedMessageCount, totalMessages);
-
-    if (cachedAll && cachedAll.length >= totalMessages) {
-      startTransition(() =>
-        setProcessedMessages(cachedAll.slice(0, messagesToLoad)),
-      );
+    const messages = conversation.MessageList;
+    const key = sessionKey;
+    const current = getProcessedMessages(conversationKey, viewAs);
+    const running = runningRef.current;
+    if (
+      current &&
+      (isProcessingDone(conversationKey, viewAs) ||
+        (running?.key === key && running.messages === messages))
+    ) {
       return;
     }
 
-    if (cachedAll && cachedAll.length >= messagesToLoad) {
-      startTransition(() =>
-        setProcessedMessages(cachedAll.slice(0, messagesToLoad)),
-      );
-      return;
-    }
+    // Starting a session replaces the previous one in the worker
+    const sessionId = ++sessionIdRef.current;
+    runningRef.current = { key, messages };
+    setFailure(null);
+    const processed: ProcessedMessage[] = [];
+    let lastCacheUpdate = 0;
 
-    if (cachedAll && cachedAll.length > 0 && cachedAll.length < messagesToLoad) {
-      const timeoutId = setTimeout(() => {
-        const processed = processMessages(
-          conversation.MessageList,
-          exportData.userId,
-          swapped,
-          exportData.mediaFiles,
-          messagesToLoad,
-        );
-        cacheProcessedMessages(conversation.id, processed, swapped);
-        startTransition(() => setProcessedMessages(processed));
-      }, 0);
+    worker.onmessage = (event: MessageEvent<MessageProcessorResponse>) => {
+      const response = event.data;
+      if (response.sessionId !== sessionId) return;
 
-      return () => clearTimeout(timeoutId);
-    }
+      if (response.type === "error") {
+        console.error("[useMessageProcessing] Message processing failed:", {
+          error: response.message,
+          conversationKey,
+          processedMessages: processed.length,
+        });
+        // Opening the conversation again starts over
+        if (runningRef.current?.key === key) runningRef.current = null;
+        setFailure({ key, message: response.message });
+        return;
+      }
+
+      for (const message of response.messages) processed.push(message);
+
+      // The first batch fills the first screen; after that the cache, and everything
+      // reading it, is only updated every so often. Each update is a new array, since
+      // readers compare by reference; the finished list is not changed again
+      const now = Date.now();
+      if (
+        response.done ||
+        lastCacheUpdate === 0 ||
+        now - lastCacheUpdate >= PROCESSED_CACHE_UPDATE_INTERVAL
+      ) {
+        cacheProcessedMessages(
+          conversationKey,
+          response.done ? processed : processed.slice(),
+          viewAs,
+          response.done,
+        );
+        lastCacheUpdate = now;
+      }
+    };
 
-    const timeoutId = setTimeout(() => {
-      const processed = processMessages(
-        conversation.MessageList,
-        exportData.userId,
-        swapped,
-        exportData.mediaFiles,
-        messagesToLoad,
-      );
-      cacheProcessedMessages(conversation.id, processed, swapped);
-      startTransition(() => setProcessedMessages(processed));
-    }, 0);
-
-    return () => clearTimeout(timeoutId);
+    worker.postMessage({
+      type: "start",
+      sessionId,
+      messages,
+      userId,
+      viewerId: viewAs ?? userId,
+      mediaFiles,
+      members,
+    } satisfies MessageProcessorRequest);
   }, [
-    conversation?.id,
+    conversationKey,
+    sessionKey,
     conversation?.MessageList,
-    exportData?.userId,
-    exportData?.mediaFiles,
-    swapped,
-    loadedMessageCount,
+    members,
+    userId,
+    mediaFiles,
+    viewAs,
+    cacheMissing,
     getProcessedMessages,
     cacheProcessedMessages,
+    isProcessingDone,
   ]);
 
+  const cachedRef = useRef(cached);
+  cachedRef.current = cached;
+  const visibleCount = Math.min(loadedMessageCount, cached?.length ?? 0);
+  // Batches only ever extend the cached list, so the visible slice only changes when
+  // it grows or a new list (another conversation or participant) starts
+  const firstCached = cached?.[0];
+
+  useEffect(() => {
+    const messages = cachedRef.current?.slice(0, visibleCount) ?? [];
+    startTransition(() => setProcessedMessages(messages));
+  }, [firstCached, visibleCount]);
+
   return {
     processedMessages,
     loadedMessageCount,
     setLoadedMessageCount,
+    /** Why processing the shown conversation failed, if it did */
+    processingError: failure?.key === sessionKey ? failure.message : null,
   };
 }
-
@@ -12,7 +12,7 @@ interface UseMessageScrollProps {
   conversation: Conversation | null;
   loadedMessageCount: number;
   isLoadingMore: boolean;
-  swapped: boolean;
+  viewAs: string | null;
   setLoadedMessageCount: (updater: (prev: number) => number) => void;
   setIsLoadingMore: (value: boolean) => void;
 }
@@ -27,7 +27,7 @@ export function useMessageScroll({
   conversation,
   loadedMessageCount,
   isLoadingMore,
-  swapped,
+  viewAs,
   setLoadedMessageCount,
   setIsLoadingMore,
 }: UseMessageScrollProps) {
@@ -37,7 +37,7 @@ export function useMessageScroll({
   useEffect(() => {
     previousScrollHeightRef.current = 0;
     previousScrollTopRef.current = 0;
-  }, [conversation?.id, swapped]);
+  }, [conversation?.id, viewAs]);
 
   /**
    * Auto-scrolls to bottom when conversation changes.
@@ -86,7 +86,7 @@ export function useMessageScroll({
     };
 
     requestAnimationFrame(scrollToBottom);
-  }, [conversation, swapped, scrollContainerRef]);
+  }, [conversation, viewAs, scrollContainerRef]);
 
   const loadMoreMessages = useCallback(() => {
     if (!conversation || !scrollContainerRef.current || isLoadingMore) return;
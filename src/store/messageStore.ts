@@ -3,124 +3,399 @@ import type {
   Conversation,
   SkypeExport,
   ProcessedMessage,
+  TranslationMode,
 } from "../types/messages";
+import type { ExportHeader } from "../types/parser";
 import { debugLog } from "../utils/debug";
+import {
+  getConversationKey,
+  mergeExports,
+  tagConversations,
+} from "../utils/exportMerge";
+import { hasDiagnosticIssues } from "../utils/exportValidator";
+import { MERGED_EXPORT_ID } from "../constants/exports";
 
+/** Processed messages by conversation, then by who the conversation is shown as */
 interface ProcessedMessagesCache {
-  [conversationId: string]: {
-    normal: ProcessedMessage[];
-    swapped: ProcessedMessage[];
-  };
+  [conversationId: string]: Record<
+    string,
+    {
+      messages: ProcessedMessage[];
+      /** Whether the whole conversation has been processed */
+      done: boolean;
+    }
+  >;
 }
 
+// Cache key for the export owner's own view
+const OWNER_VIEW = "";
+
 interface MessageStore {
+  exports: SkypeExport[];
+  activeExportId: string | null;
   conversations: Conversation[];
-  selectedConversationId: string | null;
+  /** `getConversationKey` of the open conversation; ids repeat across exports */
+  selectedConversationKey: string | null;
   exportData: SkypeExport | null;
-  swappedRoles: Record<string, boolean>;
+  /** Participant each conversation is shown as, when it is not the export owner */
+  viewAsParticipants: Record<string, string>;
+  hiddenTombstones: Record<string, boolean>;
+  translationModes: Record<string, TranslationMode>;
   processedMessagesCache: ProcessedMessagesCache;
+  importProgress: number | null;
+  importingExportId: string | null;
+  isAddingExport: boolean;
+  diagnosticsOpened: boolean;
+  /** Why the last import could not be kept on this device, until dismissed */
+  exportSaveError: string | null;
   setExportData: (data: SkypeExport) => void;
-  selectConversation: (id: string) => void;
+  appendConversations: (
+    header: ExportHeader,
+    conversations: Conversation[],
+  ) => void;
+  setImportProgress: (progress: number) => void;
+  resetImport: () => void;
+  setExportSaveError: (message: string | null) => void;
+  selectExport: (exportId: string) => void;
+  startAddingExport: () => void;
+  cancelAddingExport: () => void;
+  openDiagnostics: () => void;
+  closeDiagnostics: () => void;
+  getExportForConversation: (conversation: Conversation) => SkypeExport | null;
+  selectConversation: (key: string) => void;
   getSelectedConversation: () => Conversation | null;
-  toggleRoleSwap: (conversationId: string) => void;
-  isRoleSwapped: (conversationId: string) => boolean;
+  setViewAs: (conversationId: string, participantId: string | null) => void;
+  getViewAs: (conversationId: string) => string | null;
+  toggleTombstones: (conversationId: string) => void;
+  areTombstonesHidden: (conversationId: string) => boolean;
+  setTranslationMode: (conversationId: string, mode: TranslationMode) => void;
+  getTranslationMode: (conversationId: string) => TranslationMode;
   cacheProcessedMessages: (
     conversationId: string,
     messages: ProcessedMessage[],
-    isSwapped: boolean,
+    viewAs: string | null,
+    done: boolean,
   ) => void;
   getProcessedMessages: (
     conversationId: string,
-    isSwapped: boolean,
+    viewAs: string | null,
   ) => ProcessedMessage[] | null;
+  isProcessingDone: (conversationId: string, viewAs: string | null) => boolean;
+}
+
+function sortConversations(conversations: Conversation[]): Conversation[] {
+  const filteredConversations = conversations.filter(
+    (conv) => conv.MessageList?.length > 0,
+  );
+
+  filteredConversations.sort((a, b) => {
+    const aLastMessage = a.MessageList[a.MessageList.length - 1];
+    const bLastMessage = b.MessageList[b.MessageList.length - 1];
+
+    if (!aLastMessage) return 1;
+    if (!bLastMessage) return -1;
+
+    const aTime = new Date(aLastMessage.originalarrivaltime).getTime();
+    const bTime = new Date(bLastMessage.originalarrivaltime).getTime();
+    return bTime - aTime;
+  });
+
+  return filteredConversations;
+}
+
+/**
+ * Derives what the viewer shows for the active export: a single export as-is,
+ * or all loaded exports merged into one.
+ */
+function buildExportView(
+  exports: SkypeExport[],
+  activeExportId: string | null,
+  selectedConversationKey: string | null,
+): Pick<
+  MessageStore,
+  "exportData" | "conversations" | "selectedConversationKey"
+> {
+  const exportData =
+    activeExportId === MERGED_EXPORT_ID
+      ? mergeExports(exports)
+      : (exports.find((data) => data.id === activeExportId) ?? null);
+  const conversations = exportData
+    ? sortConversations(exportData.conversations)
+    : [];
+
+  // Keep the current selection if it still exists (e.g. while streaming)
+  const selectedKey = conversations.some(
+    (conv) => getConversationKey(conv) === selectedConversationKey,
+  )
+    ? selectedConversationKey
+    : conversations[0]
+      ? getConversationKey(conversations[0])
+      : null;
+
+  return {
+    exportData,
+    conversations,
+    selectedConversationKey: selectedKey,
+  };
+}
+
+function createExportId(): string {
+  return crypto.randomUUID();
 }
 
 export const useMessageStore = create<MessageStore>((set, get) => ({
+  exports: [],
+  activeExportId: null,
   conversations: [],
-  selectedConversationId: null,
+  selectedConversationKey: null,
   exportData: null,
-  swappedRoles: {},
+  viewAsParticipants: {},
+  hiddenTombstones: {},
+  translationModes: {},
   processedMessagesCache: {},
+  importProgress: null,
+  importingExportId: null,
+  isAddingExport: false,
+  diagnosticsOpened: false,
+  exportSaveError: null,
 
   setExportData: (data) => {
-    const filteredConversations = data.conversations.filter(
-      (conv) => conv.MessageList?.length > 0,
-    );
+    set((state) => {
+      // A streamed import already has an entry; replace it with the complete data
+      const id = state.importingExportId ?? createExportId();
+      const loadedExport: SkypeExport = {
+        ...data,
+        id,
+        conversations: tagConversations(data.conversations, id),
+      };
+      const exports = state.importingExportId
+        ? state.exports.map((item) => (item.id === id ? loadedExport : item))
+        : [...state.exports, loadedExport];
 
-    filteredConversations.sort((a, b) => {
-      const aLastMessage = a.MessageList[a.MessageList.length - 1];
-      const bLastMessage = b.MessageList[b.MessageList.length - 1];
+      debugLog("[messageStore] Export loaded:", {
+        exportId: id,
+        userId: data.userId,
+        totalExports: exports.length,
+      });
 
-      if (!aLastMessage) return 1;
-      if (!bLastMessage) return -1;
+      return {
+        exports,
+        activeExportId: id,
+        ...buildExportView(exports, id, state.selectedConversationKey),
+        processedMessagesCache: {},
+        importProgress: null,
+        importingExportId: null,
+        isAddingExport: false,
+        // Surface the report straight after import when something looked wrong
+        diagnosticsOpened: data.diagnostics
+          ? hasDiagnosticIssues(data.diagnostics)
+          : false,
+        exportSaveError: null,
+      };
+    });
+  },
 
-      const aTime = new Date(aLastMessage.originalarrivaltime).getTime();
-      const bTime = new Date(bLastMessage.originalarrivaltime).getTime();
-      return bTime - aTime;
+  appendConversations: (header, conversations) => {
+    set((state) => {
+      const id = state.importingExportId ?? createExportId();
+      const existing = state.exports.find((item) => item.id === id);
+      const streamedExport: SkypeExport = {
+        ...header,
+        id,
+        conversations: [
+          ...(existing?.conversations ?? []),
+          ...tagConversations(conversations, id),
+        ],
+      };
+      const exports = existing
+        ? state.exports.map((item) => (item.id === id ? streamedExport : item))
+        : [...state.exports, streamedExport];
+
+      debugLog("[messageStore] Appending streamed conversations:", {
+        exportId: id,
+        batchSize: conversations.length,
+        totalConversations: streamedExport.conversations.length,
+      });
+
+      return {
+        exports,
+        activeExportId: id,
+        ...buildExportView(exports, id, state.selectedConversationKey),
+        processedMessagesCache: existing ? state.processedMessagesCache : {},
+        importProgress: state.importProgress ?? 0,
+        importingExportId: id,
+        isAddingExport: false,
+      };
     });
+  },
 
-    const selectedId = filteredConversations[0]?.id || null;
+  setImportProgress: (progress) => {
+    // Only tracked once streamed conversations are on screen
+    if (get().importProgress !== null) {
+      set({ importProgress: progress });
+    }
+  },
 
-    set({
-      exportData: data,
-      conversations: filteredConversations,
-      selectedConversationId: selectedId,
-      processedMessagesCache: {},
+  resetImport: () => {
+    set((state) => {
+      const exports = state.exports.filter(
+        (item) => item.id !== state.importingExportId,
+      );
+      const activeExportId =
+        state.activeExportId === state.importingExportId
+          ? (exports[0]?.id ?? null)
+          : state.activeExportId;
+
+      return {
+        exports,
+        activeExportId,
+        ...buildExportView(exports, activeExportId, null),
+        processedMessagesCache: {},
+        importProgress: null,
+        importingExportId: null,
+        // Stay on the upload screen so the error is visible
+        isAddingExport: exports.length > 0,
+      };
     });
   },
 
-  selectConversation: (id) => {
-    debugLog("[messageStore] Selecting conversation:", { conversationId: id });
-    set({ selectedConversationId: id });
+  setExportSaveError: (message) => {
+    set({ exportSaveError: message });
+  },
+
+  selectExport: (exportId) => {
+    debugLog("[messageStore] Selecting export:", { exportId });
+    set((state) => ({
+      activeExportId: exportId,
+      ...buildExportView(state.exports, exportId, state.selectedConversationKey),
+      processedMessagesCache: {},
+    }));
+  },
+
+  startAddingExport: () => {
+    set({ isAddingExport: true });
+  },
+
+  cancelAddingExport: () => {
+    set({ isAddingExport: false });
+  },
+
+  openDiagnostics: () => {
+    set({ diagnosticsOpened: true });
+  },
+
+  closeDiagnostics: () => {
+    set({ diagnosticsOpened: false });
+  },
+
+  getExportForConversation: (conversation) => {
+    const { exports, exportData } = get();
+    return (
+      exports.find((data) => data.id === conversation.exportId) ?? exportData
+    );
+  },
+
+  selectConversation: (key) => {
+    debugLog("[messageStore] Selecting conversation:", { conversationKey: key });
+    set({ selectedConversationKey: key });
   },
 
   getSelectedConversation: () => {
-    const { conversations, selectedConversationId } = get();
-    return conversations.find((c) => c.id === selectedConversationId) || null;
+    const { conversations, selectedConversationKey } = get();
+    return (
+      conversations.find(
+        (c) => getConversationKey(c) === selectedConversationKey,
+      ) || null
+    );
   },
 
-  toggleRoleSwap: (conversationId) => {
+  setViewAs: (conversationId, participantId) => {
     set((state) => {
       const newCache = { ...state.processedMessagesCache };
       delete newCache[conversationId];
-      const newSwappedState = !state.swappedRoles[conversationId];
+      const newViewAs = { ...state.viewAsParticipants };
+      if (participantId) {
+        newViewAs[conversationId] = participantId;
+      } else {
+        delete newViewAs[conversationId];
+      }
 
       return {
-        swappedRoles: {
-          ...state.swappedRoles,
-          [conversationId]: newSwappedState,
-        },
+        viewAsParticipants: newViewAs,
         processedMessagesCache: newCache,
       };
     });
   },
 
-  isRoleSwapped: (conversationId) => {
-    return get().swappedRoles[conversationId] || false;
+  getViewAs: (conversationId) => {
+    return get().viewAsParticipants[conversationId] ?? null;
+  },
+
+  toggleTombstones: (conversationId) => {
+    set((state) => ({
+      hiddenTombstones: {
+        ...state.hiddenTombstones,
+        [conversationId]: !state.hiddenTombstones[conversationId],
+      },
+    }));
+  },
+
+  areTombstonesHidden: (conversationId) => {
+    return get().hiddenTombstones[conversationId] || false;
+  },
+
+  setTranslationMode: (conversationId, mode) => {
+    set((state) => ({
+      translationModes: {
+        ...state.translationModes,
+        [conversationId]: mode,
+      },
+    }));
   },
 
-  cacheProcessedMessages: (conversationId, messages, isSwapped) => {
+  getTranslationMode: (conversationId) => {
+    return get().translationModes[conversationId] ?? "translated";
+  },
+
+  cacheProcessedMessages: (conversationId, messages, viewAs, done) => {
     set((state) => ({
       processedMessagesCache: {
         ...state.processedMessagesCache,
         [conversationId]: {
           ...state.processedMessagesCache[conversationId],
-          [isSwapped ? "swapped" : "normal"]: messages,
+          [viewAs ?? OWNER_VIEW]: { messages, done },
         },
       },
     }));
   },
 
-  getProcessedMessages: (conversationId, isSwapped) => {
+  getProcessedMessages: (conversationId, viewAs) => {
+    const cache = get().processedMessagesCache[conversationId];
+    return cache?.[viewAs ?? OWNER_VIEW]?.messages ?? null;
+  },
+
+  isProcessingDone: (conversationId, viewAs) => {
     const cache = get().processedMessagesCache[conversationId];
-    return cache?.[isSwapped ? "swapped" : "normal"] ?? null;
+    return cache?.[viewAs ?? OWNER_VIEW]?.done ?? false;
   },
 }));
 
 export const useConversations = () =>
   useMessageStore((state) => state.conversations);
-export const useSelectedConversationId = () =>
-  useMessageStore((state) => state.selectedConversationId);
+export const useSelectedConversationKey = () =>
+  useMessageStore((state) => state.selectedConversationKey);
 export const useExportData = () => useMessageStore((state) => state.exportData);
+export const useImportProgress = () =>
+  useMessageStore((state) => state.importProgress);
+export const useLoadedExports = () =>
+  useMessageStore((state) => state.exports);
+export const useActiveExportId = () =>
+  useMessageStore((state) => state.activeExportId);
+export const useIsAddingExport = () =>
+  useMessageStore((state) => state.isAddingExport);
+export const useDiagnosticsOpened = () =>
+  useMessageStore((state) => state.diagnosticsOpened);
+export const useExportSaveError = () =>
+  useMessageStore((state) => state.exportSaveError);
 export const useSelectConversation = () =>
   useMessageStore((state) => state.selectConversation);
@@ -0,0 +1,32 @@
+export interface DiagnosticSample {
+  conversationId: string | null;
+  messageId: string | null;
+  issue: string;
+}
+
+/** Where a damaged messages.json broke and how much of it was read in recovery mode */
+export interface RecoveryReport {
+  reason: string;
+  byteOffset: number;
+  /** Index of the conversation being read when the file broke */
+  conversationIndex: number;
+  recoveredConversations: number;
+  /** Messages salvaged from the conversation that broke */
+  salvagedMessages: number;
+}
+
+export interface ExportDiagnostics {
+  generatedAt: string;
+  userId: string | null;
+  exportDate: string | null;
+  conversationCount: number;
+  messageCount: number;
+  /** Structural problems that prevent the export from being displayed */
+  errors: string[];
+  unknownMessageTypes: Record<string, number>;
+  missingFields: Record<string, number>;
+  invalidTimestamps: number;
+  brokenMediaReferences: number;
+  samples: DiagnosticSample[];
+  recovery?: RecoveryReport;
+}
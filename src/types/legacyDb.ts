@@ -0,0 +1,27 @@
+/** Rows read from the Conversations, Messages and Participants tables of a legacy main.db */
+export interface LegacyConversationRow {
+  id: number;
+  identity: string;
+  type: number;
+  displayname: string | null;
+  given_displayname: string | null;
+  meta_topic: string | null;
+  creation_timestamp: number | null;
+}
+
+export interface LegacyMessageRow {
+  id: number;
+  convo_id: number;
+  author: string | null;
+  from_dispname: string | null;
+  timestamp: number;
+  edited_timestamp: number | null;
+  type: number;
+  body_xml: string | null;
+  identities: string | null;
+}
+
+export interface LegacyParticipantRow {
+  convo_id: number;
+  identity: string;
+}
@@ -1,8 +1,13 @@
+import type { ExportDiagnostics, RecoveryReport } from "./diagnostics";
+
 export interface SkypeExport {
+  id?: string;
   userId: string;
   exportDate: string;
   conversations: Conversation[];
   mediaFiles?: Map<string, File>;
+  diagnostics?: ExportDiagnostics;
+  recovery?: RecoveryReport;
 }
 
 export interface Conversation {
@@ -12,6 +17,46 @@ export interface Conversation {
   properties: ConversationProperties;
   threadProperties: ThreadProperties | null;
   MessageList: Message[];
+  exportId?: string;
+  /**
+   * Set on conversations imported from an index of a large file. MessageList then holds
+   * only the newest and the two oldest messages; the rest is read when it is opened.
+   */
+  index?: ConversationIndex;
+}
+
+/** What a conversation is with, from its id and (for phone numbers) its messages */
+export type ConversationKind =
+  | "person"
+  | "group"
+  | "bot"
+  | "phone"
+  | "sms"
+  | "other";
+
+/** Someone the conversation can be shown as */
+export interface ConversationParticipant {
+  id: string;
+  name: string;
+}
+
+/** Byte range of one conversation's JSON within an export file */
+export interface ConversationSource {
+  /** The loaded export the file belongs to, once it has been tagged */
+  exportId?: string;
+  file: File;
+  start: number;
+  end: number;
+}
+
+export interface ConversationIndex {
+  /** Where the full conversation can be read; several once exports are merged */
+  sources: ConversationSource[];
+  /** Messages already in memory, from merged exports that were not indexed */
+  messages: Message[];
+  messageCount: number;
+  /** Removed messages, which messageCount includes */
+  deletedCount: number;
 }
 
 export interface ConversationProperties {
@@ -49,13 +94,28 @@ export interface Message {
   from: string;
   properties?: MessageProperties | null;
   amsreferences?: unknown;
+  /** On an edit, the id of the message it replaces */
+  skypeeditedid?: string;
 }
 
 export interface MessageProperties {
+  /** Call history entry as a JSON string, on Event/Call messages */
   callLog?: string;
+  /** Reactions; some exports store the list as a JSON string */
+  emotions?: MessageEmotion[] | string;
   [key: string]: unknown;
 }
 
+export interface MessageEmotion {
+  key: string;
+  users: Array<{
+    mri: string;
+    /** Milliseconds since the epoch */
+    time: number | string;
+    value?: string;
+  }>;
+}
+
 export interface TranslationContent {
   translations: Array<{
     translation: string;
@@ -70,13 +130,160 @@ export interface ProcessedMessage {
   displayName: string | null;
   timestamp: string;
   content: string;
-  type: "text" | "system" | "call" | "notice" | "media";
+  type:
+    | "text"
+    | "system"
+    | "call"
+    | "notice"
+    | "media"
+    | "contact"
+    | "location"
+    | "card"
+    | "poll";
   from: string;
   isOwner: boolean;
   originalMessageType: string;
   mediaUrl?: string;
+  /** Set on voice messages; they are media but stay out of the gallery */
+  audio?: AudioInfo;
+  reactions?: MessageReaction[];
+  edited?: MessageEdits;
+  /** Set on messages that were removed; their content is empty */
+  deleted?: boolean;
+  quotes?: MessageQuote[];
+  /** Both sides of a translated message, for showing either or both */
+  translation?: MessageTranslation;
+  /** On topic changes, the new conversation topic ("" when it was cleared) */
+  topic?: string;
+  contacts?: SharedContact[];
+  location?: SharedLocation;
+  card?: MessageCard;
+  poll?: MessagePoll;
+  /** Preview metadata for links, as stored in the export */
+  linkPreviews?: LinkPreview[];
+  /** Set on call events */
+  call?: CallDetails;
+  /** Sent by a bot (a 28: identity such as Bing or Copilot) */
+  isBot?: boolean;
+  /** Replies a bot offered with its answer */
+  suggestedReplies?: string[];
+}
+
+/** Relative to whoever the conversation is viewed as */
+export type CallDirection = "incoming" | "outgoing";
+
+/** "started" is a call whose end was not logged (yet) */
+export type CallState = "started" | "connected" | "missed" | "declined";
+
+export interface CallParticipantInfo {
+  id: string;
+  /** "You" for the viewer */
+  name: string;
+  /** Seconds this participant was on the call */
+  durationSeconds: number | null;
+}
+
+export interface CallDetails {
+  state: CallState | null;
+  direction: CallDirection | null;
+  isVideo: boolean;
+  startTime: string | null;
+  endTime: string | null;
+  /** Longest time anyone was on the call, in seconds */
+  durationSeconds: number | null;
+  participants: CallParticipantInfo[];
+}
+
+export interface MessageTranslation {
+  original: string;
+  translated: string;
+  originalLanguage: string | null;
+  translatedLanguage: string | null;
+  /** Language of `content`: the original for the owner's messages, else the translation */
+  contentLanguage: string | null;
+}
+
+/** How translated messages are shown in a conversation */
+export type TranslationMode = "translated" | "original" | "both";
+
+export interface SharedContact {
+  name: string | null;
+  skypeId: string;
+}
+
+export interface SharedLocation {
+  address: string | null;
+  /** In degrees */
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface CardButton {
+  title: string;
+  url: string | null;
+}
+
+/** A hero, thumbnail or Adaptive card reduced to what can be shown offline */
+export interface MessageCard {
+  title: string | null;
+  subtitle: string | null;
+  lines: string[];
+  facts: { title: string; value: string }[];
+  buttons: CardButton[];
+}
+
+export interface MessagePoll {
+  question: string;
+  options: { text: string; votes: number }[];
+  totalVotes: number;
+}
+
+/** What the export recorded about a shared link; nothing is fetched to fill it in */
+export interface LinkPreview {
+  url: string;
+  domain: string;
+  title: string | null;
+  description: string | null;
+  siteName: string | null;
+  /** Remote image, only loaded when the user allows it */
+  thumbnailUrl: string | null;
 }
 
+export interface AudioInfo {
+  filename: string | null;
+  durationMs: number | null;
+}
+
+export interface MessageQuote {
+  authorId: string | null;
+  /** Cleaned display name of the quoted author */
+  author: string | null;
+  timestamp: string | null;
+  /** Id of the quoted message, only when it is in the same conversation */
+  messageId: string | null;
+  content: string;
+}
+
+export interface MessageEdits {
+  /** When the shown version was written, if known */
+  timestamp: string | null;
+  /** Earlier versions, oldest first */
+  history: Array<{ content: string; timestamp: string }>;
+}
+
+export interface MessageReaction {
+  key: string;
+  /** The reaction's emoji, or null when the key is not in the emoji table */
+  emoji: string | null;
+  users: Array<{
+    id: string;
+    name: string;
+    timestamp: string | null;
+  }>;
+}
+
+export type MediaType = "image" | "video" | "audio";
+
 export interface MediaMetadata {
   expiry_date: string;
   filename: string;
@@ -0,0 +1,34 @@
+import type { Conversation, SkypeExport } from "./messages";
+import type { RecoveryReport } from "./diagnostics";
+
+/** Export-level fields that are known before every conversation has been parsed */
+export type ExportHeader = Omit<SkypeExport, "conversations">;
+
+export type ConversationBatchHandler = (
+  header: ExportHeader,
+  conversations: Conversation[],
+) => void;
+
+export interface ParseOptions {
+  /** Keep everything that can be read from a damaged file instead of failing */
+  recover?: boolean;
+}
+
+export interface ExportParserRequest {
+  file: File;
+  recover: boolean;
+  /** Only index conversations, leaving their messages to be read when opened */
+  index: boolean;
+}
+
+export interface LegacyDbParserRequest {
+  file: File;
+}
+
+export type ExportParserResponse =
+  | { type: "member"; key: string; value: unknown }
+  | { type: "conversations"; conversations: Conversation[] }
+  | { type: "progress"; progress: number }
+  | { type: "recovered"; report: RecoveryReport }
+  | { type: "done" }
+  | { type: "error"; message: string; corrupt: boolean };
@@ -0,0 +1,22 @@
+import type { Message, ProcessedMessage } from "./messages";
+
+export interface MessageProcessorRequest {
+  type: "start";
+  sessionId: number;
+  messages: Message[];
+  userId: string;
+  /** The participant to show the conversation as */
+  viewerId: string;
+  mediaFiles?: Map<string, File>;
+  /** Member MRIs from the conversation's thread properties */
+  members?: string[];
+}
+
+export type MessageProcessorResponse =
+  | {
+      type: "batch";
+      sessionId: number;
+      messages: ProcessedMessage[];
+      done: boolean;
+    }
+  | { type: "error"; sessionId: number; message: string };
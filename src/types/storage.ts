@@ -0,0 +1,14 @@
+export interface StoredExportInfo {
+  id: string;
+  userId: string;
+  exportDate: string;
+  conversationCount: number;
+  mediaFileCount: number;
+  sizeBytes: number;
+  savedAt: string;
+}
+
+export interface SaveExportOptions {
+  includeMedia: boolean;
+  sizeBytes: number;
+}
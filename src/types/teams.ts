@@ -0,0 +1,66 @@
+/**
+ * Teams (free) chat export layout. Chats and messages follow the Microsoft Graph
+ * chat/chatMessage resources.
+ */
+export interface TeamsExport {
+  exportDate?: string;
+  user: TeamsIdentity;
+  chats: TeamsChat[];
+}
+
+export interface TeamsIdentity {
+  id: string;
+  displayName?: string | null;
+  email?: string | null;
+}
+
+export interface TeamsChat {
+  id: string;
+  topic?: string | null;
+  chatType?: "oneOnOne" | "group" | "meeting" | string;
+  createdDateTime?: string;
+  members?: TeamsChatMember[];
+  messages: TeamsChatMessage[];
+}
+
+export interface TeamsChatMember {
+  userId?: string | null;
+  displayName?: string | null;
+  email?: string | null;
+}
+
+export interface TeamsChatMessage {
+  id: string;
+  createdDateTime: string;
+  lastModifiedDateTime?: string | null;
+  deletedDateTime?: string | null;
+  messageType: "message" | "systemEventMessage" | string;
+  from?: {
+    user?: TeamsIdentity | null;
+    application?: TeamsIdentity | null;
+  } | null;
+  body: {
+    contentType: "html" | "text";
+    content: string;
+  };
+  attachments?: TeamsAttachment[];
+  eventDetail?: TeamsEventDetail | null;
+}
+
+export interface TeamsAttachment {
+  id: string;
+  contentType: string;
+  contentUrl?: string | null;
+  name?: string | null;
+}
+
+export interface TeamsEventDetail {
+  "@odata.type": string;
+  members?: TeamsIdentity[];
+  initiator?: { user?: TeamsIdentity | null } | null;
+  chatDisplayName?: string | null;
+  callDuration?: string | null;
+  callParticipants?: Array<{
+    participant?: { user?: TeamsIdentity | null } | null;
+  }>;
+}
@@ -0,0 +1,300 @@
+import { debugLog } from "./debug";
+import {
+  ARCHIVE_EXTS,
+  TAR_BLOCK_SIZE,
+  ZIP_EOCD_SEARCH_SIZE,
+} from "../constants/fileUpload";
+
+export interface ArchiveEntry {
+  path: string;
+  file: File;
+}
+
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP_EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATE = 8;
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Checks whether a dropped file is a Skype export archive (.tar or a .zip re-pack).
+ */
+export function isArchiveFile(file: File): boolean {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return ARCHIVE_EXTS.has(extension);
+}
+
+/**
+ * Lists the files inside a .tar or .zip archive without extracting it to disk.
+ * Tar and stored zip entries are returned as lazy slices of the original file,
+ * so media is only read when it is displayed. Deflated zip entries are
+ * decompressed with the browser's DecompressionStream.
+ */
+export async function readArchiveEntries(
+  file: File,
+  onProgress: (progress: number) => void,
+): Promise<ArchiveEntry[]> {
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  const isZip =
+    header.length === 4 &&
+    new DataView(header.buffer).getUint32(0, true) ===
+      ZIP_LOCAL_HEADER_SIGNATURE;
+
+  debugLog("[archiveParser] Reading archive:", {
+    fileName: file.name,
+    fileSize: file.size,
+    format: isZip ? "zip" : "tar",
+  });
+
+  return isZip
+    ? readZipEntries(file, onProgress)
+    : readTarEntries(file, onProgress);
+}
+
+function readString(bytes: Uint8Array, start: number, length: number): string {
+  const field = bytes.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return textDecoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readOctal(bytes: Uint8Array, start: number, length: number): number {
+  const value = readString(bytes, start, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+function normaliseEntryPath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/^(\.\/)+/, "");
+}
+
+function createEntry(path: string, data: Blob, lastModified?: number): ArchiveEntry {
+  const name = path.substring(path.lastIndexOf("/") + 1);
+  return { path, file: new File([data], name, { lastModified }) };
+}
+
+/**
+ * Parses PAX extended header records ("<length> <key>=<value>\n") and returns the path, if any.
+ */
+function parsePaxPath(data: Uint8Array): string | null {
+  const records = textDecoder.decode(data);
+  const match = records.match(/(?:^|\n)\d+ path=([^\n]*)\n/);
+  return match ? match[1] : null;
+}
+
+async function readTarEntries(
+  file: File,
+  onProgress: (progress: number) => void,
+): Promise<ArchiveEntry[]> {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let pendingLongName: string | null = null;
+
+  while (offset + TAR_BLOCK_SIZE <= file.size) {
+    const header = new Uint8Array(
+      await file.slice(offset, offset + TAR_BLOCK_SIZE).arrayBuffer(),
+    );
+
+    // Two consecutive zero blocks mark the end of the archive; one is enough to stop
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const typeFlag = String.fromCharCode(header[156] || 48);
+    const dataStart = offset + TAR_BLOCK_SIZE;
+    const dataEnd = dataStart + size;
+
+    if (typeFlag === "L" || typeFlag === "x") {
+      // GNU long name or PAX extended header: applies to the next entry
+      const data = new Uint8Array(
+        await file.slice(dataStart, dataEnd).arrayBuffer(),
+      );
+      pendingLongName =
+        typeFlag === "L" ? readString(data, 0, data.length) : parsePaxPath(data);
+    } else if (typeFlag === "0" || typeFlag === "7") {
+      const name = readString(header, 0, 100);
+      const prefix =
+        readString(header, 257, 6) === "ustar" ? readString(header, 345, 155) : "";
+      const path = normaliseEntryPath(
+        pendingLongName ?? (prefix ? `${prefix}/${name}` : name),
+      );
+      const mtime = readOctal(header, 136, 12) * 1000;
+      entries.push(createEntry(path, file.slice(dataStart, dataEnd), mtime));
+      pendingLongName = null;
+    } else {
+      pendingLongName = null;
+    }
+
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+    onProgress(Math.min((offset / file.size) * 100, 100));
+  }
+
+  debugLog("[archiveParser] Tar archive read:", { entries: entries.length });
+
+  return entries;
+}
+
+interface ZipCentralEntry {
+  path: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Locates the central directory from the End Of Central Directory record,
+ * following the ZIP64 locator when the archive is larger than 4 GB.
+ */
+async function readZipDirectoryLocation(
+  file: File,
+): Promise<{ offset: number; size: number; count: number }> {
+  const searchStart = Math.max(0, file.size - ZIP_EOCD_SEARCH_SIZE);
+  const tail = new DataView(await file.slice(searchStart).arrayBuffer());
+
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === ZIP_EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+
+  if (eocd === -1) {
+    throw new Error("Invalid zip archive: central directory not found");
+  }
+
+  const locator = eocd - 20;
+  if (locator >= 0 && tail.getUint32(locator, true) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const zip64Offset = Number(tail.getBigUint64(locator + 8, true));
+    const zip64 = new DataView(
+      await file.slice(zip64Offset, zip64Offset + 56).arrayBuffer(),
+    );
+    if (zip64.getUint32(0, true) === ZIP64_EOCD_SIGNATURE) {
+      return {
+        count: Number(zip64.getBigUint64(32, true)),
+        size: Number(zip64.getBigUint64(40, true)),
+        offset: Number(zip64.getBigUint64(48, true)),
+      };
+    }
+  }
+
+  return {
+    count: tail.getUint16(eocd + 10, true),
+    size: tail.getUint32(eocd + 12, true),
+    offset: tail.getUint32(eocd + 16, true),
+  };
+}
+
+function parseZipCentralDirectory(
+  directory: DataView,
+  count: number,
+): ZipCentralEntry[] {
+  const entries: ZipCentralEntry[] = [];
+  let position = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (directory.getUint32(position, true) !== ZIP_CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("Invalid zip archive: corrupted central directory");
+    }
+
+    const method = directory.getUint16(position + 10, true);
+    let compressedSize = directory.getUint32(position + 20, true);
+    const uncompressedSize = directory.getUint32(position + 24, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    let localHeaderOffset = directory.getUint32(position + 42, true);
+
+    const nameStart = position + 46;
+    const path = textDecoder.decode(
+      new Uint8Array(directory.buffer, directory.byteOffset + nameStart, nameLength),
+    );
+
+    // ZIP64 extra field holds the real values for any field saturated at 0xFFFFFFFF,
+    // in the fixed order: uncompressed size, compressed size, local header offset
+    let extra = nameStart + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = directory.getUint16(extra, true);
+      const length = directory.getUint16(extra + 2, true);
+      if (id === ZIP64_EXTRA_FIELD_ID) {
+        let field = extra + 4;
+        if (uncompressedSize === 0xffffffff) field += 8;
+        if (compressedSize === 0xffffffff) {
+          compressedSize = Number(directory.getBigUint64(field, true));
+          field += 8;
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = Number(directory.getBigUint64(field, true));
+        }
+      }
+      extra += 4 + length;
+    }
+
+    if (!path.endsWith("/")) {
+      entries.push({
+        path: normaliseEntryPath(path),
+        method,
+        compressedSize,
+        localHeaderOffset,
+      });
+    }
+
+    position = extraEnd + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipEntries(
+  file: File,
+  onProgress: (progress: number) => void,
+): Promise<ArchiveEntry[]> {
+  const location = await readZipDirectoryLocation(file);
+  const directory = new DataView(
+    await file
+      .slice(location.offset, location.offset + location.size)
+      .arrayBuffer(),
+  );
+  const centralEntries = parseZipCentralDirectory(directory, location.count);
+  const entries: ArchiveEntry[] = [];
+
+  for (let i = 0; i < centralEntries.length; i++) {
+    const entry = centralEntries[i];
+
+    // Local header name/extra lengths can differ from the central directory copy
+    const localHeader = new DataView(
+      await file
+        .slice(entry.localHeaderOffset, entry.localHeaderOffset + 30)
+        .arrayBuffer(),
+    );
+    const dataStart =
+      entry.localHeaderOffset +
+      30 +
+      localHeader.getUint16(26, true) +
+      localHeader.getUint16(28, true);
+    const data = file.slice(dataStart, dataStart + entry.compressedSize);
+
+    if (entry.method === ZIP_METHOD_STORED) {
+      entries.push(createEntry(entry.path, data));
+    } else if (entry.method === ZIP_METHOD_DEFLATE) {
+      const inflated = await new Response(
+        data.stream().pipeThrough(new DecompressionStream("deflate-raw")),
+      ).blob();
+      entries.push(createEntry(entry.path, inflated));
+    } else {
+      console.error("[archiveParser] Unsupported zip compression method:", {
+        path: entry.path,
+        method: entry.method,
+      });
+    }
+
+    onProgress(((i + 1) / centralEntries.length) * 100);
+  }
+
+  debugLog("[archiveParser] Zip archive read:", { entries: entries.length });
+
+  return entries;
+}
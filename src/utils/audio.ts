@@ -0,0 +1,46 @@
+/**
+ * Formats a duration in milliseconds as m:ss (or h:mm:ss for long recordings).
+ */
+export function formatAudioDuration(durationMs: number): string {
+  const totalSeconds = Math.max(0, Math.round(durationMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * Decodes an audio file and reduces it to `barCount` peak levels between 0 and 1,
+ * for drawing a waveform preview.
+ */
+export async function computeWaveform(
+  file: Blob,
+  barCount: number,
+): Promise<number[]> {
+  const context = new AudioContext();
+
+  try {
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const samplesPerBar = Math.max(1, Math.floor(samples.length / barCount));
+    const peaks: number[] = [];
+
+    for (let bar = 0; bar < barCount; bar++) {
+      const start = bar * samplesPerBar;
+      const end = Math.min(start + samplesPerBar, samples.length);
+      let peak = 0;
+      for (let i = start; i < end; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      peaks.push(peak);
+    }
+
+    const loudest = Math.max(...peaks);
+    return loudest > 0 ? peaks.map((peak) => peak / loudest) : peaks;
+  } finally {
+    void context.close();
+  }
+}
@@ -0,0 +1,83 @@
+import type { Message } from "../types/messages";
+import { decodeXmlEntities } from "./markup";
+import {
+  BOT_SUGGESTION_PATTERNS,
+  BOT_SUGGESTION_PROPERTIES,
+  STRIP_HTML_PATTERN,
+} from "../constants/messageProcessor";
+
+type SuggestionData =
+  | string
+  | {
+      text?: string;
+      title?: string;
+      displayText?: string;
+      value?: unknown;
+    };
+
+function readSuggestionText(data: SuggestionData): string | null {
+  if (typeof data === "string") return data.trim() || null;
+  const text = data?.displayText ?? data?.title ?? data?.text ?? data?.value;
+  return typeof text === "string" && text.trim() ? text.trim() : null;
+}
+
+function readPropertySuggestions(message: Message): string[] {
+  const suggestions: string[] = [];
+
+  for (const property of BOT_SUGGESTION_PROPERTIES) {
+    let value = message.properties?.[property];
+    if (typeof value === "string") {
+      try {
+        value = JSON.parse(value);
+      } catch (error) {
+        console.error("[botMessage] Failed to parse suggested replies:", {
+          error,
+          property,
+          messageId: message.id,
+        });
+        continue;
+      }
+    }
+
+    // Bot Framework wraps the list as { actions: [...] }
+    const list =
+      value && typeof value === "object" && "actions" in value
+        ? (value as { actions: unknown }).actions
+        : value;
+    if (!Array.isArray(list)) continue;
+
+    for (const item of list as SuggestionData[]) {
+      const text = readSuggestionText(item);
+      if (text) suggestions.push(text);
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * Takes the suggested replies out of a bot message, from markup in its content or
+ * from its properties. Returns them with the content that remains.
+ */
+export function extractSuggestedReplies(
+  message: Message,
+  content: string,
+): { suggestions: string[]; content: string } {
+  const suggestions = readPropertySuggestions(message);
+
+  const remaining = content.replace(
+    BOT_SUGGESTION_PATTERNS.Block,
+    (_, _tag: string, block: string) => {
+      for (const [, , item] of block.matchAll(BOT_SUGGESTION_PATTERNS.Item)) {
+        const text = decodeXmlEntities(item.replace(STRIP_HTML_PATTERN, "")).trim();
+        if (text) suggestions.push(text);
+      }
+      return "";
+    },
+  );
+
+  return {
+    suggestions: Array.from(new Set(suggestions)),
+    content: remaining.trim(),
+  };
+}
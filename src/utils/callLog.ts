@@ -0,0 +1,119 @@
+import type { CallDirection, CallState, Message } from "../types/messages";
+import {
+  CALL_LOG_STATES,
+  VIDEO_CALL_PATTERN,
+} from "../constants/messageProcessor";
+
+interface CallLogParticipant {
+  id?: string;
+  displayName?: string;
+}
+
+/** `properties.callLog` as Skype and Teams write it; every field is optional */
+interface CallLogData {
+  callDirection?: string;
+  callState?: string;
+  callType?: string;
+  mediaType?: string;
+  isVideoCall?: boolean;
+  startTime?: string;
+  connectTime?: string;
+  endTime?: string;
+  originator?: string;
+  target?: string;
+  originatorParticipant?: CallLogParticipant;
+  targetParticipant?: CallLogParticipant;
+  participantList?: CallLogParticipant[];
+}
+
+export interface CallLog {
+  state: CallState | null;
+  /** As seen by the export owner */
+  direction: CallDirection | null;
+  isVideo: boolean;
+  startTime: string | null;
+  connectTime: string | null;
+  endTime: string | null;
+  originator: string | null;
+  participants: { id: string; name: string | null }[];
+}
+
+function readTime(value: string | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function readDirection(value: string | undefined): CallDirection | null {
+  const direction = value?.toLowerCase();
+  return direction === "incoming" || direction === "outgoing"
+    ? direction
+    : null;
+}
+
+function readState(value: string | undefined): CallState | null {
+  const key = value?.toLowerCase() ?? "";
+  return key in CALL_LOG_STATES
+    ? CALL_LOG_STATES[key as keyof typeof CALL_LOG_STATES]
+    : null;
+}
+
+function readParticipants(data: CallLogData): CallLog["participants"] {
+  const participants = new Map<string, string | null>();
+  const add = (participant: CallLogParticipant | undefined) => {
+    if (!participant?.id) return;
+    const name = participant.displayName?.trim() || null;
+    if (!participants.get(participant.id)) participants.set(participant.id, name);
+  };
+
+  add(data.originatorParticipant ?? { id: data.originator });
+  add(data.targetParticipant ?? { id: data.target });
+  data.participantList?.forEach(add);
+
+  return Array.from(participants, ([id, name]) => ({ id, name }));
+}
+
+/**
+ * Reads a call event's `properties.callLog`. Returns null when there is none or it
+ * is not valid JSON.
+ */
+export function readCallLog(message: Message): CallLog | null {
+  const raw = message.properties?.callLog;
+  if (typeof raw !== "string" || !raw) return null;
+
+  let data: CallLogData;
+  try {
+    data = JSON.parse(raw) as CallLogData;
+  } catch (error) {
+    console.error("[callLog] Failed to parse call log:", {
+      error,
+      messageId: message.id,
+    });
+    return null;
+  }
+
+  return {
+    state: readState(data.callState),
+    direction: readDirection(data.callDirection),
+    isVideo:
+      data.isVideoCall === true ||
+      VIDEO_CALL_PATTERN.test(data.mediaType ?? "") ||
+      VIDEO_CALL_PATTERN.test(data.callType ?? ""),
+    startTime: readTime(data.startTime),
+    connectTime: readTime(data.connectTime),
+    endTime: readTime(data.endTime),
+    originator: data.originator ?? data.originatorParticipant?.id ?? null,
+    participants: readParticipants(data),
+  };
+}
+
+export function formatCallDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return minutes > 0
+    ? `${minutes}m ${remainingSeconds}s`
+    : `${remainingSeconds}s`;
+}
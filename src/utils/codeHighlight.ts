@@ -0,0 +1,55 @@
+export type CodeTokenKind = "comment" | "string" | "number" | "keyword" | "plain";
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+}
+
+/** Keywords shared by the languages people usually paste into chats */
+const KEYWORDS = new Set([
+  "async", "await", "break", "case", "catch", "class", "const", "continue",
+  "def", "default", "do", "elif", "else", "enum", "export", "extends", "false",
+  "finally", "fn", "for", "from", "func", "function", "if", "import", "in",
+  "interface", "let", "new", "nil", "none", "null", "package", "private",
+  "protected", "public", "return", "self", "static", "struct", "switch",
+  "this", "throw", "true", "try", "type", "undefined", "var", "void", "while",
+  "with", "yield", "select", "insert", "update", "delete", "where", "and",
+  "or", "not", "is", "as", "pass", "lambda", "None", "True", "False",
+]);
+
+const TOKEN_PATTERN =
+  /(\/\/[^\n]*|#[^\n]*|\/\*[\s\S]*?\*\/|--[^\n]*)|("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|`(?:\\.|[^`\\])*`)|(\b\d+(?:\.\d+)?\b)|([A-Za-z_]\w*)/g;
+
+/**
+ * Splits code into tokens for a light, language-agnostic highlight. Runs locally;
+ * it only needs to make snippets easier to read, not to parse them.
+ */
+export function highlightCode(code: string): CodeToken[] {
+  const tokens: CodeToken[] = [];
+  let lastIndex = 0;
+
+  const pushPlain = (text: string) => {
+    if (!text) return;
+    const previous = tokens[tokens.length - 1];
+    if (previous?.kind === "plain") {
+      previous.text += text;
+    } else {
+      tokens.push({ kind: "plain", text });
+    }
+  };
+
+  for (const match of code.matchAll(TOKEN_PATTERN)) {
+    const [text, comment, string, number, word] = match;
+    pushPlain(code.slice(lastIndex, match.index));
+    lastIndex = match.index + text.length;
+
+    if (comment) tokens.push({ kind: "comment", text });
+    else if (string) tokens.push({ kind: "string", text });
+    else if (number) tokens.push({ kind: "number", text });
+    else if (word && KEYWORDS.has(word)) tokens.push({ kind: "keyword", text });
+    else pushPlain(text);
+  }
+
+  pushPlain(code.slice(lastIndex));
+  return tokens;
+}
@@ -0,0 +1,78 @@
+import type { Conversation, Message } from "../types/messages";
+import { createJsonStreamScanner } from "./jsonStreamScanner";
+import { isDeletedMessage } from "./messageProcessor";
+import {
+  INDEX_DELETED_HINT_PATTERN,
+  INDEX_SUMMARY_TAIL,
+} from "../constants/fileUpload";
+
+const textDecoder = new TextDecoder();
+
+function parseMessage(bytes: Uint8Array): Message {
+  return JSON.parse(textDecoder.decode(bytes)) as Message;
+}
+
+function isDeletedRawMessage(bytes: Uint8Array): boolean {
+  const text = textDecoder.decode(bytes);
+  return (
+    INDEX_DELETED_HINT_PATTERN.test(text) &&
+    isDeletedMessage(JSON.parse(text) as Message)
+  );
+}
+
+/**
+ * Builds the index entry for one conversation from its raw JSON without parsing its
+ * MessageList: messages are only counted, except for the newest (first) and the two
+ * oldest (last), which the conversation list needs for its preview and ordering.
+ * Removed messages are counted too; only those that look removed are parsed.
+ *
+ * `offset` is the position of `bytes` in `file`, so the conversation can be read again
+ * from that slice when it is opened.
+ */
+export function indexConversation(
+  bytes: Uint8Array,
+  offset: number,
+  file: File,
+): Conversation {
+  const fields: Record<string, unknown> = {};
+  const head: Uint8Array[] = [];
+  const tail: Uint8Array[] = [];
+  let messageCount = 0;
+  let deletedCount = 0;
+
+  const scanner = createJsonStreamScanner({
+    splitKeys: new Set(["MessageList"]),
+    rawKeys: new Set(["MessageList"]),
+    onMember: (key, value) => {
+      fields[key] = value;
+    },
+    onElement: (_key, value, index) => {
+      const message = value as Uint8Array;
+      messageCount++;
+      if (isDeletedRawMessage(message)) deletedCount++;
+      if (index === 0) {
+        head.push(message);
+      } else {
+        tail.push(message);
+        if (tail.length > INDEX_SUMMARY_TAIL) tail.shift();
+      }
+    },
+  });
+
+  scanner.write(bytes);
+  scanner.end();
+
+  // Kept in file order, so MessageList[0] and the last entries mean the same as usual
+  const summary = [...head, ...tail].map(parseMessage);
+
+  return {
+    ...(fields as Omit<Conversation, "MessageList">),
+    MessageList: summary,
+    index: {
+      sources: [{ file, start: offset, end: offset + bytes.length }],
+      messages: [],
+      messageCount,
+      deletedCount,
+    },
+  };
+}
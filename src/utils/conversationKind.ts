@@ -0,0 +1,34 @@
+import type { Conversation, ConversationKind } from "../types/messages";
+import {
+  CONVERSATION_ID_PATTERNS,
+  SMS_MESSAGE_TYPE_PATTERN,
+} from "../constants/conversations";
+
+export function isBotIdentity(mri: string | null | undefined): boolean {
+  return !!mri && CONVERSATION_ID_PATTERNS.Bot.test(mri);
+}
+
+/**
+ * Classifies a conversation by its id prefix. Phone conversations count as SMS when
+ * any of their (loaded) messages is an SMS; otherwise they are Skype-to-phone calls
+ * and messages.
+ */
+export function getConversationKind(
+  conversation: Pick<Conversation, "id" | "MessageList">,
+): ConversationKind {
+  const { id } = conversation;
+
+  if (CONVERSATION_ID_PATTERNS.Bot.test(id)) return "bot";
+  if (CONVERSATION_ID_PATTERNS.Phone.test(id)) {
+    return conversation.MessageList.some((message) =>
+      SMS_MESSAGE_TYPE_PATTERN.test(message.messagetype),
+    )
+      ? "sms"
+      : "phone";
+  }
+  if (CONVERSATION_ID_PATTERNS.Group.test(id)) {
+    return CONVERSATION_ID_PATTERNS.OneOnOneThread.test(id) ? "person" : "group";
+  }
+  if (CONVERSATION_ID_PATTERNS.Person.test(id)) return "person";
+  return "other";
+}
@@ -0,0 +1,88 @@
+import type {
+  Conversation,
+  ConversationIndex,
+  ConversationSource,
+  Message,
+} from "../types/messages";
+import { mergeMessageLists } from "./exportMerge";
+import { debugLog } from "./debug";
+import { LOADED_CONVERSATION_CACHE_SIZE } from "../constants/fileUpload";
+
+// Least recently opened first; Map keeps insertion order
+const loadedConversations = new Map<string, Message[]>();
+
+/**
+ * Names what an index reads, so the cache still hits when the merged view is rebuilt
+ * with new index objects for the same slices.
+ */
+function getCacheKey(conversationId: string, index: ConversationIndex): string {
+  const sources = index.sources.map(
+    ({ exportId, start, end }) => `${exportId ?? ""}:${start}-${end}`,
+  );
+  return [conversationId, ...sources, index.messages.length].join("|");
+}
+
+async function readSource({ file, start, end }: ConversationSource): Promise<Message[]> {
+  const conversation = JSON.parse(
+    await file.slice(start, end).text(),
+  ) as Conversation;
+  return conversation.MessageList ?? [];
+}
+
+async function readMessages(index: ConversationIndex): Promise<Message[]> {
+  const lists = await Promise.all(index.sources.map(readSource));
+  return mergeMessageLists(
+    index.messages.length > 0 ? [...lists, index.messages] : lists,
+  );
+}
+
+/**
+ * Reads the full message list of an indexed conversation from its file slices.
+ * The most recently opened conversations are kept parsed, so switching back to one
+ * does not read it again.
+ */
+export async function loadConversation(
+  conversation: Conversation,
+): Promise<Conversation> {
+  const { index } = conversation;
+  if (!index) return conversation;
+
+  const cacheKey = getCacheKey(conversation.id, index);
+  let messages = loadedConversations.get(cacheKey);
+  if (messages) {
+    loadedConversations.delete(cacheKey);
+  } else {
+    const startTime = Date.now();
+    messages = await readMessages(index);
+    debugLog("[conversationLoader] Conversation loaded:", {
+      conversationId: conversation.id,
+      sources: index.sources.length,
+      messages: messages.length,
+      durationMs: Date.now() - startTime,
+    });
+  }
+
+  loadedConversations.set(cacheKey, messages);
+  for (const key of loadedConversations.keys()) {
+    if (loadedConversations.size <= LOADED_CONVERSATION_CACHE_SIZE) break;
+    loadedConversations.delete(key);
+  }
+
+  return { ...conversation, MessageList: messages, index: undefined };
+}
+
+/**
+ * Reads an indexed conversation in full without keeping it cached, e.g. to store it.
+ */
+export async function readFullConversation(
+  conversation: Conversation,
+): Promise<Conversation> {
+  const { index } = conversation;
+  if (!index) return conversation;
+
+  return {
+    ...conversation,
+    MessageList: await readMessages(index),
+    index: undefined,
+  };
+}
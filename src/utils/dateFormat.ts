@@ -32,6 +32,11 @@ export function formatMessageTime(dateString: string): string {
   return `${day}<sup>${getOrdinalSuffix(day)}</sup> ${MONTH_FORMATTER.format(date)} ${date.getFullYear()}, ${TIME_FORMATTER.format(date)}`;
 }
 
+/** Hours and minutes only, e.g. for the start and end of a call */
+export function formatClockTime(dateString: string): string {
+  return TIME_FORMATTER.format(new Date(dateString));
+}
+
 export function formatRelativeTime(dateString: string): string {
   const date = new Date(dateString);
   const diff = Date.now() - date.getTime();
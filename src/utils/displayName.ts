@@ -1,7 +1,10 @@
+import { formatPhoneNumber } from "./phoneNumber";
+
 /**
  * Removes the numeric prefix from Skype display names.
  * Skype IDs often have a format like "8:username" or "8:live:username".
- * This function removes the leading number and colon to show a cleaner name.
+ * This function removes the leading number and colon to show a cleaner name;
+ * phone number identities ("4:+44…", "2:+1…") are formatted as phone numbers.
  */
 export function cleanDisplayName(
   displayName: string | null | undefined,
@@ -10,7 +13,9 @@ export function cleanDisplayName(
 
   const match = displayName.match(/^(\d+):(.+)$/);
   if (match) {
-    return match[2];
+    return match[1] === "4" || match[1] === "2"
+      ? formatPhoneNumber(match[2])
+      : match[2];
   }
 
   return displayName;
@@ -0,0 +1,188 @@
+import type { Conversation, Message, SkypeExport } from "../types/messages";
+import { isDeletedMessage } from "./messageProcessor";
+import {
+  MERGED_EXPORT_ID,
+  SHARED_THREAD_ID_PATTERN,
+} from "../constants/exports";
+
+/**
+ * Tags every conversation, and the file slices of indexed ones, with the export it
+ * came from.
+ */
+export function tagConversations(
+  conversations: Conversation[],
+  exportId: string,
+): Conversation[] {
+  return conversations.map((conversation) => ({
+    ...conversation,
+    exportId,
+    index: conversation.index && {
+      ...conversation.index,
+      sources: conversation.index.sources.map((source) => ({
+        ...source,
+        exportId,
+      })),
+    },
+  }));
+}
+
+/**
+ * Identifies a conversation across loaded exports. One-to-one conversations are
+ * named after the other person, so two accounts' chats with the same contact share
+ * an id; the export they came from tells them apart.
+ */
+export function getConversationKey(conversation: Conversation): string {
+  return conversation.exportId
+    ? `${conversation.exportId}/${conversation.id}`
+    : conversation.id;
+}
+
+function getMessageTime(message: Message): number {
+  const time = new Date(message.originalarrivaltime).getTime();
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * Combines message lists from several copies of one thread, keeping messages that
+ * appear in more than one (same message id) once, in newest-first order.
+ */
+export function mergeMessageLists(lists: Message[][]): Message[] {
+  if (lists.length === 1) return lists[0];
+
+  const seenIds = new Set<string>();
+  const merged: Message[] = [];
+  for (const list of lists) {
+    for (const message of list) {
+      if (seenIds.has(message.id)) continue;
+      seenIds.add(message.id);
+      merged.push(message);
+    }
+  }
+
+  return merged.sort((a, b) => getMessageTime(b) - getMessageTime(a));
+}
+
+/**
+ * Merges copies of a thread where at least one is indexed. Their messages cannot be
+ * compared until they are read, so the sources are combined and the messages are
+ * merged when the conversation is opened; until then the count may include duplicates.
+ */
+function mergeIndexedConversation(
+  existing: Conversation,
+  incoming: Conversation,
+): Conversation {
+  const parts = [existing, incoming];
+
+  return {
+    ...existing,
+    displayName: existing.displayName || incoming.displayName,
+    threadProperties: existing.threadProperties ?? incoming.threadProperties,
+    MessageList: mergeMessageLists(parts.map((part) => part.MessageList)),
+    index: {
+      sources: parts.flatMap((part) => part.index?.sources ?? []),
+      messages: parts.flatMap((part) =>
+        part.index ? part.index.messages : part.MessageList,
+      ),
+      messageCount: parts.reduce(
+        (total, part) =>
+          total + (part.index?.messageCount ?? part.MessageList.length),
+        0,
+      ),
+      deletedCount: parts.reduce(
+        (total, part) =>
+          total +
+          (part.index?.deletedCount ??
+            part.MessageList.filter(isDeletedMessage).length),
+        0,
+      ),
+    },
+  };
+}
+
+/**
+ * Combines two copies of the same thread into one timeline.
+ * Messages present in both exports (same message id) are kept once, and the result
+ * keeps the export's newest-first order.
+ */
+function mergeConversation(
+  existing: Conversation,
+  incoming: Conversation,
+): Conversation {
+  if (existing.index || incoming.index) {
+    return mergeIndexedConversation(existing, incoming);
+  }
+
+  const seenIds = new Set(existing.MessageList.map((message) => message.id));
+  const newMessages = incoming.MessageList.filter(
+    (message) => !seenIds.has(message.id),
+  );
+
+  if (newMessages.length === 0) return existing;
+
+  const MessageList = [...existing.MessageList, ...newMessages].sort(
+    (a, b) => getMessageTime(b) - getMessageTime(a),
+  );
+
+  return {
+    ...existing,
+    displayName: existing.displayName || incoming.displayName,
+    threadProperties: existing.threadProperties ?? incoming.threadProperties,
+    MessageList,
+  };
+}
+
+/**
+ * Whether two conversations with the same id are copies of one thread: group threads
+ * are shared by everyone in them, anything else only if a message appears in both.
+ * Indexed conversations can only be compared on the messages they keep in memory.
+ */
+function isSameThread(existing: Conversation, incoming: Conversation): boolean {
+  if (SHARED_THREAD_ID_PATTERN.test(existing.id)) return true;
+
+  const messageIds = new Set(existing.MessageList.map((message) => message.id));
+  return incoming.MessageList.some((message) => messageIds.has(message.id));
+}
+
+/**
+ * Builds a single virtual export from several loaded exports.
+ * Copies of the same thread are de-duplicated into one timeline and keep the tag of
+ * the first export they appeared in; conversations that only share an id stay apart.
+ * Media maps are combined, since media IDs are globally unique.
+ */
+export function mergeExports(exports: SkypeExport[]): SkypeExport {
+  // Separate conversations that share an id, e.g. two accounts' chats with one contact
+  const conversationsById = new Map<string, Conversation[]>();
+
+  for (const data of exports) {
+    for (const conversation of data.conversations) {
+      const copies = conversationsById.get(conversation.id) ?? [];
+      const match = copies.findIndex((existing) =>
+        isSameThread(existing, conversation),
+      );
+      if (match === -1) {
+        copies.push(conversation);
+      } else {
+        copies[match] = mergeConversation(copies[match], conversation);
+      }
+      conversationsById.set(conversation.id, copies);
+    }
+  }
+
+  const mediaFiles = new Map<string, File>();
+  for (const data of exports) {
+    data.mediaFiles?.forEach((file, key) => {
+      if (!mediaFiles.has(key)) mediaFiles.set(key, file);
+    });
+  }
+
+  return {
+    id: MERGED_EXPORT_ID,
+    userId: exports[0]?.userId ?? "",
+    exportDate: exports.reduce(
+      (latest, data) => (data.exportDate > latest ? data.exportDate : latest),
+      "",
+    ),
+    conversations: Array.from(conversationsById.values()).flat(),
+    mediaFiles: mediaFiles.size > 0 ? mediaFiles : undefined,
+  };
+}
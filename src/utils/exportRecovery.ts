@@ -0,0 +1,63 @@
+import type { Conversation, Message } from "../types/messages";
+import {
+  createJsonStreamScanner,
+  JsonScanError,
+  type PartialElement,
+} from "./jsonStreamScanner";
+
+export interface SalvagedConversation {
+  /** Null when not even the conversation id could be read */
+  conversation: Conversation | null;
+  /** Byte offset of the first message (or field) that could not be read */
+  breakOffset: number;
+}
+
+/**
+ * Reads what it can from a conversation that was cut off or contains invalid JSON:
+ * its leading fields and every complete message in its MessageList up to the damage.
+ */
+export function salvageConversation(element: PartialElement): SalvagedConversation {
+  const fields: Record<string, unknown> = {};
+  const messages: Message[] = [];
+  let breakOffset = element.offset;
+
+  const scanner = createJsonStreamScanner({
+    splitKeys: new Set(["MessageList"]),
+    onMember: (key, value) => {
+      fields[key] = value;
+    },
+    onElement: (_key, value) => {
+      messages.push(value as Message);
+    },
+  });
+
+  try {
+    scanner.write(element.bytes);
+    scanner.end();
+  } catch (error) {
+    if (!(error instanceof JsonScanError)) throw error;
+    breakOffset = element.offset + error.offset;
+  }
+
+  if (typeof fields.id !== "string") {
+    return { conversation: null, breakOffset };
+  }
+
+  return {
+    conversation: {
+      displayName: "",
+      version: 0,
+      properties: {
+        conversationblocked: false,
+        lastimreceivedtime: null,
+        consumptionhorizon: null,
+        conversationstatus: null,
+      },
+      threadProperties: null,
+      ...(fields as Partial<Conversation>),
+      id: fields.id,
+      MessageList: messages,
+    },
+    breakOffset,
+  };
+}
@@ -0,0 +1,286 @@
+import type { Conversation, SkypeExport } from "../types/messages";
+import type { SaveExportOptions, StoredExportInfo } from "../types/storage";
+import { addMediaFile } from "./fileParser";
+import { readFullConversation } from "./conversationLoader";
+import { debugLog } from "./debug";
+import {
+  DB_NAME,
+  DB_VERSION,
+  EXPORTS_STORE,
+  CONVERSATIONS_STORE,
+  MEDIA_STORE,
+  STORAGE_BATCH_SIZE,
+} from "../constants/storage";
+
+interface StoredConversation {
+  exportId: string;
+  index: number;
+  conversation: Conversation;
+}
+
+interface StoredMediaFile {
+  exportId: string;
+  name: string;
+  file: File;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore(EXPORTS_STORE, { keyPath: "id" });
+    db.createObjectStore(CONVERSATIONS_STORE, {
+      keyPath: ["exportId", "index"],
+    });
+    db.createObjectStore(MEDIA_STORE, { keyPath: ["exportId", "name"] });
+  };
+
+  return requestToPromise(request);
+}
+
+/**
+ * Range covering every record of one export in a store keyed by [exportId, ...].
+ */
+function exportKeyRange(exportId: string): IDBKeyRange {
+  return IDBKeyRange.bound([exportId], [exportId, []]);
+}
+
+/**
+ * Writes records in separate transactions of STORAGE_BATCH_SIZE so a large export
+ * does not build up one huge transaction in memory. `prepare` runs on each batch
+ * before its transaction opens, since a transaction closes while awaiting other work.
+ */
+async function putInBatches<T>(
+  db: IDBDatabase,
+  storeName: string,
+  records: T[],
+  onProgress: (completed: number) => void,
+  prepare?: (record: T) => Promise<T>,
+): Promise<void> {
+  for (let start = 0; start < records.length; start += STORAGE_BATCH_SIZE) {
+    let batch = records.slice(start, start + STORAGE_BATCH_SIZE);
+    if (prepare) {
+      batch = await Promise.all(batch.map(prepare));
+    }
+
+    const transaction = db.transaction(storeName, "readwrite");
+    const store = transaction.objectStore(storeName);
+    for (const record of batch) {
+      store.put(record);
+    }
+    await transactionDone(transaction);
+    onProgress(Math.min(start + STORAGE_BATCH_SIZE, records.length));
+  }
+}
+
+/**
+ * Keeps a parsed export on this device so it can be reopened without re-uploading.
+ * Conversations are stored one record each, indexed ones read in full as they are
+ * written; media files are stored under their filename only, since media ID aliases
+ * are rebuilt on load.
+ */
+export async function saveExport(
+  data: SkypeExport,
+  { includeMedia, sizeBytes }: SaveExportOptions,
+  onProgress: (progress: number) => void,
+): Promise<StoredExportInfo> {
+  const db = await openDatabase();
+  const id = crypto.randomUUID();
+
+  try {
+    const conversations: StoredConversation[] = data.conversations.map(
+      (conversation, index) => ({ exportId: id, index, conversation }),
+    );
+
+    // The media map holds each file under its filename first, then under its ID alias
+    const media: StoredMediaFile[] = [];
+    if (includeMedia && data.mediaFiles) {
+      const seen = new Set<File>();
+      for (const [name, file] of data.mediaFiles) {
+        if (seen.has(file)) continue;
+        seen.add(file);
+        media.push({ exportId: id, name, file });
+      }
+    }
+
+    const info: StoredExportInfo = {
+      id,
+      userId: data.userId,
+      exportDate: data.exportDate,
+      conversationCount: data.conversations.length,
+      mediaFileCount: media.length,
+      sizeBytes,
+      savedAt: new Date().toISOString(),
+    };
+
+    const total = conversations.length + media.length;
+    await putInBatches(
+      db,
+      CONVERSATIONS_STORE,
+      conversations,
+      (completed) => onProgress((completed / total) * 100),
+      async (record) => ({
+        ...record,
+        conversation: await readFullConversation(record.conversation),
+      }),
+    );
+    await putInBatches(db, MEDIA_STORE, media, (completed) =>
+      onProgress(((conversations.length + completed) / total) * 100),
+    );
+
+    // Written last, so an interrupted save never shows up in the library
+    const transaction = db.transaction(EXPORTS_STORE, "readwrite");
+    transaction.objectStore(EXPORTS_STORE).put(info);
+    await transactionDone(transaction);
+
+    debugLog("[exportStorage] Export saved:", info);
+    onProgress(100);
+
+    return info;
+  } catch (error) {
+    console.error("[exportStorage] Failed to save export:", {
+      error,
+      userId: data.userId,
+      conversations: data.conversations.length,
+    });
+
+    // Batches already written would never be listed, so they could not be deleted later
+    try {
+      const transaction = db.transaction(
+        [CONVERSATIONS_STORE, MEDIA_STORE],
+        "readwrite",
+      );
+      transaction.objectStore(CONVERSATIONS_STORE).delete(exportKeyRange(id));
+      transaction.objectStore(MEDIA_STORE).delete(exportKeyRange(id));
+      await transactionDone(transaction);
+    } catch (cleanupError) {
+      console.error("[exportStorage] Failed to remove partly saved export:", {
+        error: cleanupError,
+        id,
+      });
+    }
+
+    throw new Error(
+      `Failed to keep export on this device: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  } finally {
+    db.close();
+  }
+}
+
+export async function listStoredExports(): Promise<StoredExportInfo[]> {
+  const db = await openDatabase();
+
+  try {
+    const transaction = db.transaction(EXPORTS_STORE, "readonly");
+    const exports = await requestToPromise(
+      transaction.objectStore(EXPORTS_STORE).getAll() as IDBRequest<
+        StoredExportInfo[]
+      >,
+    );
+    return exports.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadStoredExport(
+  id: string,
+  onProgress: (progress: number) => void,
+): Promise<SkypeExport> {
+  const db = await openDatabase();
+
+  try {
+    const transaction = db.transaction(
+      [EXPORTS_STORE, CONVERSATIONS_STORE, MEDIA_STORE],
+      "readonly",
+    );
+    const info = await requestToPromise(
+      transaction.objectStore(EXPORTS_STORE).get(id) as IDBRequest<
+        StoredExportInfo | undefined
+      >,
+    );
+
+    if (!info) {
+      throw new Error("Saved export not found");
+    }
+
+    onProgress(10);
+    const conversations = await requestToPromise(
+      transaction
+        .objectStore(CONVERSATIONS_STORE)
+        .getAll(exportKeyRange(id)) as IDBRequest<StoredConversation[]>,
+    );
+    onProgress(70);
+    const media = await requestToPromise(
+      transaction
+        .objectStore(MEDIA_STORE)
+        .getAll(exportKeyRange(id)) as IDBRequest<StoredMediaFile[]>,
+    );
+
+    let mediaFiles: Map<string, File> | undefined;
+    if (media.length > 0) {
+      mediaFiles = new Map();
+      for (const { name, file } of media) {
+        addMediaFile(mediaFiles, name, file);
+      }
+    }
+
+    debugLog("[exportStorage] Export loaded:", {
+      id,
+      conversations: conversations.length,
+      mediaFiles: media.length,
+    });
+    onProgress(100);
+
+    return {
+      userId: info.userId,
+      exportDate: info.exportDate,
+      conversations: conversations
+        .sort((a, b) => a.index - b.index)
+        .map((record) => record.conversation),
+      mediaFiles,
+    };
+  } catch (error) {
+    console.error("[exportStorage] Failed to load export:", { error, id });
+    throw error;
+  } finally {
+    db.close();
+  }
+}
+
+export async function deleteStoredExport(id: string): Promise<void> {
+  const db = await openDatabase();
+
+  try {
+    const transaction = db.transaction(
+      [EXPORTS_STORE, CONVERSATIONS_STORE, MEDIA_STORE],
+      "readwrite",
+    );
+    transaction.objectStore(EXPORTS_STORE).delete(id);
+    transaction.objectStore(CONVERSATIONS_STORE).delete(exportKeyRange(id));
+    transaction.objectStore(MEDIA_STORE).delete(exportKeyRange(id));
+    await transactionDone(transaction);
+
+    debugLog("[exportStorage] Export deleted:", { id });
+  } finally {
+    db.close();
+  }
+}
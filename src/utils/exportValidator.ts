@@ -0,0 +1,255 @@
+import type { Conversation, Message, SkypeExport } from "../types/messages";
+import type { DiagnosticSample, ExportDiagnostics } from "../types/diagnostics";
+import { extractMediaId } from "./mediaUtils";
+import { debugLog } from "./debug";
+import {
+  KNOWN_MESSAGE_TYPES,
+  KNOWN_MESSAGE_TYPE_PREFIXES,
+  MEDIA_MESSAGE_TYPES,
+  DIAGNOSTIC_SAMPLE_LIMIT,
+} from "../constants/validation";
+
+type FieldType = "string" | "number" | "boolean" | "object" | "array";
+
+interface FieldRule {
+  name: string;
+  type: FieldType;
+  nullable?: boolean;
+  optional?: boolean;
+}
+
+const CONVERSATION_FIELDS: FieldRule[] = [
+  { name: "id", type: "string" },
+  { name: "displayName", type: "string", nullable: true },
+  { name: "version", type: "number" },
+  { name: "properties", type: "object" },
+  { name: "threadProperties", type: "object", nullable: true },
+  { name: "MessageList", type: "array" },
+];
+
+const MESSAGE_FIELDS: FieldRule[] = [
+  { name: "id", type: "string" },
+  { name: "displayName", type: "string", nullable: true },
+  { name: "originalarrivaltime", type: "string" },
+  { name: "messagetype", type: "string" },
+  { name: "version", type: "number" },
+  { name: "content", type: "string" },
+  { name: "conversationid", type: "string" },
+  { name: "from", type: "string" },
+  { name: "properties", type: "object", nullable: true, optional: true },
+];
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  if (type === "array") return Array.isArray(value);
+  if (type === "object") {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+  return typeof value === type;
+}
+
+function isKnownMessageType(messagetype: string): boolean {
+  return (
+    KNOWN_MESSAGE_TYPES.has(messagetype) ||
+    KNOWN_MESSAGE_TYPE_PREFIXES.some((prefix) => messagetype.startsWith(prefix))
+  );
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+/**
+ * Checks a parsed export against the shapes in types/messages.ts.
+ *
+ * Only problems that prevent the export from being displayed at all are reported as
+ * `errors`; everything else is counted so it can be shown in the diagnostics panel
+ * and included in bug reports.
+ */
+export function validateExport(data: unknown): ExportDiagnostics {
+  const root = (
+    typeof data === "object" && data !== null ? data : {}
+  ) as Partial<Record<keyof SkypeExport, unknown>>;
+
+  const diagnostics: ExportDiagnostics = {
+    generatedAt: new Date().toISOString(),
+    userId: asString(root.userId),
+    exportDate: asString(root.exportDate),
+    conversationCount: 0,
+    messageCount: 0,
+    errors: [],
+    unknownMessageTypes: {},
+    missingFields: {},
+    invalidTimestamps: 0,
+    brokenMediaReferences: 0,
+    samples: [],
+    recovery: root.recovery as ExportDiagnostics["recovery"],
+  };
+
+  const addSample = (sample: DiagnosticSample) => {
+    if (diagnostics.samples.length < DIAGNOSTIC_SAMPLE_LIMIT) {
+      diagnostics.samples.push(sample);
+    }
+  };
+
+  const checkFields = (
+    record: Record<string, unknown>,
+    rules: FieldRule[],
+    prefix: string,
+    conversationId: string | null,
+    messageId: string | null,
+  ) => {
+    for (const { name, type, nullable, optional } of rules) {
+      const value = record[name];
+      if (value === undefined && optional) continue;
+      if (value === null && nullable) continue;
+      if (matchesType(value, type)) continue;
+
+      const field = `${prefix}.${name}`;
+      diagnostics.missingFields[field] =
+        (diagnostics.missingFields[field] ?? 0) + 1;
+      addSample({
+        conversationId,
+        messageId,
+        issue:
+          value === undefined
+            ? `Missing ${field}`
+            : `Expected ${field} to be ${type}, got ${value === null ? "null" : typeof value}`,
+      });
+    }
+  };
+
+  if (!diagnostics.userId) {
+    diagnostics.errors.push("Missing userId");
+  }
+  if (root.exportDate === undefined) {
+    diagnostics.missingFields["SkypeExport.exportDate"] = 1;
+  }
+  if (!Array.isArray(root.conversations)) {
+    diagnostics.errors.push("Missing conversations list");
+    return diagnostics;
+  }
+
+  const mediaFiles =
+    root.mediaFiles instanceof Map
+      ? (root.mediaFiles as Map<string, File>)
+      : null;
+
+  for (const item of root.conversations as unknown[]) {
+    diagnostics.conversationCount++;
+
+    if (typeof item !== "object" || item === null) {
+      diagnostics.missingFields["Conversation"] =
+        (diagnostics.missingFields["Conversation"] ?? 0) + 1;
+      addSample({
+        conversationId: null,
+        messageId: null,
+        issue: "Conversation is not an object",
+      });
+      continue;
+    }
+
+    const conversation = item as Partial<Conversation> & Record<string, unknown>;
+    const conversationId = asString(conversation.id);
+    checkFields(
+      conversation,
+      CONVERSATION_FIELDS,
+      "Conversation",
+      conversationId,
+      null,
+    );
+
+    if (!Array.isArray(conversation.MessageList)) continue;
+
+    // Only the summary messages of an indexed conversation are in memory to check
+    if (conversation.index && Array.isArray(conversation.MessageList)) {
+      diagnostics.messageCount +=
+        conversation.index.messageCount - conversation.MessageList.length;
+    }
+
+    for (const entry of conversation.MessageList as unknown[]) {
+      diagnostics.messageCount++;
+
+      if (typeof entry !== "object" || entry === null) {
+        diagnostics.missingFields["Message"] =
+          (diagnostics.missingFields["Message"] ?? 0) + 1;
+        addSample({
+          conversationId,
+          messageId: null,
+          issue: "Message is not an object",
+        });
+        continue;
+      }
+
+      const message = entry as Partial<Message> & Record<string, unknown>;
+      const messageId = asString(message.id);
+      checkFields(message, MESSAGE_FIELDS, "Message", conversationId, messageId);
+
+      const messagetype = asString(message.messagetype);
+      if (messagetype !== null && !isKnownMessageType(messagetype)) {
+        diagnostics.unknownMessageTypes[messagetype] =
+          (diagnostics.unknownMessageTypes[messagetype] ?? 0) + 1;
+        if (diagnostics.unknownMessageTypes[messagetype] === 1) {
+          addSample({
+            conversationId,
+            messageId,
+            issue: `Unknown message type "${messagetype}"`,
+          });
+        }
+      }
+
+      const timestamp = asString(message.originalarrivaltime);
+      if (timestamp !== null && Number.isNaN(new Date(timestamp).getTime())) {
+        diagnostics.invalidTimestamps++;
+        addSample({
+          conversationId,
+          messageId,
+          issue: `Unparsable timestamp "${timestamp}"`,
+        });
+      }
+
+      if (messagetype !== null && MEDIA_MESSAGE_TYPES.has(messagetype)) {
+        const mediaId =
+          typeof message.content === "string"
+            ? extractMediaId(message.content)
+            : null;
+        // Without a media folder every reference is unresolved by design
+        const broken =
+          mediaId === null ||
+          (mediaFiles !== null && !mediaFiles.has(`${mediaId}.json`));
+        if (broken) {
+          diagnostics.brokenMediaReferences++;
+          addSample({
+            conversationId,
+            messageId,
+            issue:
+              mediaId === null
+                ? "Media message without a media ID"
+                : `Media file not found for ${mediaId}`,
+          });
+        }
+      }
+    }
+  }
+
+  debugLog("[exportValidator] Export validated:", {
+    conversations: diagnostics.conversationCount,
+    messages: diagnostics.messageCount,
+    errors: diagnostics.errors.length,
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Whether the diagnostics contain anything worth showing to the user.
+ */
+export function hasDiagnosticIssues(diagnostics: ExportDiagnostics): boolean {
+  return (
+    diagnostics.recovery !== undefined ||
+    diagnostics.errors.length > 0 ||
+    Object.keys(diagnostics.unknownMessageTypes).length > 0 ||
+    Object.keys(diagnostics.missingFields).length > 0 ||
+    diagnostics.invalidTimestamps > 0 ||
+    diagnostics.brokenMediaReferences > 0
+  );
+}
@@ -1,30 +1,64 @@
-import { SkypeExport } from "../types/messages";
+import type { Conversation, SkypeExport } from "../types/messages";
+import type { RecoveryReport } from "../types/diagnostics";
+import type {
+  ConversationBatchHandler,
+  ExportHeader,
+  ExportParserRequest,
+  ExportParserResponse,
+  LegacyDbParserRequest,
+  ParseOptions,
+} from "../types/parser";
 import { debugLog } from "./debug";
+import { readArchiveEntries, type ArchiveEntry } from "./archiveParser";
+import { isTeamsExport, adaptTeamsExport } from "./teamsAdapter";
+import type { TeamsExport } from "../types/teams";
 import {
   SMALL_FILE_THRESHOLD,
-  FILE_CHUNK_SIZE,
+  INDEX_FILE_THRESHOLD,
   MEDIA_PATH_PREFIX,
-  PROGRESS_UPDATE_INTERVAL,
+  ARCHIVE_PROGRESS_SHARE,
 } from "../constants/fileUpload";
 
+/**
+ * Thrown when messages.json is not valid JSON (e.g. a truncated download), as opposed
+ * to a file that cannot be read at all. Such files can be retried in recovery mode.
+ */
+export class CorruptExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CorruptExportError";
+  }
+}
+
 /**
  * Parses a Skype messages.json file, handling both small and large files.
- * For large files (>100MB), uses streaming to avoid memory issues.
+ * For large files (>100MB), uses streaming to avoid memory issues and reports
+ * conversations through `onConversations` as they become available.
+ * Files over INDEX_FILE_THRESHOLD are only indexed, and each conversation's messages
+ * are read from the file when it is opened (see conversationLoader).
+ * Recovery mode always uses the streaming parser, which can stop cleanly at the damage,
+ * and never indexes, since a damaged file cannot be sliced reliably.
  */
 export async function parseJsonFile(
   file: File,
   onProgress: (progress: number) => void,
+  onConversations?: ConversationBatchHandler,
+  { recover = false }: ParseOptions = {},
 ): Promise<SkypeExport> {
+  const streaming = recover || file.size >= SMALL_FILE_THRESHOLD;
+  const index = !recover && file.size >= INDEX_FILE_THRESHOLD;
+
   debugLog("[fileParser] Starting to parse JSON file:", {
     fileName: file.name,
     fileSize: file.size,
     fileSizeMB: (file.size / 1024 / 1024).toFixed(2),
-    method: file.size < SMALL_FILE_THRESHOLD ? "small file" : "streaming",
+    method: index ? "index" : streaming ? "streaming" : "small file",
+    recover,
   });
 
-  return file.size < SMALL_FILE_THRESHOLD
-    ? parseSmallFile(file, onProgress)
-    : parseStreamingFile(file, onProgress);
+  return streaming
+    ? parseStreamingFile(file, onProgress, onConversations, { recover, index })
+    : parseSmallFile(file, onProgress);
 }
 
 /**
@@ -34,6 +68,8 @@ export async function parseJsonFile(
 export async function parseDirectoryFiles(
   files: File[],
   onProgress: (progress: number) => void,
+  onConversations?: ConversationBatchHandler,
+  options?: ParseOptions,
 ): Promise<SkypeExport> {
   const messagesFile = files.find(
     (file) =>
@@ -49,44 +85,76 @@ export async function parseDirectoryFiles(
     throw new Error("messages.json not found in directory");
   }
 
-  // Parse messages.json first (90% of progress allocated to this)
-  const data = await parseJsonFile(messagesFile, (prog) =>
-    onProgress(Math.min(prog * 0.9, 90)),
+  const mediaMap = buildMediaMap(
+    files.map((file) => ({ path: file.webkitRelativePath, file })),
   );
 
-  // Build a map of media files for efficient lookup during message rendering
-  // Files are indexed by both full filename and media ID (without extension)
-  const mediaMap = new Map<string, File>();
-  let mediaFileCount = 0;
+  // Parse messages.json (90% of progress allocated to this)
+  const data = await parseJsonFile(
+    messagesFile,
+    (prog) => onProgress(Math.min(prog * 0.9, 90)),
+    withMediaFiles(onConversations, mediaMap),
+    options,
+  );
 
-  for (const file of files) {
-    const path = file.webkitRelativePath;
-    const mediaIndex = path.indexOf(MEDIA_PATH_PREFIX);
-    if (mediaIndex === -1) continue;
+  debugLog("[fileParser] Directory parsing complete:", {
+    conversations: data.conversations.length,
+    mediaFiles: mediaMap.size,
+  });
 
-    // Extract filename from path (e.g., "media/abc123.1.jpg" -> "abc123.1.jpg")
-    const fileName = path.substring(mediaIndex + MEDIA_PATH_PREFIX.length);
-    const lastDotIndex = fileName.lastIndexOf(".");
-    if (lastDotIndex <= 0) continue;
-
-    // Store file by full filename (e.g., "abc123.1.jpg")
-    mediaMap.set(fileName, file);
-    mediaFileCount++;
-
-    // Also store by media ID for non-JSON files (e.g., "abc123" -> file)
-    // This allows lookup by ID without knowing the exact extension
-    if (!fileName.endsWith(".json")) {
-      const mediaId = fileName.substring(0, lastDotIndex);
-      if (!mediaMap.has(mediaId)) {
-        mediaMap.set(mediaId, file);
-      }
-    }
+  onProgress(100);
+
+  return { ...data, mediaFiles: mediaMap };
+}
+
+/**
+ * Parses a Skype export archive (.tar as downloaded, or a .zip re-pack) in the browser.
+ * Entries are listed first, then messages.json is parsed and media entries are indexed
+ * the same way as an extracted export directory.
+ */
+export async function parseArchiveFile(
+  file: File,
+  onProgress: (progress: number) => void,
+  onConversations?: ConversationBatchHandler,
+  options?: ParseOptions,
+): Promise<SkypeExport> {
+  const entries = await readArchiveEntries(file, (prog) =>
+    onProgress((prog / 100) * ARCHIVE_PROGRESS_SHARE),
+  );
+
+  const messagesEntry = entries.find(
+    (entry) =>
+      entry.path === "messages.json" || entry.path.endsWith("/messages.json"),
+  );
+
+  if (!messagesEntry) {
+    console.error("[fileParser] messages.json not found in archive:", {
+      fileName: file.name,
+      entryCount: entries.length,
+      entryPaths: entries.map((entry) => entry.path).slice(0, 10),
+    });
+    throw new Error("messages.json not found in archive");
   }
 
-  debugLog("[fileParser] Directory parsing complete:", {
+  // Archive paths are relative to the archive root ("media/abc123.1.jpg"), so anchor
+  // them with a leading slash to match the directory upload layout
+  const mediaMap = buildMediaMap(
+    entries.map((entry) => ({ ...entry, path: `/${entry.path}` })),
+  );
+
+  const data = await parseJsonFile(
+    messagesEntry.file,
+    (prog) =>
+      onProgress(
+        ARCHIVE_PROGRESS_SHARE + (prog / 100) * (100 - ARCHIVE_PROGRESS_SHARE),
+      ),
+    withMediaFiles(onConversations, mediaMap),
+    options,
+  );
+
+  debugLog("[fileParser] Archive parsing complete:", {
     conversations: data.conversations.length,
     mediaFiles: mediaMap.size,
-    mediaFileCount,
   });
 
   onProgress(100);
@@ -94,20 +162,92 @@ export async function parseDirectoryFiles(
   return { ...data, mediaFiles: mediaMap };
 }
 
+function withMediaFiles(
+  onConversations: ConversationBatchHandler | undefined,
+  mediaFiles: Map<string, File>,
+): ConversationBatchHandler | undefined {
+  return (
+    onConversations &&
+    ((header, conversations) =>
+      onConversations({ ...header, mediaFiles }, conversations))
+  );
+}
+
+/**
+ * Builds a map of media files for efficient lookup during message rendering.
+ * Files are indexed by both full filename and media ID (without extension).
+ */
+function buildMediaMap(entries: ArchiveEntry[]): Map<string, File> {
+  const mediaMap = new Map<string, File>();
+
+  for (const { path, file } of entries) {
+    const mediaIndex = path.indexOf(MEDIA_PATH_PREFIX);
+    if (mediaIndex === -1) continue;
+
+    // Extract filename from path (e.g., "media/abc123.1.jpg" -> "abc123.1.jpg")
+    addMediaFile(
+      mediaMap,
+      path.substring(mediaIndex + MEDIA_PATH_PREFIX.length),
+      file,
+    );
+  }
+
+  return mediaMap;
+}
+
+/**
+ * Adds a media file to the map under its full filename and, for non-JSON files,
+ * under its media ID (without extension).
+ */
+export function addMediaFile(
+  mediaMap: Map<string, File>,
+  fileName: string,
+  file: File,
+): void {
+  const lastDotIndex = fileName.lastIndexOf(".");
+  if (lastDotIndex <= 0) return;
+
+  // Store file by full filename (e.g., "abc123.1.jpg")
+  mediaMap.set(fileName, file);
+
+  // Also store by media ID for non-JSON files (e.g., "abc123" -> file)
+  // This allows lookup by ID without knowing the exact extension
+  if (!fileName.endsWith(".json")) {
+    const mediaId = fileName.substring(0, lastDotIndex);
+    if (!mediaMap.has(mediaId)) {
+      mediaMap.set(mediaId, file);
+    }
+  }
+}
+
+/**
+ * Parses messages.json text, converting Teams chat exports to the Skype layout.
+ */
 function parseJsonContent(content: string): SkypeExport {
+  let parsed: unknown;
   try {
-    const parsed = JSON.parse(content) as SkypeExport;
-    return parsed;
+    parsed = JSON.parse(content);
   } catch (error) {
     console.error("[fileParser] Failed to parse JSON content:", {
       error,
       contentLength: content.length,
       contentPreview: content.substring(0, 100),
     });
-    throw new Error(
+    throw new CorruptExportError(
       `Failed to parse JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
     );
   }
+
+  if (
+    typeof parsed === "object" &&
+    parsed !== null &&
+    isTeamsExport(Object.keys(parsed))
+  ) {
+    debugLog("[fileParser] Detected Teams chat export");
+    return adaptTeamsExport(parsed as TeamsExport);
+  }
+
+  return parsed as SkypeExport;
 }
 
 async function parseSmallFile(
@@ -161,71 +301,169 @@ async function parseSmallFile(
 }
 
 /**
- * Parses large files by reading in chunks to avoid loading entire file into memory.
- * Uses recursive chunk reading with setTimeout(0) to yield to the event loop between chunks,
- * preventing UI blocking. Progress updates are throttled to avoid excessive re-renders.
+ * Parses large files in a Web Worker with an incremental scanner, so the file is never
+ * held in memory as a single string and the main thread stays responsive.
+ * Conversations are forwarded in batches as they are parsed, letting the UI populate
+ * before the rest of the file has been read.
  */
 async function parseStreamingFile(
   file: File,
   onProgress: (progress: number) => void,
+  onConversations: ConversationBatchHandler | undefined,
+  { recover, index }: Omit<ExportParserRequest, "file">,
 ): Promise<SkypeExport> {
-  return new Promise((resolve, reject) => {
-    let offset = 0;
-    const chunks: string[] = [];
-    let lastProgressUpdate = 0;
+  const worker = new Worker(
+    new URL("../workers/exportParser.worker.ts", import.meta.url),
+    { type: "module" },
+  );
+
+  return runParserWorker(
+    worker,
+    { file, recover, index } satisfies ExportParserRequest,
+    file,
+    onProgress,
+    onConversations,
+    "Failed to parse JSON",
+  );
+}
 
-    const readNextChunk = () => {
-      const reader = new FileReader();
+/**
+ * Imports a legacy Skype desktop database (main.db) with SQLite compiled to WASM,
+ * running in a Web Worker and streaming conversations like the JSON parser.
+ */
+export async function parseLegacyDatabaseFile(
+  file: File,
+  onProgress: (progress: number) => void,
+  onConversations?: ConversationBatchHandler,
+): Promise<SkypeExport> {
+  debugLog("[fileParser] Starting to read legacy database:", {
+    fileName: file.name,
+    fileSizeMB: (file.size / 1024 / 1024).toFixed(2),
+  });
 
-      reader.onerror = (error) => {
-        console.error("[fileParser] FileReader chunk error:", {
-          error,
-          fileName: file.name,
-          offset,
-          chunkSize: FILE_CHUNK_SIZE,
-        });
-        reject(new Error("Failed to read file chunk"));
+  const worker = new Worker(
+    new URL("../workers/legacyDb.worker.ts", import.meta.url),
+    { type: "module" },
+  );
+
+  return runParserWorker(
+    worker,
+    { file } satisfies LegacyDbParserRequest,
+    file,
+    onProgress,
+    onConversations,
+    "Failed to read database",
+  );
+}
+
+/**
+ * Collects the header members and conversation batches a parser worker sends into
+ * a SkypeExport, forwarding batches to the UI as they arrive.
+ */
+function runParserWorker(
+  worker: Worker,
+  request: ExportParserRequest | LegacyDbParserRequest,
+  file: File,
+  onProgress: (progress: number) => void,
+  onConversations: ConversationBatchHandler | undefined,
+  failureMessage: string,
+): Promise<SkypeExport> {
+  return new Promise((resolve, reject) => {
+    // Top-level members of the export, as the worker reads them
+    const members: Record<string, unknown> = {};
+    const conversations: Conversation[] = [];
+    let recovery: RecoveryReport | undefined;
+    // Batches that arrive before userId is known are held back, since the UI needs it
+    let pendingBatches: Conversation[][] = [];
+
+    // exportDate can come after the conversations, so it is only required once done
+    const readHeader = (): ExportHeader | null => {
+      const { userId, exportDate } = members;
+      if (typeof userId !== "string") return null;
+      return {
+        userId,
+        exportDate: typeof exportDate === "string" ? exportDate : "",
       };
+    };
 
-      reader.onload = (e) => {
-        chunks.push(e.target?.result as string);
-        offset += FILE_CHUNK_SIZE;
+    const forwardBatch = (batch: Conversation[]) => {
+      if (!onConversations) return;
+      const header = readHeader();
+      if (!header) {
+        pendingBatches.push(batch);
+        return;
+      }
+      for (const pending of pendingBatches) {
+        onConversations(header, pending);
+      }
+      pendingBatches = [];
+      onConversations(header, batch);
+    };
 
-        // Throttle progress updates to avoid excessive re-renders
-        const now = Date.now();
-        if (now - lastProgressUpdate > PROGRESS_UPDATE_INTERVAL) {
-          onProgress(Math.min((offset / file.size) * 95, 95));
-          lastProgressUpdate = now;
-        }
+    worker.onmessage = (event: MessageEvent<ExportParserResponse>) => {
+      const response = event.data;
 
-        if (offset < file.size) {
-          // Yield to event loop before reading next chunk to prevent UI blocking
-          setTimeout(readNextChunk, 0);
-        } else {
-          try {
-            onProgress(100);
-            // Join all chunks into complete text before parsing JSON
-            const textContent = chunks.join("");
-            resolve(parseJsonContent(textContent));
-          } catch (error) {
-            console.error("[fileParser] Failed to parse streaming file:", {
-              error,
+      switch (response.type) {
+        case "member":
+          members[response.key] = response.value;
+          break;
+        case "conversations":
+          conversations.push(...response.conversations);
+          forwardBatch(response.conversations);
+          break;
+        case "progress":
+          onProgress(Math.min(response.progress * 0.95, 95));
+          break;
+        case "recovered":
+          recovery = response.report;
+          debugLog("[fileParser] Recovered damaged file:", {
+            ...recovery,
+            fileName: file.name,
+            fileSize: file.size,
+          });
+          break;
+        case "done": {
+          worker.terminate();
+          const header = readHeader();
+          if (!header || typeof members.exportDate !== "string") {
+            console.error("[fileParser] Export is missing userId or exportDate:", {
+              userId: members.userId,
+              exportDate: members.exportDate,
               fileName: file.name,
-              fileSize: file.size,
-              chunksCount: chunks.length,
             });
-            reject(
-              error instanceof Error
-                ? error
-                : new Error("Failed to parse JSON"),
-            );
+            reject(new Error(`${failureMessage}: missing userId or exportDate`));
+            break;
           }
+          onProgress(100);
+          resolve({ ...header, conversations, recovery });
+          break;
         }
-      };
+        case "error":
+          worker.terminate();
+          console.error("[fileParser] Parser worker failed:", {
+            error: response.message,
+            fileName: file.name,
+            fileSize: file.size,
+            parsedConversations: conversations.length,
+          });
+          reject(
+            response.corrupt
+              ? new CorruptExportError(`${failureMessage}: ${response.message}`)
+              : new Error(`${failureMessage}: ${response.message}`),
+          );
+          break;
+      }
+    };
 
-      reader.readAsText(file.slice(offset, offset + FILE_CHUNK_SIZE));
+    worker.onerror = (event) => {
+      worker.terminate();
+      console.error("[fileParser] Parser worker error:", {
+        error: event.message,
+        fileName: file.name,
+      });
+      reject(new Error(failureMessage));
     };
 
-    readNextChunk();
+    worker.postMessage(request);
   });
 }
@@ -0,0 +1,16 @@
+/**
+ * Formats file size in bytes to human-readable format (KB, MB or GB).
+ */
+export function formatFileSize(fileSizeBytes: number): string {
+  const fileSizeKB = fileSizeBytes / 1024;
+  const fileSizeMB = fileSizeKB / 1024;
+  const fileSizeGB = fileSizeMB / 1024;
+
+  if (fileSizeGB >= 1) {
+    return `${fileSizeGB.toFixed(1)} GB`;
+  }
+  if (fileSizeMB >= 1) {
+    return `${fileSizeMB.toFixed(1)} MB`;
+  }
+  return `${fileSizeKB.toFixed(1)} KB`;
+}
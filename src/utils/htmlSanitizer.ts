@@ -0,0 +1,11 @@
+import DOMPurify from "dompurify";
+import { PURIFY_CONFIG } from "../constants/messageProcessor";
+
+/**
+ * Sanitizes processed message HTML before it is rendered. This happens at render
+ * time rather than in messageProcessor, which runs in a worker where DOMPurify has
+ * no DOM to work with; only messages that are actually on screen pay for it.
+ */
+export function sanitizeMessageHtml(html: string): string {
+  return DOMPurify.sanitize(html, PURIFY_CONFIG);
+}
@@ -0,0 +1,302 @@
+const QUOTE = 34; // "
+const BACKSLASH = 92; // \
+const COMMA = 44; // ,
+const COLON = 58; // :
+const OPEN_BRACE = 123; // {
+const CLOSE_BRACE = 125; // }
+const OPEN_BRACKET = 91; // [
+const CLOSE_BRACKET = 93; // ]
+
+interface JsonStreamScannerOptions {
+  /** Root-level keys whose array elements are emitted one at a time */
+  splitKeys: ReadonlySet<string>;
+  /** Split keys whose elements are emitted as raw bytes instead of being parsed */
+  rawKeys?: ReadonlySet<string>;
+  onMember: (key: string, value: unknown) => void;
+  /** `offset` is the byte offset of the element's first byte */
+  onElement: (key: string, value: unknown, index: number, offset: number) => void;
+}
+
+export interface JsonStreamScanner {
+  write: (chunk: Uint8Array) => void;
+  end: () => void;
+}
+
+/** A split array element that could not be read completely */
+export interface PartialElement {
+  key: string;
+  index: number;
+  /** Byte offset of the element's first byte */
+  offset: number;
+  /** Raw bytes of the element, up to where reading stopped */
+  bytes: Uint8Array;
+}
+
+/**
+ * Raised when the input is not valid JSON. `offset` is the byte offset where the problem
+ * was detected (or, for an element that failed to parse, where that element starts).
+ */
+export class JsonScanError extends Error {
+  readonly offset: number;
+  readonly element: PartialElement | null;
+
+  constructor(message: string, offset: number, element: PartialElement | null) {
+    super(message);
+    this.name = "JsonScanError";
+    this.offset = offset;
+    this.element = element;
+  }
+}
+
+const textDecoder = new TextDecoder();
+
+function isWhitespace(code: number): boolean {
+  return code === 32 || code === 10 || code === 13 || code === 9;
+}
+
+function joinParts(parts: Uint8Array[]): Uint8Array {
+  if (parts.length === 1) return parts[0];
+
+  const joined = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let position = 0;
+  for (const part of parts) {
+    joined.set(part, position);
+    position += part.length;
+  }
+  return joined;
+}
+
+/**
+ * Creates an incremental scanner for a root JSON object that arrives in UTF-8 chunks.
+ *
+ * The scanner tracks nesting and string state across chunk boundaries without building
+ * a document. Root members are parsed and emitted individually, except for members named
+ * in `splitKeys`: those arrays are never materialised, and each element is parsed and
+ * emitted as soon as its closing bracket is seen. Memory use is therefore bounded by the
+ * largest single element rather than by the whole file. Elements of `rawKeys` are
+ * emitted as their UTF-8 bytes, for callers that only need their position or a part.
+ *
+ * Scanning works on raw bytes (every structural character is ASCII, and UTF-8 never
+ * reuses ASCII bytes inside multi-byte sequences), so error offsets are exact byte
+ * positions in the file.
+ */
+export function createJsonStreamScanner({
+  splitKeys,
+  rawKeys,
+  onMember,
+  onElement,
+}: JsonStreamScannerOptions): JsonStreamScanner {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let expectKey = false;
+  let currentKey: string | null = null;
+  let splitKey: string | null = null;
+  let elementIndex = 0;
+  let started = false;
+  // Byte offset of the start of the chunk being scanned
+  let consumed = 0;
+
+  // Bytes of the key or value currently being captured; parts carry over between chunks
+  let keyParts: Uint8Array[] | null = null;
+  let captureParts: Uint8Array[] | null = null;
+  let captureOffset = 0;
+  let captureLevel = 0;
+  let capturePrimitive = false;
+
+  function partialElement(): PartialElement | null {
+    return captureParts && splitKey
+      ? {
+          key: splitKey,
+          index: elementIndex,
+          offset: captureOffset,
+          bytes: joinParts(captureParts),
+        }
+      : null;
+  }
+
+  function emitCapture(bytes: Uint8Array) {
+    if (splitKey && rawKeys?.has(splitKey)) {
+      onElement(splitKey, bytes, elementIndex++, captureOffset);
+      return;
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(textDecoder.decode(bytes));
+    } catch (error) {
+      throw new JsonScanError(
+        `Invalid JSON ${splitKey ? `in ${splitKey}[${elementIndex}]` : `for "${currentKey}"`}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        captureOffset,
+        splitKey
+          ? { key: splitKey, index: elementIndex, offset: captureOffset, bytes }
+          : null,
+      );
+    }
+
+    if (splitKey) {
+      onElement(splitKey, value, elementIndex++, captureOffset);
+    } else if (currentKey !== null) {
+      onMember(currentKey, value);
+      currentKey = null;
+    }
+  }
+
+  function write(chunk: Uint8Array) {
+    let captureStart = 0;
+    let keyStart = 0;
+
+    const startCapture = (index: number, primitive: boolean) => {
+      captureParts = [];
+      captureStart = index;
+      captureOffset = consumed + index;
+      captureLevel = depth;
+      capturePrimitive = primitive;
+    };
+
+    const finishCapture = (endIndex: number) => {
+      const parts = captureParts as Uint8Array[];
+      parts.push(chunk.subarray(captureStart, endIndex));
+      captureParts = null;
+      emitCapture(joinParts(parts));
+    };
+
+    const fail = (message: string, index: number) => {
+      (captureParts as Uint8Array[] | null)?.push(
+        chunk.subarray(captureStart, index),
+      );
+      throw new JsonScanError(message, consumed + index, partialElement());
+    };
+
+    // A value starts here if we are directly inside the root object (and the member is
+    // not split) or directly inside a split array
+    const shouldCapture = () =>
+      captureParts === null &&
+      ((depth === 1 &&
+        !expectKey &&
+        currentKey !== null &&
+        !splitKeys.has(currentKey)) ||
+        (depth === 2 && splitKey !== null));
+
+    for (let i = 0; i < chunk.length; i++) {
+      const code = chunk[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (code === BACKSLASH) {
+          escaped = true;
+        } else if (code === QUOTE) {
+          inString = false;
+          if (keyParts) {
+            keyParts.push(chunk.subarray(keyStart, i));
+            currentKey = JSON.parse(
+              `"${textDecoder.decode(joinParts(keyParts))}"`,
+            ) as string;
+            keyParts = null;
+          } else if (captureParts && capturePrimitive && depth === captureLevel) {
+            finishCapture(i + 1);
+          }
+        }
+        continue;
+      }
+
+      if (captureParts && capturePrimitive) {
+        if (
+          isWhitespace(code) ||
+          code === COMMA ||
+          code === CLOSE_BRACE ||
+          code === CLOSE_BRACKET
+        ) {
+          finishCapture(i);
+        }
+      }
+
+      if (isWhitespace(code)) continue;
+
+      switch (code) {
+        case QUOTE:
+          inString = true;
+          if (depth === 1 && expectKey) {
+            keyParts = [];
+            keyStart = i + 1;
+          } else if (shouldCapture()) {
+            startCapture(i, true);
+          }
+          break;
+        case OPEN_BRACE:
+        case OPEN_BRACKET:
+          if (shouldCapture()) {
+            startCapture(i, false);
+          }
+          if (
+            depth === 1 &&
+            code === OPEN_BRACKET &&
+            currentKey !== null &&
+            splitKeys.has(currentKey)
+          ) {
+            splitKey = currentKey;
+            elementIndex = 0;
+          }
+          if (depth === 0 && code !== OPEN_BRACE) {
+            fail("Invalid JSON: expected an object at the root", i);
+          }
+          depth++;
+          if (depth === 1) {
+            started = true;
+            expectKey = true;
+          }
+          break;
+        case CLOSE_BRACE:
+        case CLOSE_BRACKET:
+          depth--;
+          if (depth < 0) {
+            fail("Invalid JSON: unexpected closing bracket", i);
+          }
+          if (captureParts && !capturePrimitive && depth === captureLevel) {
+            finishCapture(i + 1);
+          }
+          if (depth === 1 && splitKey !== null) {
+            splitKey = null;
+            currentKey = null;
+          }
+          break;
+        case COMMA:
+          if (depth === 1) expectKey = true;
+          break;
+        case COLON:
+          if (depth === 1) expectKey = false;
+          break;
+        default:
+          if (shouldCapture()) {
+            startCapture(i, true);
+          }
+      }
+    }
+
+    // Carry unfinished key/value bytes over to the next chunk
+    if (keyParts) {
+      keyParts.push(chunk.subarray(keyStart));
+    }
+    if (captureParts) {
+      (captureParts as Uint8Array[]).push(chunk.subarray(captureStart));
+    }
+    consumed += chunk.length;
+  }
+
+  function end() {
+    if (!started || depth !== 0 || inString) {
+      throw new JsonScanError(
+        "Invalid JSON: unexpected end of file",
+        consumed,
+        partialElement(),
+      );
+    }
+  }
+
+  return { write, end };
+}
@@ -0,0 +1,340 @@
+import type { Database, SqlValue } from "sql.js";
+import type { Conversation, Message, MessageProperties } from "../types/messages";
+import type {
+  LegacyConversationRow,
+  LegacyMessageRow,
+  LegacyParticipantRow,
+} from "../types/legacyDb";
+import { debugLog } from "./debug";
+import {
+  LEGACY_DB_EXTS,
+  SKYPE_USER_PREFIX,
+  LEGACY_DIALOG_TYPE,
+  LEGACY_MESSAGE_TYPES,
+  LEGACY_BODY_PATTERNS,
+  LEGACY_FILE_PATTERN,
+  LEGACY_FILE_SIZE_PATTERN,
+} from "../constants/legacyDb";
+
+interface LegacyDatabaseHandlers {
+  onMember: (key: string, value: unknown) => void;
+  onConversation: (conversation: Conversation) => void;
+  onProgress: (progress: number) => void;
+}
+
+/**
+ * Checks whether a dropped file is a legacy Skype desktop database (main.db).
+ */
+export function isLegacyDatabaseFile(file: File): boolean {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return LEGACY_DB_EXTS.has(extension);
+}
+
+/**
+ * Legacy databases store bare Skype names ("alice", "live:bob"); cloud exports
+ * prefix them with "8:". Group chat identities ("#alice/$...") are kept as-is.
+ */
+function toSkypeId(identity: string): string {
+  return identity.startsWith("#") || /^\d+:/.test(identity)
+    ? identity
+    : `${SKYPE_USER_PREFIX}${identity}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function toIsoTime(seconds: number | null): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString() : null;
+}
+
+/**
+ * Converts a legacy body_xml value to the markup used by cloud exports.
+ */
+export function translateLegacyBody(body: string): string {
+  let translated = body;
+  for (const [pattern, replacement] of LEGACY_BODY_PATTERNS) {
+    translated = translated.replace(pattern, replacement);
+  }
+  return translated;
+}
+
+function targetsXml(identities: string[]): string {
+  return identities
+    .map((identity) => `<target>${escapeXml(toSkypeId(identity))}</target>`)
+    .join("");
+}
+
+/**
+ * Maps one Messages row to cloud-format messages. File transfers become one
+ * Media_GenericFile message per file; rows with nothing to show are dropped.
+ */
+function convertLegacyMessage(
+  row: LegacyMessageRow,
+  conversationId: string,
+): Message[] {
+  const body = row.body_xml ?? "";
+  const properties: MessageProperties = {};
+  if (row.edited_timestamp) {
+    // An edit that cleared the body is how the old client recorded deletions
+    properties[body ? "edittime" : "deletetime"] = String(
+      row.edited_timestamp * 1000,
+    );
+  }
+
+  const base: Message = {
+    id: String(row.id),
+    displayName: row.from_dispname,
+    originalarrivaltime: toIsoTime(row.timestamp) ?? "",
+    messagetype: "RichText",
+    version: row.timestamp * 1000,
+    content: translateLegacyBody(body),
+    conversationid: conversationId,
+    from: row.author ? toSkypeId(row.author) : "",
+    properties: Object.keys(properties).length > 0 ? properties : null,
+  };
+  const identities = (row.identities ?? "").split(/\s+/).filter(Boolean);
+
+  switch (row.type) {
+    case LEGACY_MESSAGE_TYPES.Said:
+    case LEGACY_MESSAGE_TYPES.Sms:
+      return [base];
+    case LEGACY_MESSAGE_TYPES.Emote:
+      return [{ ...base, content: `<em>${base.content}</em>` }];
+    case LEGACY_MESSAGE_TYPES.MediaShared:
+      return [{ ...base, messagetype: "RichText/UriObject", content: body }];
+    case LEGACY_MESSAGE_TYPES.ContactsSent:
+      return [{ ...base, messagetype: "RichText/Contacts", content: body }];
+    case LEGACY_MESSAGE_TYPES.FileTransfer:
+      return Array.from(body.matchAll(LEGACY_FILE_PATTERN), (match, index) => {
+        const size = LEGACY_FILE_SIZE_PATTERN.exec(match[1])?.[1];
+        return {
+          ...base,
+          id: index === 0 ? base.id : `${base.id}-${index}`,
+          messagetype: "RichText/Media_GenericFile",
+          content: `<URIObject type="File.1"><OriginalName v="${escapeXml(
+            match[2],
+          )}"/>${size ? `<FileSize v="${size}"/>` : ""}</URIObject>`,
+        };
+      });
+    case LEGACY_MESSAGE_TYPES.CallStarted:
+    case LEGACY_MESSAGE_TYPES.CallEnded: {
+      const callType =
+        row.type === LEGACY_MESSAGE_TYPES.CallStarted ? "started" : "ended";
+      const content = /<partlist[^>]*type="/.test(body)
+        ? body
+        : body.includes("<partlist")
+          ? body.replace("<partlist", `<partlist type="${callType}"`)
+          : `<partlist type="${callType}" alt=""></partlist>`;
+      return [{ ...base, messagetype: "Event/Call", content }];
+    }
+    case LEGACY_MESSAGE_TYPES.MembersAdded:
+      return [
+        {
+          ...base,
+          messagetype: "ThreadActivity/AddMember",
+          content: `<addmember>${targetsXml(identities)}</addmember>`,
+        },
+      ];
+    case LEGACY_MESSAGE_TYPES.MemberKicked:
+    case LEGACY_MESSAGE_TYPES.MemberLeft:
+      return [
+        {
+          ...base,
+          messagetype: "ThreadActivity/DeleteMember",
+          content: `<deletemember>${targetsXml(
+            identities.length > 0 ? identities : [row.author ?? ""],
+          )}</deletemember>`,
+        },
+      ];
+    case LEGACY_MESSAGE_TYPES.TopicSet:
+      return [
+        {
+          ...base,
+          messagetype: "ThreadActivity/TopicUpdate",
+          content: `<topicupdate><value>${escapeXml(body)}</value></topicupdate>`,
+        },
+      ];
+    case LEGACY_MESSAGE_TYPES.ContactRequest:
+      return [
+        {
+          ...base,
+          messagetype: "InviteFreeRelationshipChanged/ContactRequest",
+          content: body ? `Contact request: ${base.content}` : "Contact request",
+        },
+      ];
+    case LEGACY_MESSAGE_TYPES.ContactRequestAccepted:
+      return [
+        {
+          ...base,
+          messagetype: "InviteFreeRelationshipChanged/ContactRequestAccepted",
+          content: "Contact request accepted",
+        },
+      ];
+    case LEGACY_MESSAGE_TYPES.Birthday:
+      return [];
+    default:
+      return body ? [base] : [];
+  }
+}
+
+function convertLegacyConversation(
+  row: LegacyConversationRow,
+  participants: string[],
+): Conversation {
+  const isDialog = row.type === LEGACY_DIALOG_TYPE;
+
+  return {
+    id: toSkypeId(row.identity),
+    displayName:
+      row.given_displayname ||
+      row.displayname ||
+      row.meta_topic ||
+      row.identity,
+    version: (row.creation_timestamp ?? 0) * 1000,
+    properties: {
+      conversationblocked: false,
+      lastimreceivedtime: null,
+      consumptionhorizon: null,
+      conversationstatus: null,
+    },
+    threadProperties: isDialog
+      ? null
+      : {
+          topic: row.meta_topic ?? undefined,
+          membercount: participants.length,
+          members: JSON.stringify(participants.map(toSkypeId)),
+        },
+    MessageList: [],
+  };
+}
+
+function queryRows<T>(db: Database, sql: string): T[] {
+  const statement = db.prepare(sql);
+  const rows: T[] = [];
+  try {
+    while (statement.step()) {
+      rows.push(statement.getAsObject() as Record<string, SqlValue> as T);
+    }
+  } finally {
+    statement.free();
+  }
+  return rows;
+}
+
+function hasTable(db: Database, name: string): boolean {
+  const result = db.exec(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+    [name],
+  );
+  return result.length > 0 && result[0].values.length > 0;
+}
+
+/**
+ * Reads the Conversations, Messages and Participants tables of a legacy Skype desktop
+ * database and reports them in cloud export form. Messages are read in one pass
+ * ordered by conversation, so each conversation is reported as soon as it is complete.
+ */
+export function readLegacyDatabase(
+  db: Database,
+  { onMember, onConversation, onProgress }: LegacyDatabaseHandlers,
+): void {
+  const missingTables = ["Messages", "Conversations"].filter(
+    (table) => !hasTable(db, table),
+  );
+  if (missingTables.length > 0) {
+    throw new Error(
+      `Not a Skype main.db database: ${missingTables.join(" and ")} ${missingTables.length === 1 ? "table" : "tables"} not found`,
+    );
+  }
+
+  const account = hasTable(db, "Accounts")
+    ? queryRows<{ skypename: string | null }>(
+        db,
+        "SELECT skypename FROM Accounts LIMIT 1",
+      )[0]
+    : undefined;
+  if (account?.skypename) {
+    onMember("userId", toSkypeId(account.skypename));
+  }
+
+  const participants = new Map<number, string[]>();
+  if (hasTable(db, "Participants")) {
+    for (const row of queryRows<LegacyParticipantRow>(
+      db,
+      "SELECT convo_id, identity FROM Participants",
+    )) {
+      const list = participants.get(row.convo_id) ?? [];
+      list.push(row.identity);
+      participants.set(row.convo_id, list);
+    }
+  }
+
+  const conversations = new Map<number, LegacyConversationRow>();
+  for (const row of queryRows<LegacyConversationRow>(
+    db,
+    "SELECT id, identity, type, displayname, given_displayname, meta_topic, creation_timestamp FROM Conversations",
+  )) {
+    conversations.set(row.id, row);
+  }
+
+  const totalMessages =
+    (db.exec("SELECT COUNT(*) FROM Messages")[0]?.values[0]?.[0] as number) ||
+    0;
+
+  // Newest first within each conversation, matching cloud export MessageList order
+  const statement = db.prepare(
+    "SELECT id, convo_id, author, from_dispname, timestamp, edited_timestamp, type, body_xml, identities FROM Messages ORDER BY convo_id, timestamp DESC, id DESC",
+  );
+
+  let current: Conversation | null = null;
+  let currentConvoId: number | null = null;
+  let processed = 0;
+
+  const finishConversation = () => {
+    if (current && current.MessageList.length > 0) {
+      current.properties.lastimreceivedtime =
+        current.MessageList[0].originalarrivaltime;
+      onConversation(current);
+    }
+  };
+
+  try {
+    while (statement.step()) {
+      const row = statement.getAsObject() as unknown as LegacyMessageRow;
+
+      if (row.convo_id !== currentConvoId) {
+        finishConversation();
+        currentConvoId = row.convo_id;
+        const conversationRow = conversations.get(row.convo_id);
+        current = conversationRow
+          ? convertLegacyConversation(
+              conversationRow,
+              participants.get(row.convo_id) ?? [],
+            )
+          : null;
+      }
+
+      if (current) {
+        current.MessageList.push(...convertLegacyMessage(row, current.id));
+      }
+
+      processed++;
+      if (processed % 1000 === 0) {
+        onProgress((processed / Math.max(totalMessages, 1)) * 100);
+      }
+    }
+    finishConversation();
+  } finally {
+    statement.free();
+  }
+
+  debugLog("[legacyDbParser] Database read:", {
+    conversations: conversations.size,
+    messages: processed,
+  });
+}
@@ -0,0 +1,140 @@
+import type { LinkPreview, Message } from "../types/messages";
+import { decodeXmlEntities, parseAttributes } from "./markup";
+import {
+  LINK_ANCHOR_PATTERN,
+  LINK_PREVIEW_PROPERTIES,
+} from "../constants/messageProcessor";
+
+/** Skype and Teams name the same preview fields differently */
+interface PreviewData {
+  url?: string;
+  originalUrl?: string;
+  title?: string;
+  description?: string;
+  site_name?: string;
+  siteName?: string;
+  thumbnail?: string | { url?: string };
+  thumbnail_url?: string;
+  thumbnailUrl?: string;
+  image?: string | { url?: string };
+  imageUrl?: string;
+  previewInfo?: {
+    title?: string;
+    description?: string;
+    previewurl?: string;
+  };
+}
+
+function readHttpUrl(value: unknown): string | null {
+  return typeof value === "string" && /^https?:\/\//i.test(value)
+    ? value
+    : null;
+}
+
+function readDomain(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+function readText(value: unknown): string | null {
+  return typeof value === "string" && value.trim()
+    ? decodeXmlEntities(value.trim())
+    : null;
+}
+
+function readPreviewList(message: Message, property: string): PreviewData[] {
+  const value = message.properties?.[property];
+  if (typeof value !== "string") {
+    return Array.isArray(value) ? (value as PreviewData[]) : [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? (parsed as PreviewData[]) : [];
+  } catch (error) {
+    console.error("[linkPreview] Failed to parse link previews:", {
+      error,
+      property,
+      messageId: message.id,
+    });
+    return [];
+  }
+}
+
+function toLinkPreview(data: PreviewData): LinkPreview | null {
+  const url = readHttpUrl(data?.url ?? data?.originalUrl);
+  const domain = url && readDomain(url);
+  if (!url || !domain) return null;
+
+  const thumbnail =
+    typeof data.thumbnail === "object" ? data.thumbnail?.url : data.thumbnail;
+  const image = typeof data.image === "object" ? data.image?.url : data.image;
+
+  return {
+    url,
+    domain,
+    title: readText(data.title ?? data.previewInfo?.title),
+    description: readText(data.description ?? data.previewInfo?.description),
+    siteName: readText(data.site_name ?? data.siteName),
+    thumbnailUrl: readHttpUrl(
+      thumbnail ??
+        data.thumbnail_url ??
+        data.thumbnailUrl ??
+        image ??
+        data.imageUrl ??
+        data.previewInfo?.previewurl,
+    ),
+  };
+}
+
+/** Titled links in the content, for messages whose properties have no previews */
+function readTitledAnchors(content: string): LinkPreview[] {
+  if (!content.includes("<a")) return [];
+
+  const previews: LinkPreview[] = [];
+  for (const [, attributes] of content.matchAll(LINK_ANCHOR_PATTERN)) {
+    const { href, title } = parseAttributes(attributes);
+    const url = readHttpUrl(href);
+    const domain = url && readDomain(url);
+    const text = readText(title);
+    if (!url || !domain || !text || text === url) continue;
+    previews.push({
+      url,
+      domain,
+      title: text,
+      description: null,
+      siteName: null,
+      thumbnailUrl: null,
+    });
+  }
+  return previews;
+}
+
+/**
+ * Collects the link previews an export stored for a message, one per URL. Only what
+ * the export already has is used; the viewer never looks links up itself.
+ */
+export function parseLinkPreviews(message: Message): LinkPreview[] {
+  const previews = new Map<string, LinkPreview>();
+
+  for (const property of LINK_PREVIEW_PROPERTIES) {
+    for (const data of readPreviewList(message, property)) {
+      const preview = toLinkPreview(data);
+      // Entries with nothing beyond the URL would only repeat the link
+      if (preview && (preview.title || preview.description)) {
+        if (!previews.has(preview.url)) previews.set(preview.url, preview);
+      }
+    }
+  }
+
+  if (previews.size === 0) {
+    for (const preview of readTitledAnchors(message.content)) {
+      if (!previews.has(preview.url)) previews.set(preview.url, preview);
+    }
+  }
+
+  return Array.from(previews.values());
+}
@@ -0,0 +1,29 @@
+import { ATTRIBUTE_PATTERN } from "../constants/messageProcessor";
+
+export function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Reads the name="value" attributes of a Skype markup element, with entities decoded.
+ */
+export function parseAttributes(attributes: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [, name, value] of attributes.matchAll(ATTRIBUTE_PATTERN)) {
+    values[name] = decodeXmlEntities(value);
+  }
+  return values;
+}
@@ -1,5 +1,5 @@
-import type { MediaMetadata } from "../types/messages";
-import { IMAGE_EXTS, VIDEO_EXTS } from "../constants/media";
+import type { MediaMetadata, MediaType } from "../types/messages";
+import { IMAGE_EXTS, VIDEO_EXTS, AUDIO_EXTS } from "../constants/media";
 
 const uriObjectPattern =
   /<URIObject[^>]*uri="https:\/\/api\.asm\.skype\.com\/v1\/objects\/([a-zA-Z0-9-]+)"/;
@@ -36,6 +36,10 @@ function isVideoExtension(extension: string): boolean {
   return VIDEO_EXTS.has(extension.toLowerCase());
 }
 
+function isAudioExtension(extension: string): boolean {
+  return AUDIO_EXTS.has(extension.toLowerCase());
+}
+
 async function getMediaMetadata(
   mediaId: string,
   mediaFiles: Map<string, File>,
@@ -56,44 +60,50 @@ async function getMediaMetadata(
 }
 
 /**
- * Creates an object URL for a media file.
+ * Finds the file for a media ID in the export's media folder.
  * Handles file extension detection and alternative extensions (jpg/jpeg).
  */
-export async function createMediaUrl(
+async function getMediaFile(
   mediaId: string,
   mediaFiles: Map<string, File>,
-): Promise<string | null> {
-  try {
-    const metadata = await getMediaMetadata(mediaId, mediaFiles);
-    if (!metadata) {
-      return null;
-    }
+): Promise<File | null> {
+  const metadata = await getMediaMetadata(mediaId, mediaFiles);
+  if (!metadata) {
+    return null;
+  }
 
-    const extension = getFileExtension(metadata.filename);
-    if (!extension) {
-      return null;
-    }
+  const extension = getFileExtension(metadata.filename);
+  if (!extension) {
+    return null;
+  }
 
-    // Skype media files follow pattern: {mediaId}.1.{extension}
-    // The ".1" indicates the first version/variant of the media
-    const mediaFileName = `${mediaId}.1.${extension}`;
-    let mediaFile = mediaFiles.get(mediaFileName);
-
-    // Handle jpg/jpeg extension variations (Skype may store as either)
-    if (!mediaFile && isImageExtension(extension)) {
-      const altExt =
-        extension === "jpg" ? "jpeg" : extension === "jpeg" ? "jpg" : null;
-      if (altExt) {
-        mediaFile = mediaFiles.get(`${mediaId}.1.${altExt}`);
-      }
+  // Skype media files follow pattern: {mediaId}.1.{extension}
+  // The ".1" indicates the first version/variant of the media
+  const mediaFileName = `${mediaId}.1.${extension}`;
+  let mediaFile = mediaFiles.get(mediaFileName);
+
+  // Handle jpg/jpeg extension variations (Skype may store as either)
+  if (!mediaFile && isImageExtension(extension)) {
+    const altExt =
+      extension === "jpg" ? "jpeg" : extension === "jpeg" ? "jpg" : null;
+    if (altExt) {
+      mediaFile = mediaFiles.get(`${mediaId}.1.${altExt}`);
     }
+  }
 
-    if (mediaFile) {
-      const url = URL.createObjectURL(mediaFile);
-      return url;
-    }
+  return mediaFile ?? null;
+}
 
-    return null;
+/**
+ * Creates an object URL for a media file.
+ */
+export async function createMediaUrl(
+  mediaId: string,
+  mediaFiles: Map<string, File>,
+): Promise<string | null> {
+  try {
+    const mediaFile = await getMediaFile(mediaId, mediaFiles);
+    return mediaFile ? URL.createObjectURL(mediaFile) : null;
   } catch (error) {
     console.error("[mediaUtils] Failed to create media URL:", {
       error,
@@ -131,7 +141,7 @@ export async function createVideoThumbnailUrl(
 export async function getMediaType(
   mediaId: string,
   mediaFiles: Map<string, File>,
-): Promise<"image" | "video" | null> {
+): Promise<MediaType | null> {
   const metadata = await getMediaMetadata(mediaId, mediaFiles);
   if (!metadata) {
     return null;
@@ -146,5 +156,7 @@ export async function getMediaType(
     ? "image"
     : isVideoExtension(extension)
       ? "video"
-      : null;
+      : isAudioExtension(extension)
+        ? "audio"
+        : null;
 }
@@ -1,19 +1,44 @@
-import DOMPurify from "dompurify";
 import type {
+  AudioInfo,
+  CallDetails,
+  CallDirection,
+  CallParticipantInfo,
+  CallState,
+  Conversation,
+  ConversationParticipant,
   Message,
+  MessageEdits,
+  MessageEmotion,
+  MessageQuote,
+  MessageReaction,
   ProcessedMessage,
   TranslationContent,
 } from "../types/messages";
 import { extractMediaId } from "./mediaUtils";
-import { parseSkypeEmoji } from "./skypeEmoji";
+import { parseSkypeEmoji, getSkypeEmoji } from "./skypeEmoji";
 import { cleanDisplayName } from "./displayName";
+import { formatFileSize } from "./fileSize";
+import { formatAudioDuration } from "./audio";
+import { decodeXmlEntities, escapeHtml, parseAttributes } from "./markup";
+import { parseSharedContent } from "./sharedContent";
+import { parseLinkPreviews } from "./linkPreview";
+import { extractSuggestedReplies } from "./botMessage";
+import { isBotIdentity } from "./conversationKind";
+import { formatCallDuration, readCallLog, type CallLog } from "./callLog";
+import { AUDIO_EXTS } from "../constants/media";
 import { GROUP_TIME_THRESHOLD } from "../constants/messages";
 import { debugLog } from "./debug";
 import {
   CONTENT_PATTERNS,
-  PURIFY_CONFIG,
+  EDIT_MARKER_PATTERN,
+  EDIT_TIME_PATTERN,
   THREAD_ACTIVITY_PATTERNS,
+  QUOTE_PATTERNS,
+  MENTION_PATTERN,
   CALL_EVENT_PATTERNS,
+  VIDEO_CALL_PATTERN,
+  MEDIA_FILE_PATTERNS,
+  SHARED_CONTENT_MESSAGE_TYPES,
   STRIP_HTML_PATTERN,
   STRIP_SKYPE_PATTERN,
   PREVIEW_MAX_LENGTH,
@@ -21,9 +46,129 @@ import {
 
 interface MessageProcessorContext {
   userId: string;
-  swapRoles: boolean;
+  /** The participant the conversation is shown as: their messages are "You" */
+  viewerId: string;
   mediaFiles?: Map<string, File>;
   skipIds: Set<string>;
+  /** Whether a message id belongs to the conversation being processed */
+  hasMessage?: (messageId: string) => boolean;
+  /** Display name for a member MRI, as seen in the conversation */
+  resolveName?: (mri: string) => string;
+  /** Whether an MRI is a sender or thread member of the conversation */
+  isParticipant?: (mri: string) => boolean;
+}
+
+function readEmotions(message: Message): MessageEmotion[] {
+  const emotions = message.properties?.emotions;
+  if (typeof emotions !== "string") {
+    return Array.isArray(emotions) ? emotions : [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(emotions);
+    return Array.isArray(parsed) ? (parsed as MessageEmotion[]) : [];
+  } catch (error) {
+    console.error("[messageProcessor] Failed to parse emotions:", {
+      error,
+      messageId: message.id,
+    });
+    return [];
+  }
+}
+
+/**
+ * Normalises `properties.emotions` into reactions that have at least one user,
+ * named as they are in the conversation, with each reaction time as an ISO timestamp.
+ */
+function parseReactions(
+  message: Message,
+  context: MessageProcessorContext,
+): MessageReaction[] {
+  const { viewerId, resolveName } = context;
+
+  return readEmotions(message)
+    .filter((emotion) => emotion?.key && emotion.users?.length > 0)
+    .map((emotion) => ({
+      key: emotion.key,
+      emoji: getSkypeEmoji(emotion.key),
+      users: emotion.users.map(({ mri, time }) => {
+        const date = new Date(Number(time));
+        return {
+          id: mri,
+          name: resolveName
+            ? resolveName(mri)
+            : mri === viewerId
+              ? "You"
+              : defaultResolveName(mri),
+          timestamp: Number.isNaN(date.getTime()) ? null : date.toISOString(),
+        };
+      }),
+    }));
+}
+
+/**
+ * Takes `<quote>` blocks out of RichText content. Each becomes a structured quote
+ * (its `<legacyquote>` parts are the plain-text fallback for old clients and are
+ * dropped); what remains is the reply itself.
+ */
+function extractQuotes(
+  content: string,
+  context: MessageProcessorContext,
+): { quotes: MessageQuote[]; reply: string } {
+  if (!content.includes("<quote")) return { quotes: [], reply: content };
+
+  const quotes: MessageQuote[] = [];
+  const reply = content.replace(
+    QUOTE_PATTERNS.Quote,
+    (_, attributes: string, body: string) => {
+      const { author, authorname, timestamp, messageid } =
+        parseAttributes(attributes);
+      const seconds = Number(timestamp);
+
+      quotes.push({
+        authorId: author ?? null,
+        author: cleanDisplayName(authorname) || cleanDisplayName(author),
+        timestamp: seconds ? new Date(seconds * 1000).toISOString() : null,
+        messageId:
+          messageid && context.hasMessage?.(messageid) ? messageid : null,
+        content: parseMessageContent(
+          body.replace(QUOTE_PATTERNS.LegacyQuote, "").trim(),
+        ),
+      });
+      return "";
+    },
+  );
+
+  return { quotes, reply: reply.trim() };
+}
+
+/**
+ * Turns `<at>` mentions into chips carrying the mentioned MRI, named after what the
+ * person was called in the conversation. The text inside the tag is often a raw id or
+ * an old nickname, so it is only used for people the conversation doesn't know.
+ * Mentions of the export owner are marked so they can be emphasised.
+ */
+function resolveMentions(
+  content: string,
+  context: MessageProcessorContext,
+): string {
+  const { resolveName, isParticipant, viewerId } = context;
+  if (!resolveName || !content.includes("<at ")) return content;
+
+  return content.replace(MENTION_PATTERN, (_, mri: string, text: string) => {
+    const isSelf = mri === viewerId;
+    const known = isParticipant?.(mri) ?? false;
+    const tagText = decodeXmlEntities(text).replace(/^@/, "").trim();
+    // resolveName calls the owner "You", which reads oddly after an @
+    const name =
+      (known && !isSelf) || !tagText || tagText === mri
+        ? isSelf
+          ? defaultResolveName(mri)
+          : resolveName(mri)
+        : tagText;
+    const self = isSelf ? ' data-self="true"' : "";
+    return `<span data-mention="${escapeHtml(mri)}"${self}>@${escapeHtml(name)}</span>`;
+  });
 }
 
 function createBaseMessage(
@@ -32,8 +177,8 @@ function createBaseMessage(
   content: string,
   type: ProcessedMessage["type"],
 ): ProcessedMessage {
-  const { userId, swapRoles } = context;
-  const isOwner = swapRoles ? message.from !== userId : message.from === userId;
+  const isOwner = message.from === context.viewerId;
+  const reactions = parseReactions(message, context);
 
   return {
     id: message.id,
@@ -44,6 +189,8 @@ function createBaseMessage(
     from: message.from,
     isOwner,
     originalMessageType: message.messagetype,
+    ...(reactions.length > 0 ? { reactions } : {}),
+    ...(isBotIdentity(message.from) ? { isBot: true } : {}),
   };
 }
 
@@ -51,10 +198,9 @@ function createBaseMessage(
  * Extracts the translated text from a Translation message's JSON content.
  * Translation messages contain metadata about translations in JSON format.
  */
-function parseTranslationContent(content: string): string | null {
+function readTranslationContent(content: string): TranslationContent | null {
   try {
-    const translationData: TranslationContent = JSON.parse(content);
-    return translationData.translations[0]?.translation || null;
+    return JSON.parse(content) as TranslationContent;
   } catch (error) {
     console.error("[messageProcessor] Failed to parse translation content:", {
       error,
@@ -64,6 +210,12 @@ function parseTranslationContent(content: string): string | null {
   }
 }
 
+function parseTranslationContent(content: string): string | null {
+  return (
+    readTranslationContent(content)?.translations?.[0]?.translation || null
+  );
+}
+
 /**
  * Handles Translation message types.
  * 
@@ -74,6 +226,7 @@ function parseTranslationContent(content: string): string | null {
  *   We show the translated text and skip the following RichText (which contains original in sender's language).
  * 
  * This reflects the natural conversation flow where the owner sees messages in their language.
+ * When both sides are known, they are also kept on `translation` for the other display modes.
  */
 function handleTranslation(
   message: Message,
@@ -82,33 +235,49 @@ function handleTranslation(
 ): ProcessedMessage | null {
   const { userId, skipIds } = context;
   const isFromUserId = message.from === userId;
+  const data = readTranslationContent(message.content);
+  const translatedText = data?.translations?.[0]?.translation || null;
+  const original = nextMessage?.messagetype === "RichText" ? nextMessage : null;
+
+  let processed: ProcessedMessage;
 
   // Owner's messages: show original (next RichText), skip Translation metadata
-  if (isFromUserId && nextMessage?.messagetype === "RichText") {
-    skipIds.add(nextMessage.id);
-    return createBaseMessage(
-      { ...nextMessage, from: message.from },
+  if (isFromUserId && original) {
+    skipIds.add(original.id);
+    processed = createBaseMessage(
+      { ...original, from: message.from },
+      context,
+      parseMessageContent(original.content),
+      "text",
+    );
+  } else {
+    // Others' messages: show the translated text from the Translation message's JSON content,
+    // and skip the following RichText message (contains original in sender's language)
+    if (original) {
+      skipIds.add(original.id);
+    }
+    processed = createBaseMessage(
+      message,
       context,
-      parseMessageContent(nextMessage.content),
+      parseMessageContent(translatedText || message.content),
       "text",
     );
   }
 
-  // Others' messages: extract translated text from Translation message's JSON content
-  const translatedText = parseTranslationContent(message.content);
-  const content = translatedText || message.content;
-
-  // Skip the following RichText message (contains original in sender's language)
-  if (nextMessage?.messagetype === "RichText") {
-    skipIds.add(nextMessage.id);
+  // Keep both sides so the conversation can show either, or both stacked
+  if (original && translatedText) {
+    const originalLanguage = data?.oloc || null;
+    const translatedLanguage = data?.translations[0]?.loc || null;
+    processed.translation = {
+      original: parseMessageContent(original.content),
+      translated: parseMessageContent(translatedText),
+      originalLanguage,
+      translatedLanguage,
+      contentLanguage: isFromUserId ? originalLanguage : translatedLanguage,
+    };
   }
 
-  return createBaseMessage(
-    message,
-    context,
-    parseMessageContent(content),
-    "text",
-  );
+  return processed;
 }
 
 function handleMediaMessage(
@@ -139,16 +308,66 @@ function handleMediaMessage(
 }
 
 /**
- * Formats file size in bytes to human-readable format (KB or MB).
+ * Contacts, locations, cards and polls. Returns null when the content can't be read,
+ * so the message falls back to being shown as text.
  */
-function formatFileSize(fileSizeBytes: number): string {
-  const fileSizeKB = fileSizeBytes / 1024;
-  const fileSizeMB = fileSizeKB / 1024;
+function handleSharedContent(
+  message: Message,
+  context: MessageProcessorContext,
+): ProcessedMessage | null {
+  try {
+    const shared = parseSharedContent(message.messagetype, message.content);
+    if (!shared) return null;
+    return {
+      ...createBaseMessage(message, context, shared.content, shared.type),
+      ...shared,
+    };
+  } catch (error) {
+    console.error("[messageProcessor] Failed to parse shared content:", {
+      error,
+      messageId: message.id,
+      messageType: message.messagetype,
+    });
+    return null;
+  }
+}
 
-  if (fileSizeMB >= 1) {
-    return `${fileSizeMB.toFixed(1)} MB`;
+/**
+ * Voice messages are media with an inline player. Their content is the same file
+ * summary shown when the file is missing, so they can still be found by search.
+ */
+function handleAudioMessage(
+  message: Message,
+  context: MessageProcessorContext,
+): ProcessedMessage {
+  const mediaId = extractMediaId(message.content);
+  const hasMedia = Boolean(mediaId && context.mediaFiles);
+
+  const processedMessage = createBaseMessage(
+    message,
+    context,
+    parseMediaFileInfo(message.content),
+    hasMedia ? "media" : "text",
+  );
+
+  if (hasMedia && mediaId) {
+    processedMessage.mediaUrl = mediaId;
+    processedMessage.audio = parseAudioInfo(message.content);
   }
-  return `${fileSizeKB.toFixed(1)} KB`;
+
+  return processedMessage;
+}
+
+function parseAudioInfo(content: string): AudioInfo {
+  const durationMatch = content.match(MEDIA_FILE_PATTERNS.Duration);
+  const durationMs = durationMatch
+    ? parseInt(durationMatch[1] ?? durationMatch[2], 10)
+    : NaN;
+
+  return {
+    filename: content.match(MEDIA_FILE_PATTERNS.OriginalName)?.[1] ?? null,
+    durationMs: Number.isNaN(durationMs) ? null : durationMs,
+  };
 }
 
 /**
@@ -156,8 +375,8 @@ function formatFileSize(fileSizeBytes: number): string {
  * These files are not available in the export, so we only display the metadata.
  */
 function parseGenericFile(content: string): string {
-  const originalNameMatch = content.match(/<OriginalName v="([^"]+)"(?:\s*\/>|><\/OriginalName>)/);
-  const fileSizeMatch = content.match(/<FileSize v="(\d+)"(?:\s*\/>|><\/FileSize>)/);
+  const originalNameMatch = content.match(MEDIA_FILE_PATTERNS.OriginalName);
+  const fileSizeMatch = content.match(MEDIA_FILE_PATTERNS.FileSize);
 
   const filename = originalNameMatch?.[1] || "Unknown file";
   const fileSizeBytes = fileSizeMatch ? parseInt(fileSizeMatch[1], 10) : null;
@@ -170,29 +389,41 @@ function parseGenericFile(content: string): string {
 }
 
 /**
- * Parses media file info (video/image) from URIObject content when media files are not available.
- * Determines if it's a video or image based on the type attribute or filename extension.
+ * Parses media file info (video/image/audio) from URIObject content when media files are not available.
+ * Determines the kind of media based on the type attribute or filename extension;
+ * voice messages also show their duration.
  */
 function parseMediaFileInfo(content: string): string {
-  const originalNameMatch = content.match(/<OriginalName v="([^"]+)"(?:\s*\/>|><\/OriginalName>)/);
-  const fileSizeMatch = content.match(/<FileSize v="(\d+)"(?:\s*\/>|><\/FileSize>)/);
+  const originalNameMatch = content.match(MEDIA_FILE_PATTERNS.OriginalName);
+  const fileSizeMatch = content.match(MEDIA_FILE_PATTERNS.FileSize);
   const typeMatch = content.match(/<URIObject[^>]*type="([^"]+)"/);
 
-  const filename = originalNameMatch?.[1] || "Unknown file";
   const fileSizeBytes = fileSizeMatch ? parseInt(fileSizeMatch[1], 10) : null;
   const type = typeMatch?.[1]?.toLowerCase() || "";
+  const extension = originalNameMatch?.[1].split(".").pop()?.toLowerCase() ?? "";
 
-  // Determine if it's a video or image based on type attribute or filename extension
+  // Determine the kind of media based on type attribute or filename extension
+  const isAudio = type.startsWith("audio") || AUDIO_EXTS.has(extension);
   const isVideo =
-    type.startsWith("video") ||
-    /\.(mp4|avi|mov|wmv|flv|webm|mkv|m4v)$/i.test(filename);
-  const icon = isVideo ? "📹" : "📷";
-
+    !isAudio &&
+    (type.startsWith("video") ||
+      /\.(mp4|avi|mov|wmv|flv|webm|mkv|m4v)$/i.test(originalNameMatch?.[1] ?? ""));
+  const icon = isAudio ? "🎤" : isVideo ? "📹" : "📷";
+  const filename =
+    originalNameMatch?.[1] || (isAudio ? "Voice message" : "Unknown file");
+
+  const details: string[] = [];
+  if (isAudio) {
+    const { durationMs } = parseAudioInfo(content);
+    if (durationMs !== null) details.push(formatAudioDuration(durationMs));
+  }
   if (fileSizeBytes !== null && !Number.isNaN(fileSizeBytes)) {
-    return `${icon} <em>${filename}</em> (${formatFileSize(fileSizeBytes)})`;
+    details.push(formatFileSize(fileSizeBytes));
   }
 
-  return `${icon} <em>${filename}</em>`;
+  return details.length > 0
+    ? `${icon} <em>${filename}</em> (${details.join(", ")})`
+    : `${icon} <em>${filename}</em>`;
 }
 
 function handleSystemMessage(
@@ -226,6 +457,10 @@ function processMessage(
     return null;
   }
 
+  if (isDeletedMessage(message)) {
+    return { ...createBaseMessage(message, context, "", "text"), deleted: true };
+  }
+
   // Translation messages require special handling with lookahead to next message
   if (messagetype === "Translation") {
     return handleTranslation(message, nextMessage, context);
@@ -238,6 +473,15 @@ function processMessage(
     return handleMediaMessage(message, context);
   }
 
+  if (messagetype === "RichText/Media_AudioMsg") {
+    return handleAudioMessage(message, context);
+  }
+
+  if (SHARED_CONTENT_MESSAGE_TYPES.has(messagetype)) {
+    const processed = handleSharedContent(message, context);
+    if (processed) return processed;
+  }
+
   if (messagetype === "RichText/Media_GenericFile") {
     return createBaseMessage(
       message,
@@ -248,28 +492,44 @@ function processMessage(
   }
 
   if (messagetype === "RichText") {
-    return createBaseMessage(
+    const { quotes, reply } = extractQuotes(message.content, context);
+    const { suggestions, content } = isBotIdentity(message.from)
+      ? extractSuggestedReplies(message, reply)
+      : { suggestions: [], content: reply };
+    const processed = createBaseMessage(
       message,
       context,
-      parseMessageContent(message.content),
+      parseMessageContent(resolveMentions(content, context)),
       "text",
     );
+    if (quotes.length > 0) processed.quotes = quotes;
+    if (suggestions.length > 0) processed.suggestedReplies = suggestions;
+    const linkPreviews = parseLinkPreviews(message);
+    if (linkPreviews.length > 0) processed.linkPreviews = linkPreviews;
+    return processed;
   }
 
   if (messagetype.startsWith("ThreadActivity")) {
-    const systemContent = parseThreadActivity(message);
-    return systemContent
-      ? handleSystemMessage(message, context, systemContent, "system")
-      : null;
-  }
+    const systemContent = parseThreadActivity(message, context.resolveName);
+    if (!systemContent) return null;
 
-  if (messagetype.startsWith("Event/Call")) {
-    return createBaseMessage(
+    const processed = handleSystemMessage(
       message,
       context,
-      parseCallEvent(message, context),
-      "call",
+      systemContent,
+      "system",
     );
+    if (messagetype === "ThreadActivity/TopicUpdate") {
+      processed.topic = decodeXmlEntities(readThreadValue(message.content) ?? "");
+    }
+    return processed;
+  }
+
+  if (messagetype.startsWith("Event/Call")) {
+    const { content, call } = parseCallEvent(message, context);
+    const processed = createBaseMessage(message, context, content, "call");
+    processed.call = call;
+    return processed;
   }
 
   if (messagetype === "Notice") {
@@ -324,70 +584,254 @@ function processMessage(
   );
 }
 
+interface EditChains {
+  /** Edits shown through each message that stands for a chain, newest first */
+  edits: Map<string, Message[]>;
+  /** Edits that are shown through another message rather than on their own */
+  foldedIds: Set<string>;
+}
+
+/**
+ * Links edits (which name the message they replace in `skypeeditedid`) to the message
+ * that represents their chain. When the original is missing from the export, the
+ * oldest edit takes its place.
+ */
+function collectEditChains(messages: Message[]): EditChains {
+  const chains = new Map<string, Message[]>();
+  for (const message of messages) {
+    if (!message.skypeeditedid || message.skypeeditedid === message.id) continue;
+    const chain = chains.get(message.skypeeditedid) ?? [];
+    chain.push(message);
+    chains.set(message.skypeeditedid, chain);
+  }
+
+  const edits = new Map<string, Message[]>();
+  const foldedIds = new Set<string>();
+  if (chains.size === 0) return { edits, foldedIds };
+
+  const messageIds = new Set(messages.map((message) => message.id));
+  for (const [originalId, chain] of chains) {
+    const representativeId = messageIds.has(originalId)
+      ? originalId
+      : chain[chain.length - 1].id;
+    const versions = chain.filter((edit) => edit.id !== representativeId);
+    if (versions.length === 0) continue;
+
+    edits.set(representativeId, versions);
+    for (const edit of versions) foldedIds.add(edit.id);
+  }
+
+  return { edits, foldedIds };
+}
+
+function toIsoTime(milliseconds: unknown): string | null {
+  if (milliseconds === undefined || milliseconds === null) return null;
+  const date = new Date(Number(milliseconds));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * When a version was written, from `properties.edittime` or the `<e_m>` marker.
+ */
+function getEditTime(message: Message): string | null {
+  const marker = EDIT_MARKER_PATTERN.exec(message.content);
+  return toIsoTime(
+    message.properties?.edittime ??
+      (marker ? EDIT_TIME_PATTERN.exec(marker[1])?.[1] : undefined),
+  );
+}
+
+/**
+ * Describes how a message was edited, with its earlier versions when the export
+ * has the whole chain. Returns null for messages that were never edited.
+ */
+function describeEdits(
+  message: Message,
+  versions: Message[] | undefined,
+): MessageEdits | null {
+  // Deletions are recorded as edits too, but are not shown as edited text
+  if (message.properties?.deletetime) return null;
+
+  if (versions) {
+    const latest = versions[0];
+    return {
+      timestamp: getEditTime(latest) ?? latest.originalarrivaltime,
+      history: [message, ...versions.slice(1).reverse()].map((version) => ({
+        content: parseMessageContent(version.content),
+        timestamp: version.originalarrivaltime,
+      })),
+    };
+  }
+
+  const timestamp = getEditTime(message);
+  return timestamp !== null || EDIT_MARKER_PATTERN.test(message.content)
+    ? { timestamp, history: [] }
+    : null;
+}
+
+/**
+ * Whether a message was removed by its sender. Skype keeps removed messages with an
+ * empty body, and usually a `deletetime` property.
+ */
+export function isDeletedMessage(message: Message): boolean {
+  if (message.properties?.deletetime) return true;
+
+  const { messagetype } = message;
+  return (
+    (messagetype === "Text" || messagetype.startsWith("RichText")) &&
+    messagetype !== "RichText/Media_Album" &&
+    !message.content.trim()
+  );
+}
+
+export interface MessageProcessor {
+  /** Number of raw messages consumed so far */
+  readonly position: number;
+  readonly done: boolean;
+  /** Processes raw messages up to (not including) `endIndex` and returns the new output */
+  processUntil: (endIndex: number) => ProcessedMessage[];
+}
+
+/**
+ * Reads the member MRIs from a conversation's thread properties, where they are
+ * stored as a JSON array string.
+ */
+export function getThreadMembers(
+  conversation: Pick<Conversation, "threadProperties">,
+): string[] {
+  const members = conversation.threadProperties?.members;
+  if (!members) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(members);
+    return Array.isArray(parsed)
+      ? parsed.filter((member): member is string => typeof member === "string")
+      : [];
+  } catch {
+    return members.split(",").map((member) => member.trim()).filter(Boolean);
+  }
+}
+
+/** Maps each sender's MRI to the newest display name they used */
+function collectMemberNames(messages: Message[]): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const message of messages) {
+    // Senders without a name are kept too, so they still count as participants
+    if (!names.get(message.from)) {
+      names.set(message.from, cleanDisplayName(message.displayName) ?? "");
+    }
+  }
+  return names;
+}
+
+/**
+ * Everyone in a conversation: its senders and thread members, with the newest name
+ * each sender used, sorted by name.
+ */
+export function getConversationParticipants(
+  conversation: Conversation,
+): ConversationParticipant[] {
+  const names = collectMemberNames(conversation.MessageList ?? []);
+  for (const member of getThreadMembers(conversation)) {
+    if (!names.has(member)) names.set(member, "");
+  }
+  names.delete("");
+
+  return Array.from(names, ([id, name]) => ({
+    id,
+    name: name || defaultResolveName(id),
+  })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
 /**
  * Processes raw Skype messages into a format suitable for display.
  * Handles message types, translations, media, and system messages.
+ *
+ * The processor works through a conversation in steps. Translation pairs
+ * that span two steps are handled the same as in one pass, since the skipped ids are
+ * kept between steps. Edit chains are collected up front, so each edited message is
+ * shown once, at the position of the original, with its final text.
  * @param messages - Raw messages from Skype export
- * @param userId - The user's ID for determining message ownership
- * @param swapRoles - If true, swap the perspective (show conversation from other participant's view)
+ * @param userId - The export owner's ID
+ * @param viewerId - The participant to show the conversation as; defaults to the owner
  * @param mediaFiles - Optional map of media files for media message handling
- * @param maxMessages - Optional limit on number of messages to process
  */
-export function processMessages(
+export function createMessageProcessor(
   messages: Message[],
   userId: string,
-  swapRoles = false,
+  viewerId = userId,
   mediaFiles?: Map<string, File>,
-  maxMessages?: number,
-): ProcessedMessage[] {
-  const startTime = performance.now();
+  members: string[] = [],
+): MessageProcessor {
+  let messageIds: Set<string> | null = null;
+  let memberNames: Map<string, string> | null = null;
   const context: MessageProcessorContext = {
     userId,
-    swapRoles,
+    viewerId,
     mediaFiles,
     skipIds: new Set<string>(),
+    // Only built once a quote needs it
+    hasMessage: (messageId) =>
+      (messageIds ??= new Set(messages.map((message) => message.id))).has(
+        messageId,
+      ),
+    // Only built once a group event needs it
+    resolveName: (mri) => {
+      if (mri === viewerId) return "You";
+      memberNames ??= collectMemberNames(messages);
+      return memberNames.get(mri) || defaultResolveName(mri);
+    },
+    isParticipant: (mri) => {
+      memberNames ??= collectMemberNames(messages);
+      return memberNames.has(mri) || members.includes(mri);
+    },
   };
+  const { edits, foldedIds } = collectEditChains(messages);
+  let position = 0;
 
-  const endIndex = maxMessages
-    ? Math.min(maxMessages, messages.length)
-    : messages.length;
-  const processedMessages: ProcessedMessage[] = [];
-
-  debugLog("[messageProcessor] Starting message processing:", {
-    totalMessages: messages.length,
-    maxMessages,
-    endIndex,
-    userId,
-    swapRoles,
-    hasMediaFiles: !!mediaFiles,
-  });
-
-  for (let i = 0; i < endIndex; i++) {
-    const message = messages[i];
-    if (context.skipIds.has(message.id)) continue;
-
-    const nextMessage = messages[i + 1];
-    const processed = processMessage(message, nextMessage, context);
-
-    if (processed) {
-      processedMessages.push(processed);
-    }
-  }
-
-  const duration = performance.now() - startTime;
-  debugLog("[messageProcessor] Message processing complete:", {
-    inputCount: endIndex,
-    outputCount: processedMessages.length,
-    skippedCount: context.skipIds.size,
-    duration: `${duration.toFixed(2)}ms`,
-  });
+  return {
+    get position() {
+      return position;
+    },
+    get done() {
+      return position >= messages.length;
+    },
+    processUntil(endIndex) {
+      const end = Math.min(endIndex, messages.length);
+      const processedMessages: ProcessedMessage[] = [];
+
+      for (; position < end; position++) {
+        const message = messages[position];
+        if (context.skipIds.has(message.id) || foldedIds.has(message.id)) {
+          continue;
+        }
+
+        const versions = edits.get(message.id);
+        const nextMessage = messages[position + 1];
+        const processed = processMessage(
+          versions ? { ...message, content: versions[0].content } : message,
+          nextMessage,
+          context,
+        );
+
+        if (processed) {
+          const edited = processed.deleted
+            ? null
+            : describeEdits(message, versions);
+          if (edited) processed.edited = edited;
+          processedMessages.push(processed);
+        }
+      }
 
-  return processedMessages;
+      return processedMessages;
+    },
+  };
 }
 
 /**
- * Parses and sanitizes message content, converting Skype-specific markup to HTML.
- * Handles emoji, links, formatting, and removes unwanted tags.
+ * Parses message content, converting Skype-specific markup to HTML.
+ * Handles emoji, links, formatting, and removes unwanted tags. The result is
+ * sanitized when it is rendered (see htmlSanitizer), since this may run in a worker.
  */
 function parseMessageContent(content: string): string {
   if (!content) return "";
@@ -398,60 +842,129 @@ function parseMessageContent(content: string): string {
     parsed = parsed.replace(pattern, replacement);
   }
 
-  return DOMPurify.sanitize(parsed, PURIFY_CONFIG);
+  return parsed;
 }
 
-function parseThreadActivity(message: Message): string | null {
-  const { messagetype, content } = message;
+function defaultResolveName(mri: string): string {
+  return cleanDisplayName(mri) || mri;
+}
 
-  if (messagetype === "ThreadActivity/AddMember") {
-    const targetMatches = content.match(THREAD_ACTIVITY_PATTERNS.AddMember);
-    if (!targetMatches) return null;
+function readThreadTargets(content: string): string[] {
+  return Array.from(content.matchAll(THREAD_ACTIVITY_PATTERNS.Target), (match) =>
+    (match[1].match(THREAD_ACTIVITY_PATTERNS.TargetId)?.[1] ?? match[1]).trim(),
+  ).filter(Boolean);
+}
 
-    const members = targetMatches
-      .map(
-        (target) =>
-          target
-            .replace(/<\/?target>/g, "")
-            .split(":")
-            .pop() || "",
-      )
-      .filter(Boolean)
-      .join(", ");
+function readThreadValue(content: string): string | null {
+  return content.match(THREAD_ACTIVITY_PATTERNS.Value)?.[1].trim() ?? null;
+}
 
-    return members ? `Added ${members} to the conversation` : null;
-  }
+function joinNames(names: string[]): string {
+  if (names.length <= 1) return names.join("");
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
 
-  const valueMatch = content.match(THREAD_ACTIVITY_PATTERNS.Value);
-  if (!valueMatch) return null;
+/**
+ * Describes a group chat event (members, topic, picture, roles, settings) as a system
+ * line. Initiators and targets are member MRIs, turned into names by `resolveName`.
+ */
+function parseThreadActivity(
+  message: Message,
+  resolveName: (mri: string) => string = defaultResolveName,
+): string | null {
+  const { messagetype, content } = message;
+  const activity = messagetype.slice("ThreadActivity/".length);
+  const initiatorId = content.match(THREAD_ACTIVITY_PATTERNS.Initiator)?.[1];
+  const initiator = initiatorId ? resolveName(initiatorId) : null;
+  const targetIds = readThreadTargets(content);
+  const targets = joinNames(targetIds.map(resolveName));
+  const selfTargeted =
+    targetIds.length === 0 ||
+    (targetIds.length === 1 && targetIds[0] === initiatorId);
+
+  switch (activity) {
+    case "AddMember":
+    case "LegacyMemberAdded":
+      if (!targets) return null;
+      if (initiator && selfTargeted) return `${initiator} joined the conversation`;
+      return initiator
+        ? `${initiator} added ${targets}`
+        : `Added ${targets} to the conversation`;
+
+    case "MemberJoined":
+      return targets || initiator
+        ? `${targets || initiator} joined the conversation`
+        : null;
+
+    case "DeleteMember":
+    case "MemberLeft":
+      if (!targets && !initiator) return null;
+      if (selfTargeted || !initiator) {
+        return `${targets || initiator} left the conversation`;
+      }
+      return `${initiator} removed ${targets}`;
+
+    case "TopicUpdate": {
+      const topic = readThreadValue(content);
+      const who = initiator ?? "Someone";
+      return topic
+        ? `${who} renamed the group to '${topic}'`
+        : `${who} removed the group name`;
+    }
 
-  const value = valueMatch[1].toLowerCase() === "true";
+    case "PictureUpdate":
+      return `${initiator ?? "Someone"} changed the group picture`;
 
-  if (messagetype === "ThreadActivity/HistoryDisclosedUpdate") {
-    return value ? "Chat history is now visible" : "Chat history is now hidden";
-  }
+    case "RoleUpdate": {
+      const role = content.match(THREAD_ACTIVITY_PATTERNS.Role)?.[1];
+      if (!targets || !role) return null;
+      const roleName = role.toLowerCase() === "admin" ? "an admin" : "a member";
+      return initiator
+        ? `${initiator} made ${targets} ${roleName}`
+        : `${targets} is now ${roleName}`;
+    }
 
-  if (messagetype === "ThreadActivity/JoiningEnabledUpdate") {
-    return value
-      ? "Anyone can join this conversation"
-      : "Joining this conversation is restricted";
-  }
+    case "HistoryDisclosedUpdate":
+    case "JoiningEnabledUpdate": {
+      const value = readThreadValue(content);
+      if (value === null) return null;
+      const enabled = value.toLowerCase() === "true";
+
+      if (activity === "HistoryDisclosedUpdate") {
+        if (!initiator) {
+          return enabled
+            ? "Chat history is now visible"
+            : "Chat history is now hidden";
+        }
+        return enabled
+          ? `${initiator} made chat history visible to new members`
+          : `${initiator} hid chat history from new members`;
+      }
 
-  return null;
+      if (!initiator) {
+        return enabled
+          ? "Anyone can join this conversation"
+          : "Joining this conversation is restricted";
+      }
+      return enabled
+        ? `${initiator} let anyone join with a link`
+        : `${initiator} turned off joining with a link`;
+    }
+
+    case "LegacyMemberUpgraded":
+      return "The conversation was upgraded";
+
+    default:
+      return initiator
+        ? `${initiator} changed the conversation settings`
+        : "The conversation settings were changed";
+  }
 }
 
 interface CallParticipant {
   identity: string;
   name: string;
-}
-
-function formatCallDuration(seconds: number): string {
-  const minutes = Math.floor(seconds / 60);
-  const remainingSeconds = Math.floor(seconds % 60);
-
-  return minutes > 0
-    ? `${minutes}m ${remainingSeconds}s`
-    : `${remainingSeconds}s`;
+  durationSeconds: number | null;
 }
 
 function normaliseParticipantName(
@@ -473,8 +986,7 @@ function extractCallDetails(content: string): {
   participants: CallParticipant[];
   maxDuration: number | null;
 } {
-  const participantData: CallParticipant[] = [];
-  const seenIdentities = new Set<string>();
+  const participants = new Map<string, CallParticipant>();
   let maxDuration = 0;
 
   let partMatch: RegExpExecArray | null;
@@ -483,14 +995,16 @@ function extractCallDetails(content: string): {
     const partBody = partMatch[2] ?? "";
     const identityKey = identity.toLowerCase();
 
-    if (!seenIdentities.has(identityKey)) {
-      seenIdentities.add(identityKey);
+    let participant = participants.get(identityKey);
+    if (!participant) {
       const nameMatch = partBody.match(CALL_EVENT_PATTERNS.Name);
       const name = nameMatch?.[1] ?? "";
-      participantData.push({
+      participant = {
         identity,
         name: normaliseParticipantName(name, identity),
-      });
+        durationSeconds: null,
+      };
+      participants.set(identityKey, participant);
     }
 
     const durationMatch = partBody.match(CALL_EVENT_PATTERNS.Duration);
@@ -498,124 +1012,165 @@ function extractCallDetails(content: string): {
       const seconds = parseFloat(durationMatch[1]);
       if (!Number.isNaN(seconds)) {
         maxDuration = Math.max(maxDuration, seconds);
+        participant.durationSeconds = Math.max(
+          participant.durationSeconds ?? 0,
+          seconds,
+        );
       }
     }
   }
 
   return {
-    participants: participantData,
+    participants: Array.from(participants.values()),
     maxDuration: maxDuration > 0 ? maxDuration : null,
   };
 }
 
+function callIdentityKey(identity: string): string {
+  return identity.toLowerCase().replace(/^\d+:/, "");
+}
+
+function readCallState(
+  rawType: string | undefined,
+  callLog: CallLog | null,
+): CallState | null {
+  if (callLog?.state) return callLog.state;
+  if (rawType === "missed") return "missed";
+  if (rawType === "started") return "started";
+  if (rawType === "ended") return "connected";
+  return null;
+}
+
+function describeCall(call: CallDetails, rawType: string | undefined): string {
+  const kind = call.isVideo ? "video call" : "call";
+  const label = call.isVideo ? "Video call" : "Call";
+
+  switch (call.state) {
+    case "missed":
+      return `Missed ${kind}`;
+    case "declined":
+      return `Declined ${kind}`;
+    case "started":
+      return `${label} started`;
+    case "connected":
+      return `${label} ended`;
+    default:
+      return rawType ? `${label} ${rawType}` : `${label} event`;
+  }
+}
+
 /**
- * Parses call event messages and formats them with participant names.
- * Handles role swapping: when viewing from another participant's perspective,
- * "You" refers to that participant, not the original user.
+ * Parses call event messages from the `<partlist>` markup and `properties.callLog`,
+ * into call details and a one-line summary with participant names.
+ * "You" is whoever the conversation is shown as, which need not be the export owner.
  */
 function parseCallEvent(
   message: Message,
   context: MessageProcessorContext,
-): string {
+): { content: string; call: CallDetails } {
   const typeMatch = message.content.match(CALL_EVENT_PATTERNS.Type);
   const rawType = typeMatch?.[1]?.toLowerCase();
   const { participants: participantData, maxDuration } = extractCallDetails(
     message.content,
   );
-  const { userId, swapRoles } = context;
-  const userIdLower = userId.toLowerCase();
-  const userCleanLower =
-    cleanDisplayName(userId)?.toLowerCase() ?? userIdLower;
-
-  // Normalise participant identities for comparison (handle both raw IDs and display names)
-  const participants = participantData.map((participant) => ({
-    identityLower: participant.identity.toLowerCase(),
-    cleanIdentityLower:
-      cleanDisplayName(participant.identity)?.toLowerCase() ??
-      participant.identity.toLowerCase(),
-    label: participant.name,
-  }));
-
-  // Determine viewer identity: if role-swapped, use the other participant's identity
-  let viewerIdentityLower = userIdLower;
-  let viewerCleanLower = userCleanLower;
-
-  if (swapRoles) {
-    const otherParticipant = participants.find(
-      (participant) =>
-        participant.identityLower !== userIdLower &&
-        participant.cleanIdentityLower !== userCleanLower,
-    );
-
-    if (otherParticipant) {
-      viewerIdentityLower = otherParticipant.identityLower;
-      viewerCleanLower = otherParticipant.cleanIdentityLower;
+  const callLog = readCallLog(message);
+  const { userId, viewerId } = context;
+  const viewerIdLower = viewerId.toLowerCase();
+  const viewerCleanLower =
+    cleanDisplayName(viewerId)?.toLowerCase() ?? viewerIdLower;
+
+  // Participants only the call log knows about, e.g. on missed calls. The log uses
+  // full MRIs ("8:live:…") where the partlist often leaves the prefix off
+  const knownIdentities = new Set(
+    participantData.map((participant) => callIdentityKey(participant.identity)),
+  );
+  for (const logged of callLog?.participants ?? []) {
+    if (!knownIdentities.has(callIdentityKey(logged.id))) {
+      knownIdentities.add(callIdentityKey(logged.id));
+      participantData.push({
+        identity: logged.id,
+        name: normaliseParticipantName(logged.name, logged.id),
+        durationSeconds: null,
+      });
     }
   }
 
-  // Map participants to labels, replacing viewer with "You"
-  const participantLabels = participants.map((participant) => {
-    const isViewer =
-      participant.identityLower === viewerIdentityLower ||
-      participant.cleanIdentityLower === viewerCleanLower;
+  // Partlist identities may be raw IDs or display names
+  const isViewer = (identity: string) => {
+    const identityLower = identity.toLowerCase();
+    return (
+      identityLower === viewerIdLower ||
+      callIdentityKey(identity) === callIdentityKey(viewerIdLower) ||
+      (cleanDisplayName(identity)?.toLowerCase() ?? identityLower) ===
+        viewerCleanLower
+    );
+  };
 
-    if (isViewer) {
-      return "You";
-    }
+  // Map participants to labels, replacing viewer with "You"
+  const callParticipants: CallParticipantInfo[] = participantData.map(
+    (participant) => ({
+      id: participant.identity,
+      name: isViewer(participant.identity) ? "You" : participant.name,
+      durationSeconds: participant.durationSeconds,
+    }),
+  );
 
-    // When role-swapped, show the original user's name (not "You")
-    if (swapRoles) {
-      if (
-        participant.identityLower === userIdLower ||
-        participant.cleanIdentityLower === userCleanLower
-      ) {
-        return participant.label;
-      }
-    }
+  // The call log's direction is the export owner's; the originator works for anyone
+  let direction: CallDirection | null = null;
+  if (callLog?.originator) {
+    direction = isViewer(callLog.originator) ? "outgoing" : "incoming";
+  } else if (callLog?.direction && viewerId === userId) {
+    direction = callLog.direction;
+  }
 
-    return participant.label;
-  });
+  const state = readCallState(rawType, callLog);
+  const durationSeconds =
+    maxDuration ??
+    (state === "connected" && callLog?.connectTime && callLog.endTime
+      ? Math.max(
+          0,
+          (Date.parse(callLog.endTime) - Date.parse(callLog.connectTime)) /
+            1000,
+        ) || null
+      : null);
+  const endTime =
+    callLog?.endTime ??
+    (rawType === "ended" ? message.originalarrivaltime : null);
+  const startTime =
+    callLog?.connectTime ??
+    callLog?.startTime ??
+    (rawType === "started"
+      ? message.originalarrivaltime
+      : endTime && durationSeconds
+        ? new Date(Date.parse(endTime) - durationSeconds * 1000).toISOString()
+        : null);
+
+  const call: CallDetails = {
+    state,
+    direction,
+    isVideo:
+      (callLog?.isVideo ?? false) ||
+      VIDEO_CALL_PATTERN.test(
+        message.content.match(CALL_EVENT_PATTERNS.PartList)?.[0] ?? "",
+      ),
+    startTime,
+    endTime,
+    durationSeconds,
+    participants: callParticipants,
+  };
 
-  const participantsText =
-    participantLabels.length > 0 ? participantLabels.join(", ") : "";
+  const participantsText = callParticipants
+    .map((participant) => participant.name)
+    .join(", ");
   const durationText =
-    typeof maxDuration === "number"
-      ? formatCallDuration(maxDuration)
+    state === "connected" && durationSeconds !== null
+      ? formatCallDuration(durationSeconds)
       : null;
+  const content = [describeCall(call, rawType), durationText, participantsText]
+    .filter(Boolean)
+    .join(" • ");
 
-  if (!rawType) {
-    return participantsText
-      ? `Call event • ${participantsText}`
-      : "Call event";
-  }
-
-  if (rawType === "started") {
-    return participantsText
-      ? `Call started • ${participantsText}`
-      : "Call started";
-  }
-
-  if (rawType === "missed") {
-    return participantsText
-      ? `Missed call • ${participantsText}`
-      : "Missed call";
-  }
-
-  if (rawType === "ended") {
-    if (durationText && participantsText) {
-      return `Call ended • ${durationText} • ${participantsText}`;
-    }
-    if (durationText) {
-      return `Call ended • ${durationText}`;
-    }
-    return participantsText
-      ? `Call ended • ${participantsText}`
-      : "Call ended";
-  }
-
-  return participantsText
-    ? `Call ${rawType} • ${participantsText}`
-    : `Call ${rawType}`;
+  return { content, call };
 }
 
 interface NoticeAttachment {
@@ -763,6 +1318,10 @@ export function getMessagePreview(
 ): string {
   const { messagetype, content, from } = message;
 
+  if (isDeletedMessage(message)) {
+    return "This message has been removed";
+  }
+
   if (messagetype === "Translation") {
     if (from === userId && nextMessage?.messagetype === "RichText") {
       return getPreviewText(nextMessage.content);
@@ -795,6 +1354,27 @@ export function getMessagePreview(
     return parseGenericFile(content);
   }
 
+  if (messagetype === "RichText/Media_AudioMsg") {
+    return parseMediaFileInfo(content);
+  }
+
+  if (SHARED_CONTENT_MESSAGE_TYPES.has(messagetype)) {
+    try {
+      const shared = parseSharedContent(messagetype, content);
+      if (shared) return shared.content;
+    } catch (error) {
+      console.error(
+        "[messageProcessor] Failed to parse shared content for preview:",
+        {
+          error,
+          messageId: message.id,
+          messagetype,
+        },
+      );
+    }
+    return getPreviewText(content);
+  }
+
   if (
     messagetype === "RichText/UriObject" ||
     messagetype === "RichText/Media_Video"
@@ -827,10 +1407,10 @@ export function getMessagePreview(
     try {
       const previewContext: MessageProcessorContext = {
         userId,
-        swapRoles: false,
+        viewerId: userId,
         skipIds: new Set(),
       };
-      return parseCallEvent(message, previewContext);
+      return parseCallEvent(message, previewContext).content;
     } catch (error) {
       console.error(
         "[messageProcessor] Failed to parse Call event for preview:",
@@ -18,7 +18,7 @@ function stripHtmlForSearch(html: string): string {
 
 /**
  * Checks if a message matches the search query.
- * Searches in content and display name.
+ * Searches in content (both sides of a translated message) and display name.
  */
 function messageMatchesSearch(
   message: ProcessedMessage,
@@ -27,11 +27,15 @@ function messageMatchesSearch(
   if (!query.trim()) return true;
 
   const searchQuery = query.toLowerCase().trim();
-  const contentText = stripHtmlForSearch(message.content).toLowerCase();
+  const texts = message.translation
+    ? [message.translation.original, message.translation.translated]
+    : [message.content];
   const displayNameText = (message.displayName || "").toLowerCase();
 
   return (
-    contentText.includes(searchQuery) || displayNameText.includes(searchQuery)
+    texts.some((text) =>
+      stripHtmlForSearch(text).toLowerCase().includes(searchQuery),
+    ) || displayNameText.includes(searchQuery)
   );
 }
 
@@ -0,0 +1,36 @@
+import { SHORT_CALLING_CODES } from "../constants/conversations";
+
+function groupDigits(digits: string): string {
+  // Groups of four from the end, the rest up front: 20 7946 0958
+  const groups: string[] = [];
+  let rest = digits;
+  while (rest.length > 4) {
+    groups.unshift(rest.slice(-4));
+    rest = rest.slice(0, -4);
+  }
+  if (rest) groups.unshift(rest);
+  return groups.join(" ");
+}
+
+/**
+ * Formats a phone number from a Skype identity ("+442079460958") for display:
+ * "+1 (212) 555-0123" for North America, "+44 20 7946 0958" elsewhere. Anything
+ * that isn't an international number is returned unchanged.
+ */
+export function formatPhoneNumber(raw: string): string {
+  const digits = raw.replace(/[\s().-]/g, "");
+  const match = digits.match(/^\+?(\d{7,15})$/);
+  if (!match) return raw;
+
+  const number = match[1];
+  if (number.length === 11 && number.startsWith("1")) {
+    return `+1 (${number.slice(1, 4)}) ${number.slice(4, 7)}-${number.slice(7)}`;
+  }
+
+  const codeLength = SHORT_CALLING_CODES.has(number.slice(0, 1))
+    ? 1
+    : SHORT_CALLING_CODES.has(number.slice(0, 2))
+      ? 2
+      : 3;
+  return `+${number.slice(0, codeLength)} ${groupDigits(number.slice(codeLength))}`;
+}
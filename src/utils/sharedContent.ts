@@ -0,0 +1,256 @@
+import type {
+  CardButton,
+  MessageCard,
+  MessagePoll,
+  ProcessedMessage,
+  SharedContact,
+  SharedLocation,
+} from "../types/messages";
+import { parseAttributes } from "./markup";
+import { SHARED_CONTENT_PATTERNS } from "../constants/messageProcessor";
+
+type SharedContent = Pick<
+  ProcessedMessage,
+  "type" | "content" | "contacts" | "location" | "card" | "poll"
+>;
+
+interface SwiftAttachment {
+  contentType?: string;
+  content?: CardContent;
+}
+
+interface SwiftPayload {
+  attachments?: SwiftAttachment[];
+}
+
+interface CardAction {
+  type?: string;
+  title?: string;
+  url?: string;
+  value?: string;
+}
+
+interface CardElement {
+  type?: string;
+  text?: string;
+  inlines?: (CardElement | string)[];
+  facts?: { title?: string; value?: string }[];
+  items?: CardElement[];
+  columns?: CardElement[];
+}
+
+interface PollOptionData {
+  title?: string;
+  text?: string;
+  votes?: number;
+  count?: number;
+  voters?: unknown[];
+}
+
+interface CardContent {
+  type?: string;
+  title?: string;
+  subtitle?: string;
+  text?: string;
+  body?: CardElement[];
+  actions?: CardAction[];
+  buttons?: CardAction[];
+  question?: string;
+  options?: PollOptionData[];
+  choices?: PollOptionData[];
+}
+
+/** Skype stores coordinates as integer micro-degrees; other sources use degrees */
+function parseCoordinate(value: string | undefined): number | null {
+  if (!value) return null;
+  const number = Number(value);
+  if (!Number.isFinite(number)) return null;
+  return value.includes(".") ? number : number / 1_000_000;
+}
+
+function parseContacts(content: string): SharedContact[] {
+  const contacts: SharedContact[] = [];
+  for (const [, attributes] of content.matchAll(
+    SHARED_CONTENT_PATTERNS.Contact,
+  )) {
+    const { s, f } = parseAttributes(attributes);
+    if (s) contacts.push({ name: f || null, skypeId: s });
+  }
+  return contacts;
+}
+
+function parseLocation(content: string): SharedLocation | null {
+  const attributes = content.match(SHARED_CONTENT_PATTERNS.Location)?.[1];
+  if (attributes === undefined) return null;
+
+  const { address, pointOfInterest, latitude, longitude } =
+    parseAttributes(attributes);
+  return {
+    address: address || pointOfInterest || null,
+    latitude: parseCoordinate(latitude),
+    longitude: parseCoordinate(longitude),
+  };
+}
+
+function decodeSwiftPayload(content: string): SwiftPayload | null {
+  const encoded = content.match(SHARED_CONTENT_PATTERNS.Swift)?.[1];
+  if (!encoded) return null;
+
+  const bytes = Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes)) as SwiftPayload;
+}
+
+function readPoll(content: CardContent): MessagePoll | null {
+  const options = content.options ?? content.choices;
+  const question = content.question ?? content.title;
+  if (!question || !Array.isArray(options)) return null;
+
+  const pollOptions = options.map((option) => ({
+    text: option.title ?? option.text ?? "",
+    votes: option.votes ?? option.count ?? option.voters?.length ?? 0,
+  }));
+
+  return {
+    question,
+    options: pollOptions,
+    totalVotes: pollOptions.reduce((total, option) => total + option.votes, 0),
+  };
+}
+
+function readButtons(actions: CardAction[] | undefined): CardButton[] {
+  return (actions ?? [])
+    .filter((action) => action.title)
+    .map((action) => {
+      const target = action.url ?? action.value ?? null;
+      return {
+        title: action.title as string,
+        url: target && /^https?:\/\//i.test(target) ? target : null,
+      };
+    });
+}
+
+/** Walks an Adaptive card body, collecting text and facts in reading order */
+function readAdaptiveBody(
+  elements: CardElement[] | undefined,
+  card: MessageCard,
+): void {
+  for (const element of elements ?? []) {
+    if (element.type === "TextBlock" && element.text) {
+      card.lines.push(element.text);
+    } else if (element.type === "RichTextBlock" && element.inlines) {
+      const text = element.inlines
+        .map((inline) => (typeof inline === "string" ? inline : inline.text))
+        .join("");
+      if (text) card.lines.push(text);
+    } else if (element.type === "FactSet" && element.facts) {
+      for (const fact of element.facts) {
+        card.facts.push({ title: fact.title ?? "", value: fact.value ?? "" });
+      }
+    } else if (element.columns) {
+      for (const column of element.columns) {
+        readAdaptiveBody(column.items, card);
+      }
+    } else if (element.items) {
+      readAdaptiveBody(element.items, card);
+    }
+  }
+}
+
+/**
+ * Images in cards point at remote servers, so they are left out to keep the viewer
+ * offline; links are kept as buttons the user can choose to open.
+ */
+function readCard(content: CardContent): MessageCard {
+  if (content.type === "AdaptiveCard") {
+    const card: MessageCard = {
+      title: null,
+      subtitle: null,
+      lines: [],
+      facts: [],
+      buttons: readButtons(content.actions),
+    };
+    readAdaptiveBody(content.body, card);
+    // The first text block of an Adaptive card acts as its heading
+    card.title = card.lines.shift() ?? null;
+    return card;
+  }
+
+  return {
+    title: content.title ?? null,
+    subtitle: content.subtitle ?? null,
+    lines: content.text ? [content.text] : [],
+    facts: [],
+    buttons: readButtons(content.buttons),
+  };
+}
+
+function readSwiftContent(payload: SwiftPayload | null): SharedContent | null {
+  const content = payload?.attachments?.[0]?.content;
+  if (!content) return null;
+
+  const poll = readPoll(content);
+  if (poll && (content.options || content.choices)) {
+    return { type: "poll", content: `📊 ${poll.question}`, poll };
+  }
+
+  const card = readCard(content);
+  return {
+    type: "card",
+    content: card.title ?? card.lines[0] ?? "Card",
+    card,
+  };
+}
+
+function describeContact(contact: SharedContact): string {
+  return contact.name ? `${contact.name} (${contact.skypeId})` : contact.skypeId;
+}
+
+/**
+ * Parses contacts, locations, cards and polls into their structured form, with a
+ * plain-text summary as the content (used for search and previews).
+ * Returns null when the content has nothing recognisable; malformed card JSON throws.
+ */
+export function parseSharedContent(
+  messagetype: string,
+  content: string,
+): SharedContent | null {
+  if (messagetype === "RichText/Contacts") {
+    const contacts = parseContacts(content);
+    if (contacts.length === 0) return null;
+    return {
+      type: "contact",
+      content: `👤 ${contacts.map(describeContact).join(", ")}`,
+      contacts,
+    };
+  }
+
+  if (messagetype === "RichText/Location") {
+    const location = parseLocation(content);
+    if (!location) return null;
+    const coordinates =
+      location.latitude !== null && location.longitude !== null
+        ? `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`
+        : "Shared location";
+    return {
+      type: "location",
+      content: `📍 ${location.address ?? coordinates}`,
+      location,
+    };
+  }
+
+  if (messagetype === "Poll") {
+    // Polls come either as bare JSON or wrapped in a Swift card
+    const payload: SwiftPayload | CardContent | null = content
+      .trimStart()
+      .startsWith("{")
+      ? (JSON.parse(content) as SwiftPayload | CardContent)
+      : decodeSwiftPayload(content);
+    const poll =
+      payload && "attachments" in payload
+        ? readSwiftContent(payload)?.poll
+        : payload && readPoll(payload as CardContent);
+    return poll ? { type: "poll", content: `📊 ${poll.question}`, poll } : null;
+  }
+
+  return readSwiftContent(decodeSwiftPayload(content));
+}
@@ -1,306 +1,108 @@
-/**
- * Maps Skype emoji shortcodes to their Unicode emoji equivalents.
- * Handles both XML tags (<ss type="smile">) and shorthand notation ((smile)).
- */
-const skypeEmojiMap: Record<string, string> = {
-  smile: "😊",
-  sadsmile: "🙁",
-  bigsmile: "😃",
-  cool: "😎",
-  wink: "😉",
-  crying: "😢",
-  sweat: "😓",
-  speechless: "😶",
-  kiss: "😘",
-  kissingfacewithsmilingeyes: "😙",
-  "1f619_kissingfacewithsmilingeyes": "😙",
-  tongueout: "😛",
-  blush: "😊",
-  wonder: "😕",
-  sleepy: "😴",
-  dull: "😒",
-  inlove: "😍",
-  evilgrin: "😈",
-  talking: "🗣️",
-  yawn: "🥱",
-  puke: "🤮",
-  doh: "🤦",
-  angry: "😠",
-  wasntme: "🤷",
-  party: "🥳",
-  worried: "😟",
-  mmm: "😋",
-  nerd: "🤓",
-  lipssealed: "🤐",
-  devil: "😈",
-  angel: "😇",
-  envy: "😒",
-  makeup: "💄",
-  think: "🤔",
-  rofl: "🤣",
-  happy: "😊",
-  smirk: "😏",
-  emo: "😔",
-  surprise: "😲",
-  swear: "🤬",
-  giggle: "😆",
-  wondering: "🤔",
-  sleepless: "😫",
-  snooze: "😴",
-  sick: "🤒",
-  sweating: "😰",
-  smiling: "😊",
-  grinning: "😁",
-  fearful: "😨",
-  relieved: "😌",
-  triumph: "😤",
-  unamused: "😑",
-  facepalm: "🤦",
-  shrug: "🤷",
-  fubar: "😵",
-  inpain: "😣",
-  bandit: "😎",
-  confident: "😎",
-  confidential: "🤐",
-  malthe: "😄",
-  nerdy: "🤓",
-  oliver: "😊",
-  selfie: "🤳",
-  toivo: "😄",
-  lol: "😂",
-  sob: "😭",
-  loudlycrying: "😭",
-  joy: "😂",
-  grin: "😁",
-  stuck: "😛",
-  sunglasses: "😎",
-  neutral: "😐",
-  nomouth: "😶",
-  innocent: "😇",
-  smileeyes: "😊",
-  smilingeyes: "😊",
-  relaxed: "☺️",
-  yum: "😋",
-  drunk: "🥴",
-  facewithmonocle: "🧐",
-  mindblown: "🤯",
-  kissingclosedeyes: "😚",
-  smilingfacewithtear: "🥲",
-  pleadingface: "🥺",
-  disguisedface: "🥸",
-  partyingface: "🥳",
-  woozyface: "🥴",
-  dottedlineface: "🫥",
-  facewithdiagonalmouth: "🫤",
-  shakingface: "🫨",
-  smilingfacewithhalo: "😇",
-  smilingfacewithhorns: "😈",
-  skull: "💀",
-  skullandcrossbones: "☠️",
+import {
+  EMOTICON_ID_PATTERNS,
+  SKIN_TONE_MODIFIERS,
+  SKYPE_EMOTICONS,
+} from "../constants/skypeEmoticons";
+import { escapeHtml } from "./markup";
 
-  hi: "👋",
-  wave: "👋",
-  bye: "👋",
-  clap: "👏",
-  bow: "🙇",
-  pray: "🙏",
-  rock: "🤘",
-  muscle: "💪",
-  handshake: "🤝",
-  nod: "👍",
-  shake: "👎",
-  yes: "✔️",
-  no: "❌",
-  talktothehand: "🖐️",
-  finger: "☝️",
-  pointupindex: "☝️",
-  fingers: "🤞",
-  highfive: "🙌",
-  ok: "👌",
-  punch: "👊",
-  victory: "✌️",
-  thumbsup: "👍",
-  thumbsdown: "👎",
-  thumbs: "👍",
-  fist: "👊",
-  v: "✌️",
-  raised: "✋",
-  raisedhand: "✋",
-  raisedback: "🤚",
-  vulcan: "🖖",
-  middlefinger: "🖕",
-  headbang: "🤘",
-  flex: "💪",
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 
-  womanartist: "👩‍🎨",
+/** One pass over the text: longest ids first, with optional tone suffix or a flag */
+const shorthandPattern = new RegExp(
+  `\\((flag:[a-z]{2}|(?:${Object.keys(SKYPE_EMOTICONS)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|")})(?:_[1-5])?)\\)`,
+  "gi",
+);
 
-  heart: "❤️",
-  brokenheart: "💔",
-  hearthands: "🫶",
-  love: "😍",
-  lips: "👄",
-  hug: "🤗",
-  kissmark: "💋",
-  hearteyes: "😍",
-  heartkiss: "😘",
+const ssTagPattern =
+  /<ss[^>]*type="([^"]+)"[^>]*>[\s\S]*?<\/ss>/gi;
 
-  dog: "🐕",
-  cat: "🐈",
-  penguin: "🐧",
-  penguinkiss: "🐧😘",
-  panda: "🐼",
-  monkey: "🐵",
-  hedgehog: "🦔",
-  llama: "🦙",
-  sheep: "🐑",
-  pig: "🐷",
-  flower: "🌸",
-  sun: "☀️",
-  moon: "🌙",
-  star: "⭐",
-  rain: "🌧️",
-  rainbow: "🌈",
-  cloud: "☁️",
-  lightning: "⚡",
-  snowflake: "❄️",
-  fire: "🔥",
-  nazar: "🧿",
-  sparkles: "✨",
+const TAG_SPLIT_PATTERN = /(<[^>]*>)/;
 
-  coffee: "☕",
-  pizza: "🍕",
-  cake: "🎂",
-  beer: "🍺",
-  drink: "🍹",
-  wine: "🍷",
+const EMOJI_MODIFIER_BASE = /\p{Emoji_Modifier_Base}/u;
 
-  gift: "🎁",
-  camera: "📷",
-  phone: "📱",
-  call: "📞",
-  plane: "✈️",
-  car: "🚗",
-  bike: "🚴",
-  computer: "💻",
-  tv: "📺",
-  movie: "🎬",
-  music: "🎵",
-  football: "⚽",
-  basketball: "🏀",
-  soccer: "⚽",
-  tennis: "🎾",
-  trophy: "🏆",
-  winner: "🏆",
-  celebrate: "🎉",
-  partypopper: "🎉",
-  congrats: "🎊",
-  birthday: "🎂",
-  fireworks: "🎆",
-  balloon: "🎈",
-  mail: "✉️",
-  time: "⏰",
-  clock: "⏰",
-  umbrella: "☂️",
-  island: "🏝️",
-  flag: "🚩",
-  poolparty: "🏊",
-  skipping: "🦘",
-  skip: "⏭️",
-  bricklayers: "🧱",
-  neil: "👨",
+const REGIONAL_INDICATOR_OFFSET = 0x1f1e6 - "a".charCodeAt(0);
 
-  bomb: "💣",
-  zzz: "💤",
-  boom: "💥",
-  sweatdrops: "💦",
-  dash: "💨",
-  poop: "💩",
-  tongue: "👅",
-  ear: "👂",
-  nose: "👃",
-  eye: "👁️",
-  eyes: "👀",
-  "1f440_eyes": "👀",
-  bust: "👤",
-  busts: "👥",
-  speech: "💬",
-  footprints: "👣",
-  cash: "💰",
-  idea: "💡",
-  dont: "🚫",
-  hear: "👂",
-  laugh: "😂",
-  mooning: "🍑",
-  tmi: "🙈",
-  waiting: "⏳",
-  holdon: "✋",
-  mytime: "⏰",
-  myspace: "🌐",
-  lalala: "🎵",
-  talk: "💬",
-  thinking: "🤔",
-  listening: "👂",
-  smoking: "🚬",
-  smoke: "🚬",
-  skype: "☁️",
-  mediumwhitesquare: "◻️",
+function flagEmoji(countryCode: string): string {
+  return String.fromCodePoint(
+    ...Array.from(countryCode, (char) => char.charCodeAt(0) + REGIONAL_INDICATOR_OFFSET),
+  );
+}
 
-  ":)": "😊",
-  ":(": "🙁",
-  ":d": "😃",
-  ":p": "😛",
-  ";)": "😉",
-  ":o": "😮",
-  ":'(": "😢",
-  ":|": "😐",
-  ":*": "😘",
-  ":x": "😙",
-  ">:)": "😈",
-  "<3": "❤️",
-  "</3": "💔",
-  ":3": "😙",
-  ":@": "😠",
-  "^_^": "😊",
-  "-_-": "😑",
-  o_o: "😳",
-  "<o>": "👼",
+function codePointEmoji(id: string): string | null {
+  const prefix = id.match(EMOTICON_ID_PATTERNS.CodePoints)?.[1];
+  if (!prefix) return null;
+  return String.fromCodePoint(
+    ...prefix.slice(0, -1).split("_").map((hex) => parseInt(hex, 16)),
+  );
+}
 
-  d: "😃",
-  p: "😛",
-  o: "😮",
-  s: "😕",
-  x: "🤐",
-  "8": "😎",
-  "|": "😐",
-  "*": "😘",
-  "@": "😠",
-  "^": "😊",
-};
+function applySkinTone(emoji: string, tone: number): string {
+  const [base, ...rest] = Array.from(emoji);
+  if (!EMOJI_MODIFIER_BASE.test(base)) return emoji;
+  // The modifier replaces the emoji presentation selector that may follow the base
+  const tail = rest[0] === "\uFE0F" ? rest.slice(1) : rest;
+  return base + SKIN_TONE_MODIFIERS[tone - 1] + tail.join("");
+}
 
-const emojiPatterns: Array<[RegExp, string]> = Object.keys(skypeEmojiMap)
-  .sort((a, b) => b.length - a.length)
-  .map((key) => [
-    new RegExp(`\\(${key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\)`, "gi"),
-    skypeEmojiMap[key],
-  ]);
+/**
+ * Looks up the emoji for a Skype emoticon or reaction key ("heart", "like"),
+ * including flags ("flag:gb"), skin-tone variants ("wave_3") and ids that lead
+ * with their code points ("1f440_eyes").
+ */
+export function getSkypeEmoji(key: string): string | null {
+  const id = key.toLowerCase();
+  const known = SKYPE_EMOTICONS[id] ?? codePointEmoji(id);
+  if (known) return known;
 
-const ssTagPattern =
-  /<ss[^>]*type="([^"]+)"[^>]*>[\s\S]*?<\/ss>/gi;
+  const country = id.match(EMOTICON_ID_PATTERNS.Flag)?.[1];
+  if (country) return flagEmoji(country);
 
+  const toned = id.match(EMOTICON_ID_PATTERNS.SkinTone);
+  if (toned) {
+    const base = SKYPE_EMOTICONS[toned[1]] ?? codePointEmoji(toned[1]);
+    if (base) return applySkinTone(base, Number(toned[2]));
+  }
+
+  return null;
+}
+
+/**
+ * Wraps the emoji in a span that records the shortcode it came from, so the
+ * message view can show it. Unknown ids are kept as their "(id)" text.
+ */
+function renderEmoticon(id: string): string {
+  const emoji = getSkypeEmoji(id);
+  if (!emoji) return escapeHtml(`(${id})`);
+  return `<span data-emoticon="${escapeHtml(id.toLowerCase())}">${emoji}</span>`;
+}
+
+/**
+ * Replaces Skype emoticons in message HTML with emoji. Shorthand is only replaced in
+ * text, never inside tags, so links that contain "(d)" and the like survive.
+ */
 export function parseSkypeEmoji(text: string): string {
   if (!text) return text;
 
-  let parsed = text.replace(ssTagPattern, (_, rawType) => {
-    const type = (rawType ?? "").toLowerCase();
-    return skypeEmojiMap[type] || "";
-  });
+  const parsed = text.replace(ssTagPattern, (_, rawType: string) =>
+    renderEmoticon(rawType),
+  );
 
   if (parsed.indexOf("(") === -1) {
     return parsed;
   }
 
-  for (const [pattern, emoji] of emojiPatterns) {
-    parsed = parsed.replace(pattern, emoji);
-  }
-  return parsed;
+  return parsed
+    .split(TAG_SPLIT_PATTERN)
+    .map((part, index) =>
+      index % 2 === 1
+        ? part
+        : part.replace(shorthandPattern, (match, id: string) =>
+            getSkypeEmoji(id) ? renderEmoticon(id) : match,
+          ),
+    )
+    .join("");
 }
@@ -0,0 +1,282 @@
+import type {
+  Conversation,
+  Message,
+  MessageProperties,
+  SkypeExport,
+  ThreadProperties,
+} from "../types/messages";
+import type {
+  TeamsChat,
+  TeamsChatMessage,
+  TeamsEventDetail,
+  TeamsExport,
+  TeamsIdentity,
+} from "../types/teams";
+import {
+  TEAMS_CHATS_KEY,
+  TEAMS_USER_KEY,
+  TEAMS_HTML_PATTERNS,
+  TEAMS_EVENT_PREFIX,
+  TEAMS_EVENT_SUFFIX,
+  TEAMS_MEDIA_OBJECT_PATTERN,
+} from "../constants/teams";
+
+const isoDurationPattern =
+  /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?)?$/;
+
+/**
+ * Detects a Teams (free) chat export from its top-level keys.
+ */
+export function isTeamsExport(keys: string[]): boolean {
+  return keys.includes(TEAMS_CHATS_KEY) && !keys.includes("conversations");
+}
+
+/**
+ * The Teams user who made the export; its ID is what messages use in `from`.
+ */
+export function adaptTeamsUser(user: TeamsIdentity): string {
+  return user.id;
+}
+
+export function adaptTeamsExport(data: TeamsExport): SkypeExport {
+  const userId = adaptTeamsUser(data[TEAMS_USER_KEY]);
+  return {
+    userId,
+    exportDate: data.exportDate ?? "",
+    conversations: data[TEAMS_CHATS_KEY].map((chat) =>
+      adaptTeamsChat(chat, userId),
+    ),
+  };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function parseIsoDuration(duration: string | null | undefined): number | null {
+  const match = duration ? isoDurationPattern.exec(duration) : null;
+  if (!match) return null;
+
+  const [, days, hours, minutes, seconds] = match;
+  return (
+    Number(days ?? 0) * 86400 +
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Number(seconds ?? 0)
+  );
+}
+
+function toVersion(dateTime: string | null | undefined): number {
+  const time = dateTime ? Date.parse(dateTime) : NaN;
+  return Number.isNaN(time) ? 0 : time;
+}
+
+function convertBody(message: TeamsChatMessage): string {
+  const { contentType, content } = message.body;
+  if (contentType !== "html") {
+    return escapeXml(content ?? "");
+  }
+
+  let converted = content ?? "";
+  for (const [pattern, replacement] of TEAMS_HTML_PATTERNS) {
+    converted = converted.replace(pattern, replacement);
+  }
+  return converted.trim();
+}
+
+function eventName(detail: TeamsEventDetail): string {
+  return detail["@odata.type"]
+    .replace(TEAMS_EVENT_PREFIX, "")
+    .replace(TEAMS_EVENT_SUFFIX, "");
+}
+
+function identityName(identity: TeamsIdentity | null | undefined): string {
+  return identity?.displayName || identity?.id || "";
+}
+
+/**
+ * Rewrites a Teams system event as the Skype ThreadActivity or call event XML that
+ * messageProcessor already understands.
+ */
+function convertSystemEvent(
+  detail: TeamsEventDetail,
+): Pick<Message, "messagetype" | "content"> {
+  const name = eventName(detail);
+  const initiator = escapeXml(detail.initiator?.user?.id ?? "");
+  const targets = (detail.members ?? [])
+    .map((member) => `<target>${escapeXml(identityName(member))}</target>`)
+    .join("");
+
+  switch (name) {
+    case "membersAdded":
+      return {
+        messagetype: "ThreadActivity/AddMember",
+        content: `<addmember><initiator>${initiator}</initiator>${targets}</addmember>`,
+      };
+    case "membersDeleted":
+      return {
+        messagetype: "ThreadActivity/DeleteMember",
+        content: `<deletemember><initiator>${initiator}</initiator>${targets}</deletemember>`,
+      };
+    case "chatRenamed":
+      return {
+        messagetype: "ThreadActivity/TopicUpdate",
+        content: `<topicupdate><initiator>${initiator}</initiator><value>${escapeXml(
+          detail.chatDisplayName ?? "",
+        )}</value></topicupdate>`,
+      };
+    case "callStarted":
+    case "callEnded": {
+      const duration = parseIsoDuration(detail.callDuration);
+      const parts = (detail.callParticipants ?? [])
+        .map(({ participant }) => participant?.user)
+        .filter((user): user is TeamsIdentity => Boolean(user?.id))
+        .map(
+          (user) =>
+            `<part identity="${escapeXml(user.id)}"><name>${escapeXml(
+              identityName(user),
+            )}</name>${duration !== null ? `<duration>${duration}</duration>` : ""}</part>`,
+        )
+        .join("");
+      return {
+        messagetype: "Event/Call",
+        content: `<partlist type="${name === "callStarted" ? "started" : "ended"}" alt="">${parts}</partlist>`,
+      };
+    }
+    default:
+      // Other events have no Skype equivalent and are hidden like unhandled ThreadActivity
+      return { messagetype: `ThreadActivity/${name}`, content: "" };
+  }
+}
+
+function convertMessage(
+  message: TeamsChatMessage,
+  conversationId: string,
+): Message[] {
+  const sender = message.from?.user ?? message.from?.application ?? null;
+  const properties: MessageProperties = {};
+  if (message.deletedDateTime) {
+    properties.deletetime = String(toVersion(message.deletedDateTime));
+  }
+  if (
+    message.lastModifiedDateTime &&
+    message.lastModifiedDateTime !== message.createdDateTime
+  ) {
+    properties.edittime = String(toVersion(message.lastModifiedDateTime));
+  }
+
+  const base: Message = {
+    id: message.id,
+    displayName: sender?.displayName ?? null,
+    originalarrivaltime: message.createdDateTime,
+    messagetype: "RichText",
+    version: toVersion(message.lastModifiedDateTime ?? message.createdDateTime),
+    content: "",
+    conversationid: conversationId,
+    // Applications are bots; Skype prefixes bot identities with 28:
+    from: message.from?.user
+      ? message.from.user.id
+      : message.from?.application
+        ? `28:${message.from.application.id}`
+        : "",
+    properties: Object.keys(properties).length > 0 ? properties : null,
+  };
+
+  if (message.messageType === "systemEventMessage" && message.eventDetail) {
+    return [{ ...base, ...convertSystemEvent(message.eventDetail) }];
+  }
+
+  // Deleted messages keep no body, like Skype's deleted message records
+  if (message.deletedDateTime) {
+    return [base];
+  }
+
+  const messages: Message[] = [];
+  const content = convertBody(message);
+  if (content || !message.attachments?.length) {
+    messages.push({ ...base, content });
+  }
+
+  // Each attachment becomes its own media or file message, as in Skype exports
+  for (const attachment of message.attachments ?? []) {
+    const name = escapeXml(attachment.name ?? "");
+    const objectId = attachment.contentUrl
+      ? TEAMS_MEDIA_OBJECT_PATTERN.exec(attachment.contentUrl)?.[1]
+      : undefined;
+    const isVideo = attachment.contentType.startsWith("video/");
+    const isMedia =
+      Boolean(objectId) &&
+      (isVideo || attachment.contentType.startsWith("image/"));
+
+    messages.push({
+      ...base,
+      id: `${message.id}-${attachment.id}`,
+      messagetype: isMedia
+        ? isVideo
+          ? "RichText/Media_Video"
+          : "RichText/UriObject"
+        : "RichText/Media_GenericFile",
+      content: isMedia
+        ? `<URIObject type="${isVideo ? "Video.1" : "Picture.1"}" uri="https://api.asm.skype.com/v1/objects/${objectId}"><OriginalName v="${name}"/></URIObject>`
+        : `<URIObject type="File.1" uri="${escapeXml(attachment.contentUrl ?? "")}"><OriginalName v="${name}"/></URIObject>`,
+    });
+  }
+
+  return messages;
+}
+
+/**
+ * Maps a Teams chat onto a Skype conversation. Messages are ordered newest first,
+ * matching the MessageList order of Skype exports. Untitled chats are named after
+ * their members other than the exporting user.
+ */
+export function adaptTeamsChat(chat: TeamsChat, userId?: string): Conversation {
+  const members = chat.members ?? [];
+  const displayName =
+    chat.topic ||
+    members
+      .filter((member) => member.userId !== userId)
+      .map((member) => member.displayName)
+      .filter(Boolean)
+      .join(", ") ||
+    chat.id;
+
+  const threadProperties: ThreadProperties | null =
+    chat.chatType === "oneOnOne"
+      ? null
+      : {
+          topic: chat.topic ?? undefined,
+          membercount: members.length,
+          members: JSON.stringify(
+            members.map((member) => member.userId).filter(Boolean),
+          ),
+        };
+
+  // Reversed before the (stable) sort so the parts of one Teams message still read
+  // text first, then attachments, once the list is displayed oldest first
+  const messages = chat.messages
+    .flatMap((message) => convertMessage(message, chat.id))
+    .reverse()
+    .sort(
+      (a, b) =>
+        Date.parse(b.originalarrivaltime) - Date.parse(a.originalarrivaltime),
+    );
+
+  return {
+    id: chat.id,
+    displayName,
+    version: toVersion(chat.createdDateTime),
+    properties: {
+      conversationblocked: false,
+      lastimreceivedtime: messages[0]?.originalarrivaltime ?? null,
+      consumptionhorizon: null,
+      conversationstatus: null,
+    },
+    threadProperties,
+    MessageList: messages,
+  };
+}
@@ -0,0 +1,134 @@
+import type { Conversation } from "../types/messages";
+import type {
+  ExportParserRequest,
+  ExportParserResponse,
+} from "../types/parser";
+import {
+  createJsonStreamScanner,
+  JsonScanError,
+} from "../utils/jsonStreamScanner";
+import { salvageConversation } from "../utils/exportRecovery";
+import { indexConversation } from "../utils/conversationIndex";
+import { adaptTeamsChat, adaptTeamsUser } from "../utils/teamsAdapter";
+import type { TeamsChat, TeamsIdentity } from "../types/teams";
+import {
+  FILE_CHUNK_SIZE,
+  PROGRESS_UPDATE_INTERVAL,
+  CONVERSATION_BATCH_SIZE,
+} from "../constants/fileUpload";
+import { TEAMS_CHATS_KEY, TEAMS_USER_KEY } from "../constants/teams";
+
+function post(response: ExportParserResponse) {
+  self.postMessage(response);
+}
+
+/**
+ * Reads messages.json in chunks and streams conversations back to the main thread in
+ * batches as soon as each one is complete. Only the current chunk and the conversation
+ * being scanned are held in memory. Teams chat exports are recognised by their
+ * top-level keys and converted chat by chat.
+ *
+ * In index mode, conversations are not parsed: each is sent with its byte range in the
+ * file and a summary of its messages, and read in full only when it is opened.
+ *
+ * In recovery mode, a parse failure ends the import instead of failing it: the
+ * conversation that broke is salvaged up to its last complete message and a report
+ * of where the file broke is sent before "done".
+ */
+async function parseExport({ file, recover, index }: ExportParserRequest) {
+  let batch: Conversation[] = [];
+  let completed = 0;
+  let lastFlush = Date.now();
+  let teamsUserId: string | undefined;
+  let hasExportDate = false;
+
+  const flush = () => {
+    if (batch.length > 0) {
+      post({ type: "conversations", conversations: batch });
+      batch = [];
+    }
+    lastFlush = Date.now();
+  };
+
+  const scanner = createJsonStreamScanner({
+    splitKeys: new Set(["conversations", TEAMS_CHATS_KEY]),
+    rawKeys: index ? new Set(["conversations"]) : undefined,
+    onMember: (key, value) => {
+      if (key === TEAMS_USER_KEY) {
+        teamsUserId = adaptTeamsUser(value as TeamsIdentity);
+        post({ type: "member", key: "userId", value: teamsUserId });
+      } else {
+        if (key === "exportDate") hasExportDate = true;
+        post({ type: "member", key, value });
+      }
+    },
+    onElement: (key, value, _index, offset) => {
+      batch.push(
+        key === TEAMS_CHATS_KEY
+          ? adaptTeamsChat(value as TeamsChat, teamsUserId)
+          : index
+            ? indexConversation(value as Uint8Array, offset, file)
+            : (value as Conversation),
+      );
+      completed++;
+      if (batch.length >= CONVERSATION_BATCH_SIZE) flush();
+    },
+  });
+
+  try {
+    let offset = 0;
+    while (offset < file.size) {
+      const buffer = await file
+        .slice(offset, offset + FILE_CHUNK_SIZE)
+        .arrayBuffer();
+      offset += buffer.byteLength;
+      scanner.write(new Uint8Array(buffer));
+
+      if (Date.now() - lastFlush > PROGRESS_UPDATE_INTERVAL) {
+        flush();
+        post({ type: "progress", progress: (offset / file.size) * 100 });
+      }
+    }
+
+    scanner.end();
+  } catch (error) {
+    if (!recover || !(error instanceof JsonScanError)) throw error;
+
+    const salvaged =
+      error.element?.key === "conversations"
+        ? salvageConversation(error.element)
+        : null;
+    const salvagedMessages = salvaged?.conversation?.MessageList.length ?? 0;
+    if (salvaged?.conversation && salvagedMessages > 0) {
+      batch.push(salvaged.conversation);
+    }
+
+    post({
+      type: "recovered",
+      report: {
+        reason: error.message,
+        byteOffset: salvaged?.breakOffset ?? error.offset,
+        conversationIndex: error.element?.index ?? completed,
+        recoveredConversations: completed + (salvagedMessages > 0 ? 1 : 0),
+        salvagedMessages,
+      },
+    });
+  }
+
+  flush();
+  // Teams exports may leave the date out, as adaptTeamsExport allows
+  if (teamsUserId !== undefined && !hasExportDate) {
+    post({ type: "member", key: "exportDate", value: "" });
+  }
+  post({ type: "done" });
+}
+
+self.onmessage = (event: MessageEvent<ExportParserRequest>) => {
+  parseExport(event.data).catch((error) => {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      corrupt: error instanceof JsonScanError,
+    });
+  });
+};
@@ -0,0 +1,83 @@
+import initSqlJs from "sql.js";
+import sqlWasmUrl from "sql.js/dist/sql-wasm-browser.wasm?url";
+import type { Conversation } from "../types/messages";
+import type {
+  ExportParserResponse,
+  LegacyDbParserRequest,
+} from "../types/parser";
+import { readLegacyDatabase } from "../utils/legacyDbParser";
+import {
+  PROGRESS_UPDATE_INTERVAL,
+  CONVERSATION_BATCH_SIZE,
+} from "../constants/fileUpload";
+import { LEGACY_LOAD_PROGRESS_SHARE } from "../constants/legacyDb";
+
+function post(response: ExportParserResponse) {
+  self.postMessage(response);
+}
+
+/**
+ * Opens a legacy Skype main.db with the bundled SQLite build and streams its
+ * conversations back in the same messages the JSON export parser uses.
+ * The WASM binary is served with the app, so nothing is fetched from the network.
+ */
+async function parseDatabase({ file }: LegacyDbParserRequest) {
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  post({ type: "progress", progress: LEGACY_LOAD_PROGRESS_SHARE / 2 });
+
+  const db = new SQL.Database(new Uint8Array(await file.arrayBuffer()));
+  post({ type: "progress", progress: LEGACY_LOAD_PROGRESS_SHARE });
+
+  let batch: Conversation[] = [];
+  let lastFlush = Date.now();
+
+  const flush = () => {
+    if (batch.length > 0) {
+      post({ type: "conversations", conversations: batch });
+      batch = [];
+    }
+    lastFlush = Date.now();
+  };
+
+  try {
+    post({
+      type: "member",
+      key: "exportDate",
+      value: new Date(file.lastModified).toISOString(),
+    });
+
+    readLegacyDatabase(db, {
+      onMember: (key, value) => post({ type: "member", key, value }),
+      onConversation: (conversation) => {
+        batch.push(conversation);
+        if (batch.length >= CONVERSATION_BATCH_SIZE) flush();
+      },
+      onProgress: (progress) => {
+        if (Date.now() - lastFlush > PROGRESS_UPDATE_INTERVAL) {
+          flush();
+          post({
+            type: "progress",
+            progress:
+              LEGACY_LOAD_PROGRESS_SHARE +
+              (progress / 100) * (100 - LEGACY_LOAD_PROGRESS_SHARE),
+          });
+        }
+      },
+    });
+  } finally {
+    db.close();
+  }
+
+  flush();
+  post({ type: "done" });
+}
+
+self.onmessage = (event: MessageEvent<LegacyDbParserRequest>) => {
+  parseDatabase(event.data).catch((error) => {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      corrupt: false,
+    });
+  });
+};
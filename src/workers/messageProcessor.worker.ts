@@ -0,0 +1,67 @@
+import type {
+  MessageProcessorRequest,
+  MessageProcessorResponse,
+} from "../types/processor";
+import {
+  createMessageProcessor,
+  type MessageProcessor,
+} from "../utils/messageProcessor";
+import { debugLog } from "../utils/debug";
+import { PROCESSOR_BATCH_SIZE } from "../constants/messages";
+
+let activeSessionId = 0;
+
+function post(response: MessageProcessorResponse) {
+  self.postMessage(response);
+}
+
+/**
+ * Works through a conversation one batch at a time, yielding between batches so that
+ * a request for another conversation is picked up straight away.
+ */
+function processInBatches(sessionId: number, processor: MessageProcessor) {
+  if (sessionId !== activeSessionId) return;
+
+  try {
+    const messages = processor.processUntil(
+      processor.position + PROCESSOR_BATCH_SIZE,
+    );
+    post({ type: "batch", sessionId, messages, done: processor.done });
+  } catch (error) {
+    post({
+      type: "error",
+      sessionId,
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+    return;
+  }
+
+  if (processor.done) {
+    debugLog("[messageProcessor.worker] Conversation processed:", {
+      sessionId,
+      messages: processor.position,
+    });
+  } else {
+    setTimeout(() => processInBatches(sessionId, processor), 0);
+  }
+}
+
+/**
+ * Processes conversations off the main thread. Each "start" replaces the previous
+ * session; the whole conversation is processed newest first and streamed back in
+ * batches, so the first screen is ready after one batch.
+ */
+self.onmessage = (event: MessageEvent<MessageProcessorRequest>) => {
+  const request = event.data;
+  activeSessionId = request.sessionId;
+  processInBatches(
+    request.sessionId,
+    createMessageProcessor(
+      request.messages,
+      request.userId,
+      request.viewerId,
+      request.mediaFiles,
+      request.members,
+    ),
+  );
+};